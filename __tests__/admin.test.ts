@@ -0,0 +1,181 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { createAdminRouter, type AdminHooks } from '../src/admin.js';
+import { Database } from '../src/server.js';
+import { SessionStore } from '../src/sessions.js';
+import { Scenarios } from '../src/scenarios.js';
+import { RequestJournal } from '../src/journal.js';
+import { Webhooks } from '../src/webhooks.js';
+import { MockGenerator } from '../src/mock.js';
+
+describe('Admin router', () => {
+  const seed = { shop: { Product: [{ id: '1', name: 'Lamp' }] } };
+  let server: HttpServer;
+  let baseUrl: string;
+  let database: Database;
+  let hooks: AdminHooks;
+  let sessions: SessionStore;
+  let scenarios: Scenarios;
+  let journal: RequestJournal;
+  let webhooks: Webhooks;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    database = new Database('/tmp/fake-api-admin-test/db.json', JSON.parse(JSON.stringify(seed)));
+    vi.spyOn(database as any, 'save').mockResolvedValue(undefined);
+    sessions = new SessionStore(() => seed);
+    journal = new RequestJournal();
+    webhooks = new Webhooks({ retries: 0 }, new MockGenerator('/specs', '/out'));
+    webhooks.register('shop', {
+      openapi: '3.1.0',
+      webhooks: { productCreated: { post: { requestBody: { content: { 'application/json': { example: { id: '1' } } } } } } },
+    });
+    scenarios = new Scenarios({
+      checkout: { steps: [{ operation: 'POST /orders', state: 'empty', transition: 'placed' }] },
+    });
+    hooks = {
+      database: () => database,
+      reset: () => database.replace(JSON.parse(JSON.stringify(seed))),
+      routes: () => [
+        { spec: 'shop', method: 'GET', path: '/api/shop/products', operationId: 'listProducts', schemaKey: 'Product' },
+        { spec: 'blog', method: 'GET', path: '/api/blog/posts', operationId: 'listPosts', schemaKey: 'Post' },
+      ],
+      regenerate: vi.fn(async (specName: string) => {
+        if (specName !== 'shop') return false;
+        await database.replace({ ...database.dump(), shop: { Product: [{ id: 'new' }] } });
+        return true;
+      }),
+      sessions: () => sessions,
+      scenarios: () => scenarios,
+      journal: () => journal,
+      webhooks: () => webhooks,
+    };
+
+    const app = express();
+    app.use(express.json());
+    app.use('/__admin', createAdminRouter(hooks));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/__admin`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('should dump, replace and reset the database', async () => {
+    const put = await fetch(`${baseUrl}/db`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ shop: { Product: [] } }),
+    });
+    expect(put.status).toBe(204);
+    expect(await (await fetch(`${baseUrl}/db`)).json()).toEqual({ shop: { Product: [] } });
+
+    const reset = await fetch(`${baseUrl}/reset`, { method: 'POST' });
+    expect(reset.status).toBe(204);
+    expect(await (await fetch(`${baseUrl}/db`)).json()).toEqual(seed);
+  });
+
+  it('should reject a database that is not an object', async () => {
+    const put = await fetch(`${baseUrl}/db`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([1, 2]),
+    });
+    expect(put.status).toBe(400);
+  });
+
+  it('should list routes, optionally for one spec', async () => {
+    expect(await (await fetch(`${baseUrl}/routes`)).json()).toHaveLength(2);
+    expect(await (await fetch(`${baseUrl}/routes?spec=shop`)).json()).toEqual([
+      { spec: 'shop', method: 'GET', path: '/api/shop/products', operationId: 'listProducts', schemaKey: 'Product' },
+    ]);
+  });
+
+  it('should regenerate the data of one spec', async () => {
+    const res = await fetch(`${baseUrl}/specs/shop/regenerate`, { method: 'POST' });
+    expect(await res.json()).toEqual({ Product: [{ id: 'new' }] });
+
+    const missing = await fetch(`${baseUrl}/specs/unknown/regenerate`, { method: 'POST' });
+    expect(missing.status).toBe(404);
+  });
+
+  it('should list and delete sessions', async () => {
+    sessions.get('alice');
+    sessions.get('bob');
+    const listed: any = await (await fetch(`${baseUrl}/sessions`)).json();
+    expect(listed.map((s: any) => s.id)).toEqual(['alice', 'bob']);
+
+    expect((await fetch(`${baseUrl}/sessions/alice`, { method: 'DELETE' })).status).toBe(204);
+    expect((await fetch(`${baseUrl}/sessions/alice`, { method: 'DELETE' })).status).toBe(404);
+    expect((await fetch(`${baseUrl}/sessions`, { method: 'DELETE' })).status).toBe(204);
+    expect(await (await fetch(`${baseUrl}/sessions`)).json()).toEqual([]);
+  });
+
+  it('should inspect, move and reset scenarios', async () => {
+    expect(await (await fetch(`${baseUrl}/scenarios`)).json()).toEqual([
+      { name: 'checkout', state: 'empty', initialState: 'empty', states: ['empty', 'placed'] },
+    ]);
+
+    const put = await fetch(`${baseUrl}/scenarios/checkout/state`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ state: 'placed' }),
+    });
+    expect(await put.json()).toMatchObject({ state: 'placed' });
+
+    const reset = await fetch(`${baseUrl}/scenarios/checkout/reset`, { method: 'POST' });
+    expect(await reset.json()).toMatchObject({ state: 'empty' });
+    expect((await fetch(`${baseUrl}/scenarios/unknown`)).status).toBe(404);
+  });
+
+  it('should count journaled requests matching a matcher', async () => {
+    const entry = {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      spec: 'blog',
+      method: 'POST',
+      url: '/posts',
+      path: '/posts',
+      operationId: 'createPost',
+      request: { headers: {}, query: {}, body: { title: 'Hi', author: 'ada' } },
+      response: { status: 201, headers: {} },
+      durationMs: 1,
+    };
+    journal.record(entry);
+    journal.record({ ...entry, request: { ...entry.request, body: { title: 'Yo', author: 'bob' } } });
+
+    const count = await fetch(`${baseUrl}/requests/count`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operationId: 'createPost', body: { author: 'ada' } }),
+    });
+    expect(await count.json()).toEqual({ count: 1 });
+
+    expect((await fetch(`${baseUrl}/requests`, { method: 'DELETE' })).status).toBe(204);
+    expect(await (await fetch(`${baseUrl}/requests`)).json()).toEqual([]);
+  });
+
+  it('should list and trigger declared webhooks', async () => {
+    expect(await (await fetch(`${baseUrl}/webhooks`)).json()).toEqual([{ spec: 'shop', name: 'productCreated', method: 'POST' }]);
+
+    const missingUrl = await fetch(`${baseUrl}/webhooks/shop/productCreated`, { method: 'POST' });
+    expect(missingUrl.status).toBe(400);
+    const unknown = await fetch(`${baseUrl}/webhooks/shop/unknown`, { method: 'POST' });
+    expect(unknown.status).toBe(404);
+
+    const triggered = await fetch(`${baseUrl}/webhooks/shop/productCreated`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: `${baseUrl}/reset` }),
+    });
+    expect(triggered.status).toBe(202);
+    await webhooks.settled();
+    expect(await (await fetch(`${baseUrl}/deliveries`)).json()).toMatchObject([
+      { kind: 'webhook', name: 'productCreated', payload: { id: '1' }, status: 'delivered' },
+    ]);
+  });
+});
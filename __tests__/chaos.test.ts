@@ -0,0 +1,110 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { OpenAPIV3 } from 'openapi-types';
+import { Chaos, chaosFromHeaders } from '../src/chaos.js';
+import type { OperationContext } from '../src/types.js';
+
+describe('Chaos', () => {
+  const api = {
+    openapi: '3.0.0',
+    info: { title: 'Test', version: '1.0.0' },
+    'x-mock-chaos': { latency: 100 },
+    paths: {
+      '/users/{id}': {
+        'x-mock-chaos': { errorRate: 20 },
+        get: {
+          'x-mock-chaos': { errorStatus: 503 },
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+    },
+  } as unknown as OpenAPIV3.Document;
+
+  const ctx: OperationContext = {
+    specName: 'test',
+    api,
+    path: '/users/{id}',
+    method: 'get',
+    operation: (api.paths['/users/{id}'] as any).get,
+  };
+
+  function mockReqRes(headers: Record<string, string> = {}) {
+    const req: any = { method: 'GET', originalUrl: '/users/1', headers, socket: { destroy: vi.fn() } };
+    const res: any = {
+      statusCode: 200,
+      locals: { openapi: ctx },
+      status(code: number) { this.statusCode = code; return this; },
+      json: vi.fn(),
+    };
+    return { req, res };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('chaosFromHeaders', () => {
+    it('should parse fixed and ranged latency and numeric rates', () => {
+      expect(chaosFromHeaders({ 'x-mock-latency': '200', 'x-mock-error-rate': '50' })).toEqual({ latency: 200, errorRate: 50 });
+      expect(chaosFromHeaders({ 'x-mock-latency': '100-300', 'x-mock-drop-rate': 'lots' })).toEqual({ latency: { min: 100, max: 300 } });
+    });
+  });
+
+  describe('resolve', () => {
+    it('should layer config file, spec extensions and headers', () => {
+      const chaos = new Chaos({
+        latency: 10,
+        truncateRate: 5,
+        routes: { 'GET /users/{id}': { errorRate: 90, dropRate: 1 } },
+      });
+      expect(chaos.resolve(ctx, { 'x-mock-drop-rate': '0' })).toEqual({
+        latency: 100,
+        truncateRate: 5,
+        errorRate: 20,
+        errorStatus: 503,
+        dropRate: 0,
+      });
+    });
+  });
+
+  describe('middleware', () => {
+    it('should answer with the injected error status when the error rate hits', () => {
+      vi.useFakeTimers();
+      const chaos = new Chaos({}, () => 0.1);
+      const { req, res } = mockReqRes();
+      const next = vi.fn();
+
+      chaos.middleware()(req, res, next);
+      expect(res.json).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(100);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(503);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Injected fault', status: 503 });
+    });
+
+    it('should pass requests through when no rate hits', () => {
+      const chaos = new Chaos({}, () => 0.99);
+      const { req, res } = mockReqRes({ 'x-mock-latency': '0' });
+      const next = vi.fn();
+
+      chaos.middleware()(req, res, next);
+      expect(next).toHaveBeenCalled();
+      expect(req.socket.destroy).not.toHaveBeenCalled();
+    });
+
+    it('should drop the connection when the drop rate hits', () => {
+      const chaos = new Chaos({}, () => 0);
+      const { req, res } = mockReqRes({ 'x-mock-latency': '0', 'x-mock-drop-rate': '100' });
+      const next = vi.fn();
+
+      chaos.middleware()(req, res, next);
+      expect(req.socket.destroy).toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import express from 'express';
+import * as jsYaml from 'js-yaml';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { landingPage, servedSpec, specDocs, type SpecSummary } from '../src/docs.js';
+
+describe('API docs', () => {
+  const spec: any = {
+    openapi: '3.0.0',
+    info: { title: 'Inventory <API>', version: '2.1.0', description: 'Stock levels' },
+    servers: [{ url: 'https://api.example.com/v2' }],
+    paths: {
+      '/items': { get: { operationId: 'listItems', responses: { '200': { description: 'OK' } } } },
+      '/openapi.yaml': { get: { operationId: 'getOwnSpec', responses: { '200': { description: 'OK' } } } },
+    },
+  };
+  const summary: SpecSummary = {
+    name: 'inventory',
+    title: spec.info.title,
+    version: spec.info.version,
+    description: spec.info.description,
+    mounts: [{ basePath: '/api/inventory' }, { basePath: '/v2' }, { basePath: '', host: 'inventory.test' }],
+    routes: [{ spec: 'inventory', method: 'GET', path: '/api/inventory/items', operationId: 'listItems', schemaKey: 'Item' }],
+    records: { Item: 3 },
+  };
+
+  let server: HttpServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const app = express();
+    app.get('/', landingPage(() => [summary]));
+    app.use('/v2', (req, res, next) => {
+      res.locals.basePath = '/v2';
+      next();
+    }, specDocs(spec), (req, res) => {
+      res.json({ route: req.path });
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should point the servers of the served spec at the mock', () => {
+    const served = servedSpec(spec, 'http://localhost:3000/v2');
+    expect(served.servers).toEqual([{ url: 'http://localhost:3000/v2', description: 'Mock server' }]);
+    expect(spec.servers).toEqual([{ url: 'https://api.example.com/v2' }]);
+  });
+
+  it('should serve the spec as JSON and YAML under the mount path', async () => {
+    const json = await fetch(`${baseUrl}/v2/openapi.json`);
+    expect(json.headers.get('content-type')).toMatch(/application\/json/);
+    const document = await json.json() as any;
+    expect(document.servers).toEqual([{ url: `${baseUrl}/v2`, description: 'Mock server' }]);
+    expect(document.paths['/items']).toEqual(spec.paths['/items']);
+
+    const page = await fetch(`${baseUrl}/v2/docs`);
+    expect(page.headers.get('content-type')).toMatch(/text\/html/);
+    const html = await page.text();
+    expect(html).toContain('swagger-ui-bundle.js');
+    expect(html).toContain('url: "/v2/openapi.json"');
+    expect(html).toContain('<title>Inventory &lt;API&gt; - API docs</title>');
+  });
+
+  it('should leave paths declared by the spec to its routes', async () => {
+    expect(await (await fetch(`${baseUrl}/v2/openapi.yaml`)).json()).toEqual({ route: '/openapi.yaml' });
+    expect(await (await fetch(`${baseUrl}/v2/items`)).json()).toEqual({ route: '/items' });
+  });
+
+  it('should serve the spec as YAML when the spec does not declare the path', async () => {
+    const app = express();
+    app.use(specDocs({ ...spec, paths: {} }));
+    const other = app.listen(0);
+    await new Promise(resolve => other.once('listening', resolve));
+    try {
+      const res = await fetch(`http://127.0.0.1:${(other.address() as AddressInfo).port}/openapi.yaml`);
+      expect(res.headers.get('content-type')).toMatch(/application\/yaml/);
+      expect((jsYaml.load(await res.text()) as any).info.version).toBe('2.1.0');
+    } finally {
+      await new Promise(resolve => other.close(resolve));
+    }
+  });
+
+  it('should list the mounted specs on the landing page', async () => {
+    const html = await (await fetch(`${baseUrl}/`, { headers: { Accept: 'text/html' } })).text();
+    expect(html).toContain('Inventory &lt;API&gt; <small>2.1.0</small>');
+    expect(html).toContain('<a href="/api/inventory/docs">Docs</a>');
+    expect(html).toContain('<td>Item</td><td>3</td>');
+    expect(html).toContain('/api/inventory/items');
+
+    const json = await (await fetch(`${baseUrl}/`, { headers: { Accept: 'application/json' } })).json() as any;
+    expect(json.specs[0]).toMatchObject({
+      name: 'inventory',
+      docs: '/api/inventory/docs',
+      records: { Item: 3 },
+      urls: ['/api/inventory', '/v2', `http://inventory.test:${(server.address() as AddressInfo).port}`],
+    });
+  });
+});
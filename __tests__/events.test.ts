@@ -0,0 +1,108 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { Duplex } from 'stream';
+import { ChangeFeed, EVENTS_PATH, filterFromUrl, type FeedEvent } from '../src/events.js';
+import { Database } from '../src/server.js';
+import { decodeFrames } from '../src/utils/websocket.js';
+
+describe('ChangeFeed', () => {
+  let database: Database;
+  let feed: ChangeFeed;
+  let server: http.Server;
+  let port: number;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    database = new Database('', { blog: { Post: [{ id: '1', title: 'Hello' }], Comment: [] }, shop: { Product: [] } });
+    feed = new ChangeFeed();
+    database.on('change', change => feed.publish(change));
+
+    const app = express();
+    app.get(EVENTS_PATH, feed.sse());
+    server = app.listen(0);
+    feed.attach(server);
+    await new Promise(resolve => server.once('listening', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('should publish every database change with before and after values', async () => {
+    const events: FeedEvent[] = [];
+    feed.subscribe({}, event => events.push(event));
+
+    await database.create('blog/Post', { id: '2', title: 'New' });
+    await database.patch('blog/Post/1', { title: 'Hi' });
+    await database.update('blog/Post/2', { id: '2', title: 'Newer' });
+    await database.delete('blog/Post/1');
+
+    expect(events.map(e => [e.id, e.operation, e.spec, e.collection, e.itemId])).toEqual([
+      [1, 'create', 'blog', 'Post', '2'],
+      [2, 'patch', 'blog', 'Post', '1'],
+      [3, 'update', 'blog', 'Post', '2'],
+      [4, 'delete', 'blog', 'Post', '1'],
+    ]);
+    expect(events[1]).toMatchObject({ before: { id: '1', title: 'Hello' }, after: { id: '1', title: 'Hi' } });
+    expect(events[3]).toMatchObject({ before: { id: '1', title: 'Hi' } });
+    expect(events[3].after).toBeUndefined();
+  });
+
+  it('should filter by spec and collection, always passing whole replacements', async () => {
+    const events: FeedEvent[] = [];
+    feed.subscribe(filterFromUrl('/__events?spec=blog&collection=Comment'), event => events.push(event));
+
+    await database.create('blog/Post', { id: '2' });
+    await database.create('shop/Product', { id: 'p' });
+    await database.create('blog/Comment', { id: 'c' });
+    await database.replace({});
+
+    expect(events.map(e => e.operation + ' ' + (e.collection || ''))).toEqual(['create Comment', 'replace ']);
+  });
+
+  it('should stream changes as Server-Sent Events', async () => {
+    const res = await fetch(`http://127.0.0.1:${port}${EVENTS_PATH}?collection=Post`);
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const reader = res.body!.getReader();
+    await reader.read(); // ': connected'
+
+    await database.create('blog/Comment', { id: 'c' });
+    await database.create('blog/Post', { id: '2', title: 'Streamed' });
+    const { value } = await reader.read();
+    const text = new TextDecoder().decode(value);
+    await reader.cancel();
+
+    expect(text).toMatch(/^id: 2\nevent: change\ndata: /);
+    expect(JSON.parse(text.split('data: ')[1])).toMatchObject({ operation: 'create', collection: 'Post', after: { title: 'Streamed' } });
+  });
+
+  it('should send changes to WebSocket subscribers', async () => {
+    const socket = await new Promise<Duplex>((resolve, reject) => {
+      const req = http.request({
+        port,
+        path: `${EVENTS_PATH}?spec=shop`,
+        headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==', 'Sec-WebSocket-Version': '13' },
+      });
+      req.on('upgrade', (res, upgraded) => {
+        expect(res.headers['sec-websocket-accept']).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+        resolve(upgraded);
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+    const message = new Promise<Buffer>(resolve => socket.once('data', resolve));
+    await database.create('blog/Post', { id: '2' });
+    await database.create('shop/Product', { id: 'p' });
+    const { frames } = decodeFrames(await message);
+    socket.destroy();
+
+    expect(frames).toHaveLength(1);
+    expect(JSON.parse(frames[0].payload.toString())).toMatchObject({ operation: 'create', spec: 'shop', itemId: 'p' });
+  });
+});
@@ -166,7 +166,23 @@ describe('Generator', () => {
       
       expect(controller).toContain('export const getUsers');
       expect(controller).toContain('await db.get');
-      expect(controller).toContain('res.json(data || [])');
+      expect(controller).toContain('sendPage(req, res, data || [], pagination)');
+    });
+
+    it('should filter collection GET controllers on declared query parameters', () => {
+      // Use any to access private method
+      const controller = (generator as any).generateControllerFunction({
+        operationId: 'getProducts',
+        method: 'get',
+        parameters: [
+          { name: 'category', in: 'query', schema: { type: 'string' } },
+          { name: 'minPrice', in: 'query', schema: { type: 'number' } }
+        ],
+        responses: { '200': { description: 'Success' } }
+      });
+
+      expect(controller).toContain('applyQueryFilters(await db.get(dbPath) || [], req.query, filters, schema)');
+      expect(controller).toContain('{"param":"minPrice","property":"price","op":"gte","type":"number"}');
     });
 
     it('should generate GET controller for single resource', () => {
@@ -0,0 +1,118 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { Idempotency } from '../src/idempotency.js';
+import type { OperationContext } from '../src/types.js';
+
+describe('Idempotency', () => {
+  const api: any = {
+    openapi: '3.0.0',
+    info: { title: 'Payments', version: '1.0.0' },
+    paths: {
+      '/payments': { post: { 'x-idempotent': true, responses: { '201': { description: 'Created' } } } },
+      '/refunds': { post: { 'x-idempotent': { ttl: 60 }, responses: { '201': { description: 'Created' } } } },
+      '/notes': { post: { responses: { '201': { description: 'Created' } } } },
+    },
+  };
+
+  let server: HttpServer;
+  let baseUrl: string;
+  let created: number;
+  let release: (() => void) | undefined;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    created = 0;
+    release = undefined;
+    const idempotency = new Idempotency(3600, req => req.headers['x-mock-session'] as string | undefined);
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      const context: OperationContext = { specName: 'payments', api, path: req.path, method: 'post', operation: api.paths[req.path].post };
+      res.locals.openapi = context;
+      next();
+    });
+    app.use(idempotency.middleware());
+    app.post('/:collection', async (req, res) => {
+      if (req.body.fail) {
+        res.status(503).json({ error: 'Unavailable' });
+        return;
+      }
+      if (req.body.slow) await new Promise<void>(resolve => { release = resolve; });
+      created++;
+      res.status(201).set('Location', `/payments/${created}`).json({ id: created, ...req.body });
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  const post = (path: string, body: any, headers: Record<string, string> = {}) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  it('should replay the first response for a repeated key', async () => {
+    const first = await post('/payments', { amount: 10 }, { 'Idempotency-Key': 'k1' });
+    const second = await post('/payments', { amount: 10 }, { 'Idempotency-Key': 'k1' });
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+    expect(await second.json()).toEqual(await first.json());
+    expect(second.headers.get('location')).toBe('/payments/1');
+    expect(second.headers.get('idempotent-replayed')).toBe('true');
+    expect(first.headers.get('idempotent-replayed')).toBeNull();
+    expect(created).toBe(1);
+  });
+
+  it('should reject a key reused for a different request with 422', async () => {
+    await post('/payments', { amount: 10 }, { 'Idempotency-Key': 'k1' });
+    const res = await post('/payments', { amount: 99 }, { 'Idempotency-Key': 'k1' });
+    expect(res.status).toBe(422);
+    expect(created).toBe(1);
+  });
+
+  it('should only apply to operations declaring x-idempotent, and to requests with a key', async () => {
+    await post('/notes', { text: 'a' }, { 'Idempotency-Key': 'k1' });
+    await post('/notes', { text: 'a' }, { 'Idempotency-Key': 'k1' });
+    await post('/payments', { amount: 10 });
+    await post('/payments', { amount: 10 });
+    expect(created).toBe(4);
+  });
+
+  it('should keep keys apart per data session', async () => {
+    await post('/payments', { amount: 10 }, { 'Idempotency-Key': 'k1', 'X-Mock-Session': 'a' });
+    await post('/payments', { amount: 10 }, { 'Idempotency-Key': 'k1', 'X-Mock-Session': 'b' });
+    expect(created).toBe(2);
+  });
+
+  it('should answer 409 while the first request is still being handled', async () => {
+    const first = post('/payments', { slow: true }, { 'Idempotency-Key': 'k2' });
+    await vi.waitFor(() => expect(release).toBeDefined());
+    const concurrent = await post('/payments', { slow: true }, { 'Idempotency-Key': 'k2' });
+    expect(concurrent.status).toBe(409);
+    release!();
+    expect((await first).status).toBe(201);
+  });
+
+  it('should not store 5XX responses, so that the request can be retried', async () => {
+    expect((await post('/payments', { fail: true }, { 'Idempotency-Key': 'k3' })).status).toBe(503);
+    const retry = await post('/payments', { fail: true }, { 'Idempotency-Key': 'k3' });
+    expect(retry.headers.get('idempotent-replayed')).toBeNull();
+  });
+
+  it('should expire stored responses after the operation TTL', async () => {
+    const now = Date.now();
+    await post('/refunds', { amount: 5 }, { 'Idempotency-Key': 'k4' });
+    vi.spyOn(Date, 'now').mockReturnValue(now + 61_000);
+    const later = await post('/refunds', { amount: 5 }, { 'Idempotency-Key': 'k4' });
+    expect(later.headers.get('idempotent-replayed')).toBeNull();
+    expect(created).toBe(2);
+  });
+});
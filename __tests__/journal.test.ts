@@ -0,0 +1,94 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { RequestJournal, matchesRequest, type JournalEntry } from '../src/journal.js';
+
+describe('RequestJournal', () => {
+  let server: HttpServer;
+  let baseUrl: string;
+  let dir: string;
+  let journal: RequestJournal;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-journal-'));
+    journal = new RequestJournal(path.join(dir, 'requests.jsonl'), 2);
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      const operationId = req.method === 'POST' ? 'createPost' : 'getPosts';
+      res.locals.openapi = { specName: 'blog', api: {}, path: '/posts', method: req.method.toLowerCase(), operation: { operationId, responses: {} } };
+      next();
+    }, journal.middleware());
+    app.get('/posts', (_req, res) => { res.json([{ id: '1' }]); });
+    app.post('/posts', (req, res) => { res.status(201).json({ id: '2', ...req.body }); });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  async function createPost(author: string) {
+    await fetch(`${baseUrl}/posts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Client': 'tests' },
+      body: JSON.stringify({ title: 'Hello', author: { name: author } }),
+    });
+  }
+
+  it('should record requests with their responses', async () => {
+    await createPost('ada');
+    const [entry] = journal.find();
+    expect(entry).toMatchObject({
+      id: 1,
+      spec: 'blog',
+      method: 'POST',
+      url: '/posts',
+      path: '/posts',
+      operationId: 'createPost',
+      request: { body: { title: 'Hello', author: { name: 'ada' } } },
+      response: { status: 201, body: { id: '2', title: 'Hello', author: { name: 'ada' } } },
+    });
+    expect(entry.request.headers['x-client']).toBe('tests');
+  });
+
+  it('should count requests matching body fields and headers', async () => {
+    await createPost('ada');
+    await fetch(`${baseUrl}/posts?tag=news`);
+
+    expect(journal.count({ operationId: 'createPost', body: { author: { name: 'ada' } } })).toBe(1);
+    expect(journal.count({ operationId: 'createPost', body: { author: { name: 'bob' } } })).toBe(0);
+    expect(journal.count({ method: 'post', headers: { 'X-Client': 'tests' } })).toBe(1);
+    expect(journal.count({ path: '/posts', query: { tag: 'news' } })).toBe(1);
+  });
+
+  it('should keep the latest entries in memory and append all of them to the file', async () => {
+    await createPost('ada');
+    await createPost('bob');
+    await createPost('cy');
+    await journal.flush();
+
+    expect(journal.find().map(e => e.id)).toEqual([2, 3]);
+    const lines = fs.readFileSync(path.join(dir, 'requests.jsonl'), 'utf-8').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).id)).toEqual([1, 2, 3]);
+  });
+
+  describe('matchesRequest', () => {
+    it('should match a concrete path as well as the path template', () => {
+      const entry = { method: 'GET', url: '/posts/1?x=1', path: '/posts/{id}', request: { headers: {}, query: {} }, response: { status: 200, headers: {} } } as unknown as JournalEntry;
+      expect(matchesRequest(entry, { path: '/posts/{id}' })).toBe(true);
+      expect(matchesRequest(entry, { path: '/posts/1', status: 200 })).toBe(true);
+      expect(matchesRequest(entry, { path: '/posts/2' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockServer, type MockServer } from '../src/mock-server.js';
+
+describe('createMockServer', () => {
+  const api: any = {
+    openapi: '3.0.0',
+    info: { title: 'Todos', version: '1.0.0' },
+    paths: {
+      '/todos': {
+        get: {
+          operationId: 'listTodos',
+          responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Todo' } } } } } },
+        },
+        post: {
+          operationId: 'createTodo',
+          requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Todo' } } } },
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/todos/{todoId}': {
+        parameters: [{ name: 'todoId', in: 'path', required: true, schema: { type: 'string' } }],
+        get: { operationId: 'getTodo', responses: { '200': { description: 'OK' } } },
+      },
+    },
+    components: {
+      schemas: {
+        Todo: { type: 'object', required: ['title'], properties: { id: { type: 'string' }, title: { type: 'string' } } },
+      },
+    },
+  };
+  const seed = { todos: { Todo: [{ id: '1', title: 'Write tests' }] } };
+
+  let servers: MockServer[];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    servers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.map(server => server.close()));
+    vi.restoreAllMocks();
+  });
+
+  const start = async (options: Parameters<typeof createMockServer>[0]) => {
+    const server = await createMockServer({ security: false, ...options });
+    servers.push(server);
+    return server;
+  };
+
+  const post = (server: MockServer, title: string) => fetch(`${server.url}/api/todos/todos`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title }),
+  });
+
+  it('should serve in-memory specs with seed data on a free port', async () => {
+    const server = await start({ specs: { todos: api }, seed });
+    expect(server.port).toBeGreaterThan(0);
+    expect(server.url).toBe(`http://127.0.0.1:${server.port}`);
+    const res = await fetch(`${server.url}/api/todos/todos/1`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id: '1', title: 'Write tests' });
+  });
+
+  it('should keep the data of servers running side by side apart', async () => {
+    const first = await start({ specs: { todos: api }, seed });
+    const second = await start({ specs: { todos: api }, seed });
+    expect(first.port).not.toBe(second.port);
+
+    expect((await post(first, 'Only on the first')).status).toBe(201);
+    expect(await first.db.get('todos/Todo')).toHaveLength(2);
+    expect(await second.db.get('todos/Todo')).toHaveLength(1);
+    expect(await (await fetch(`${second.url}/api/todos/todos`)).json()).toEqual(seed.todos.Todo);
+  });
+
+  it('should restore the seed data on reset', async () => {
+    const server = await start({ specs: { todos: api }, seed });
+    await post(server, 'Temporary');
+    await server.reset();
+    expect(await server.db.get('todos/Todo')).toEqual(seed.todos.Todo);
+  });
+
+  it('should generate mock data for spec directories without writing db.json', async () => {
+    const specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-specs-'));
+    fs.writeFileSync(path.join(specDir, 'todos.json'), JSON.stringify(api));
+    try {
+      const server = await start({ specs: specDir });
+      const todos = await (await fetch(`${server.url}/api/todos/todos`)).json() as any[];
+      expect(todos.length).toBeGreaterThan(0);
+      expect(fs.existsSync(path.join(specDir, 'db.json'))).toBe(false);
+    } finally {
+      fs.rmSync(specDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should serve specs under the paths of their servers as well as /api/<specName>', async () => {
+    const withServers = { ...api, servers: [{ url: 'https://api.example.com/{version}/tasks', variables: { version: { default: 'v2' } } }] };
+    const server = await start({ specs: { todos: withServers }, seed });
+    expect((await fetch(`${server.url}/v2/tasks/todos/1`)).status).toBe(200);
+    expect((await fetch(`${server.url}/api/todos/todos/1`)).status).toBe(200);
+    expect((await fetch(`${server.url}/v1/tasks/todos/1`)).status).toBe(404);
+  });
+
+  it('should keep the mount prefix in pagination links', async () => {
+    const withServers = { ...api, servers: [{ url: 'https://api.example.com/v2/tasks' }] };
+    const todos = [1, 2, 3].map(id => ({ id: String(id), title: `Task ${id}` }));
+    const server = await start({ specs: { todos: withServers }, seed: { todos: { Todo: todos } } });
+    const next = (res: Response) => /<([^>]+)>; rel="next"/.exec(res.headers.get('link') || '')![1];
+    for (const prefix of ['/api/todos', '/v2/tasks']) {
+      const first = await fetch(`${server.url}${prefix}/todos?limit=2`);
+      expect(next(first)).toBe(`${server.url}${prefix}/todos?page=2&limit=2`);
+      const second = await fetch(next(first));
+      expect(second.status).toBe(200);
+      expect(await second.json()).toEqual([todos[2]]);
+    }
+  });
+
+  it('should route by host name with host routing, and honour mount overrides', async () => {
+    const server = await start({
+      specs: {
+        todos: { ...api, servers: [{ url: 'https://todos.example.com' }] },
+        chores: { ...api, servers: [{ url: 'https://chores.example.com' }] },
+      },
+      seed: { todos: seed.todos, chores: { Todo: [{ id: '1', title: 'Dishes' }] } },
+      routing: 'host',
+      mounts: { chores: { basePath: '/house' } },
+    });
+    const get = async (host: string, url: string) => {
+      const res = await new Promise<{ status: number; body: string }>((resolve, reject) => {
+        http.get(`${server.url}${url}`, { headers: { Host: host } }, response => {
+          let body = '';
+          response.on('data', chunk => body += chunk);
+          response.on('end', () => resolve({ status: response.statusCode!, body }));
+        }).on('error', reject);
+      });
+      return res.status === 200 ? JSON.parse(res.body) : res.status;
+    };
+    expect(await get('todos.example.com', '/todos/1')).toEqual({ id: '1', title: 'Write tests' });
+    expect(await get('chores.example.com', '/house/todos/1')).toEqual({ id: '1', title: 'Dishes' });
+    expect(await get('chores.example.com', '/todos/1')).toBe(404);
+  });
+
+  it('should stop listening on close', async () => {
+    const server = await createMockServer({ specs: { todos: api }, seed, security: false });
+    await server.close();
+    await expect(fetch(`${server.url}/api/todos/todos`)).rejects.toThrow();
+  });
+});
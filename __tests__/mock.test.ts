@@ -222,4 +222,134 @@
 //   });
 
 
-// }); 
\ No newline at end of file
+// }); 
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { MockGenerator } from '../src/mock.js';
+
+describe('MockGenerator examples', () => {
+  const api: OpenAPIV3.Document = {
+    openapi: '3.0.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    paths: {
+      '/products': {
+        get: {
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/json': {
+                  schema: { type: 'array', items: { $ref: '#/components/schemas/Product' } },
+                  example: [{ id: 'p1', name: 'Walnut Desk', currency: 'EUR' }],
+                },
+              },
+            },
+          },
+        },
+      },
+      '/products/{id}': {
+        get: {
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/Product' },
+                  examples: { lamp: { $ref: '#/components/examples/Lamp' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Product: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            currency: { type: 'string', example: 'EUR' },
+          },
+        },
+      },
+      examples: {
+        Lamp: { value: { id: 'p2', name: 'Brass Lamp', currency: 'EUR' } },
+      },
+    },
+  };
+
+  let generator: MockGenerator;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    generator = new MockGenerator('/specs', '/out');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should seed collections with response examples', async () => {
+    const data = await generator.generateSpecData(api);
+    expect(data.Product).toHaveLength(5);
+    expect(data.Product.slice(0, 2)).toEqual([
+      { id: 'p1', name: 'Walnut Desk', currency: 'EUR' },
+      { id: 'p2', name: 'Brass Lamp', currency: 'EUR' },
+    ]);
+  });
+
+  it('should prefer property examples over generated values', async () => {
+    const data = await generator.generateSpecData(api);
+    expect(data.Product.every((item: any) => item.currency === 'EUR')).toBe(true);
+    expect(new Set(data.Product.map((item: any) => item.id)).size).toBe(5);
+  });
+
+  it('should use a schema example verbatim', () => {
+    const value = generator.generateFromSchema({ type: 'object', example: { id: 'x', name: 'Fixed' } }, {});
+    expect(value).toEqual({ id: 'x', name: 'Fixed' });
+  });
+});
+
+describe('MockGenerator binary properties', () => {
+  let outDir: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-mock-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should generate placeholder files for binary properties of multipart request bodies', async () => {
+    const api: OpenAPIV3.Document = {
+      openapi: '3.0.0',
+      info: { title: 'Zoo', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          post: {
+            requestBody: {
+              content: {
+                'multipart/form-data': {
+                  schema: { type: 'object', properties: { id: { type: 'string' }, avatar: { type: 'string', format: 'binary' } } },
+                },
+              },
+            },
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+      },
+    };
+    const data = await new MockGenerator('/specs', outDir).generateSpecData(api);
+    expect(data.pets).toHaveLength(5);
+    expect(data.pets[0].avatar).toMatchObject({ filename: 'avatar.png', contentType: 'image/png', url: '/__files/placeholder-image-png' });
+    expect(fs.existsSync(path.join(outDir, 'blobs', 'placeholder-image-png'))).toBe(true);
+  });
+});
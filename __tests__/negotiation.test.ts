@@ -0,0 +1,131 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { negotiateRequest, negotiateResponse, producedMediaTypes } from '../src/negotiation.js';
+import { ResponseValidator } from '../src/response-validator.js';
+import { TEXT_MEDIA_TYPES } from '../src/utils/media.js';
+import type { OperationContext } from '../src/types.js';
+
+describe('Content negotiation', () => {
+  const api: any = {
+    openapi: '3.0.0',
+    info: { title: 'Zoo', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: {
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/xml': { schema: { type: 'array', xml: { name: 'pets' }, items: { $ref: '#/components/schemas/Pet' } } },
+                'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } },
+                'text/csv': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } },
+              },
+            },
+            '404': { description: 'Not found', content: { 'application/json': { schema: { type: 'object' } } } },
+          },
+        },
+        post: {
+          requestBody: { content: { 'application/xml': { schema: { $ref: '#/components/schemas/Pet' } } } },
+          responses: { '201': { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Pet: {
+          type: 'object',
+          xml: { name: 'pet' },
+          required: ['id'],
+          properties: { id: { type: 'integer', xml: { attribute: true } }, name: { type: 'string' } },
+        },
+      },
+    },
+  };
+  const pets = [{ id: 1, name: 'Rex' }, { id: 2, name: 'Tom' }];
+
+  let server: HttpServer;
+  let baseUrl: string;
+  let received: any;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const app = express();
+    app.use(express.json());
+    app.use(express.text({ type: TEXT_MEDIA_TYPES }));
+    app.use((req, res, next) => {
+      const method = req.method.toLowerCase();
+      const context: OperationContext = { specName: 'zoo', api, path: '/pets', method, operation: api.paths['/pets'][method] };
+      res.locals.openapi = context;
+      next();
+    });
+    app.use(negotiateRequest());
+    app.use(new ResponseValidator('zoo', api).middleware('strict'));
+    app.use(negotiateResponse());
+    app.get('/pets', (req, res) => {
+      if (req.query.missing) res.status(404);
+      res.json(req.query.missing ? { error: 'Not found' } : pets);
+    });
+    app.post('/pets', (req, res) => {
+      received = req.body;
+      res.status(201).json(req.body);
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('should list produced media types with JSON first', () => {
+    expect(producedMediaTypes(api, api.paths['/pets'].get)).toEqual(['application/json', 'application/xml', 'text/csv']);
+  });
+
+  it('should default to JSON', async () => {
+    const res = await fetch(`${baseUrl}/pets`);
+    expect(res.headers.get('content-type')).toContain('application/json');
+    expect(res.headers.get('vary')).toContain('Accept');
+    expect(await res.json()).toEqual(pets);
+  });
+
+  it('should serialize XML and CSV when asked for, validating what is sent', async () => {
+    const xml = await fetch(`${baseUrl}/pets`, { headers: { Accept: 'application/xml' } });
+    expect(xml.status).toBe(200);
+    expect(xml.headers.get('content-type')).toContain('application/xml');
+    expect(await xml.text()).toContain('<pets><pet id="1"><name>Rex</name></pet><pet id="2"><name>Tom</name></pet></pets>');
+
+    const csv = await fetch(`${baseUrl}/pets`, { headers: { Accept: 'text/csv;q=0.9, application/json;q=0.5' } });
+    expect(csv.headers.get('content-type')).toContain('text/csv');
+    expect(await csv.text()).toBe('id,name\r\n1,Rex\r\n2,Tom\r\n');
+  });
+
+  it('should answer 406 when no declared media type is acceptable', async () => {
+    const res = await fetch(`${baseUrl}/pets`, { headers: { Accept: 'application/yaml' } });
+    expect(res.status).toBe(406);
+    expect(await res.json()).toEqual({ error: 'Not Acceptable', supported: ['application/json', 'application/xml', 'text/csv'] });
+  });
+
+  it('should fall back to JSON for responses that only declare JSON', async () => {
+    const res = await fetch(`${baseUrl}/pets?missing=1`, { headers: { Accept: 'application/xml, application/json;q=0.1' } });
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Not found' });
+  });
+
+  it('should parse XML request bodies with the request body schema', async () => {
+    const res = await fetch(`${baseUrl}/pets`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: '<?xml version="1.0"?><pet id="3"><name>Kit</name></pet>',
+    });
+    expect(res.status).toBe(201);
+    expect(received).toEqual({ id: 3, name: 'Kit' });
+
+    const invalid = await fetch(`${baseUrl}/pets`, { method: 'POST', headers: { 'Content-Type': 'application/xml' }, body: '<pet id="3">' });
+    expect(invalid.status).toBe(400);
+    expect(((await invalid.json()) as any).error).toMatch(/^Invalid XML request body: Unclosed element <pet>/);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { OpenAPIV3 } from 'openapi-types';
+import { PreferResponder, parsePrefer } from '../src/prefer.js';
+import { MockGenerator } from '../src/mock.js';
+
+describe('PreferResponder', () => {
+  const api: any = {
+    openapi: '3.0.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        Product: {
+          type: 'object',
+          properties: { id: { type: 'string' }, stock: { type: 'integer' } },
+        },
+      },
+      examples: {
+        OutOfStock: { value: { id: 'p1', stock: 0 } },
+      },
+    },
+  };
+
+  const operation: OpenAPIV3.OperationObject = {
+    responses: {
+      '200': {
+        description: 'OK',
+        headers: { 'X-Rate-Limit': { required: true, schema: { type: 'integer', example: 100 } } },
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Product' },
+            examples: {
+              inStock: { value: { id: 'p1', stock: 12 } },
+              outOfStock: { $ref: '#/components/examples/OutOfStock' },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Conflict',
+        content: { 'application/json': { example: { error: 'Already exists' } } },
+      },
+      '503': { description: 'Unavailable' },
+    },
+  };
+
+  let responder: PreferResponder;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    responder = new PreferResponder(new MockGenerator('/specs', '/out'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('parsePrefer', () => {
+    it('should parse code, example and dynamic preferences', () => {
+      expect(parsePrefer('code=404, example="outOfStock"')).toEqual({ code: 404, example: 'outOfStock' });
+      expect(parsePrefer('dynamic=true; respond-async')).toEqual({ dynamic: true });
+      expect(parsePrefer(undefined)).toEqual({});
+    });
+  });
+
+  describe('select', () => {
+    it('should select a response by status code and use its example', () => {
+      expect(responder.select(api, operation, { code: 409 })).toEqual({
+        status: 409,
+        headers: {},
+        contentType: 'application/json',
+        body: { error: 'Already exists' },
+      });
+      expect(responder.select(api, operation, { code: 503 })).toEqual({ status: 503, headers: {} });
+    });
+
+    it('should select a named example, resolving references', () => {
+      const selected: any = responder.select(api, operation, { example: 'outOfStock' });
+      expect(selected).toMatchObject({ status: 200, headers: { 'X-Rate-Limit': '100' }, body: { id: 'p1', stock: 0 } });
+    });
+
+    it('should synthesise the body from the schema when dynamic', () => {
+      const selected: any = responder.select(api, operation, { dynamic: true });
+      expect(selected.status).toBe(200);
+      expect(typeof selected.body.id).toBe('string');
+      expect(typeof selected.body.stock).toBe('number');
+    });
+
+    it('should report undeclared codes and examples', () => {
+      expect(responder.select(api, operation, { code: 418 })).toEqual({
+        error: 'Response 418 is not declared for this operation',
+        allowed: ['200', '409', '503'],
+      });
+      expect(responder.select(api, operation, { example: 'missing' })).toMatchObject({
+        error: 'Example "missing" is not declared for this operation',
+      });
+    });
+  });
+
+  describe('documented', () => {
+    it('should return the documented success example for static mode', () => {
+      expect(responder.documented(api, operation)).toMatchObject({ status: 200, body: { id: 'p1', stock: 12 } });
+      expect(responder.documented(api, { responses: { '204': { description: 'Deleted' } } })).toBeUndefined();
+    });
+  });
+
+  describe('middleware', () => {
+    it('should pass requests without preferences to the route', () => {
+      const next = vi.fn();
+      const res: any = { locals: { openapi: { specName: 'shop', api, path: '/products/{id}', method: 'get', operation } } };
+      responder.middleware()({ headers: {} } as any, res, next);
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { UpstreamProxy, captureRawBody } from '../src/proxy.js';
+import { Recordings } from '../src/recordings.js';
+import { createMockServer, type MockServer } from '../src/mock-server.js';
+
+describe('UpstreamProxy', () => {
+  const operation = { operationId: 'getProduct', responses: { '200': { description: 'OK' } } };
+  let upstream: HttpServer;
+  let server: HttpServer;
+  let baseUrl: string;
+  let dir: string;
+  let recordings: Recordings;
+
+  async function listen(app: express.Application): Promise<HttpServer> {
+    const listening = app.listen(0);
+    await new Promise(resolve => listening.once('listening', resolve));
+    return listening;
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-proxy-'));
+    recordings = new Recordings(dir);
+
+    // Local stand-in for the real service
+    const upstreamApp = express();
+    upstreamApp.use(express.json());
+    upstreamApp.get('/v1/products/:id', (req, res) => {
+      res.set('X-Upstream', 'yes').json({ id: req.params.id, name: 'Lamp', tag: req.query.tag });
+    });
+    upstreamApp.post('/v1/products', (req, res) => {
+      res.status(201).json({ id: '2', ...req.body });
+    });
+    upstream = await listen(upstreamApp);
+    const upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+    const proxy = new UpstreamProxy(upstreamUrl, recordings);
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.use((req, res, next) => {
+      res.locals.openapi = { specName: 'shop', api: {}, path: req.method === 'GET' ? '/products/{id}' : '/products', method: req.method.toLowerCase(), operation };
+      next();
+    });
+    app.use(recordings.replay(), proxy.middleware(), (req, res, next) => {
+      if (req.headers['x-mocked']) {
+        res.json({ mocked: true });
+        return;
+      }
+      next();
+    }, proxy.fallback());
+    server = await listen(app);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await new Promise(resolve => upstream.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should forward unmocked operations and record the exchanges', async () => {
+    const res = await fetch(`${baseUrl}/products/1?tag=new`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-upstream')).toBe('yes');
+    expect(await res.json()).toEqual({ id: '1', name: 'Lamp', tag: 'new' });
+
+    const created = await fetch(`${baseUrl}/products`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Desk' }),
+    });
+    expect(created.status).toBe(201);
+
+    const saved = JSON.parse(fs.readFileSync(path.join(dir, 'shop.json'), 'utf-8'));
+    expect(saved).toHaveLength(2);
+    expect(saved[0]).toMatchObject({
+      spec: 'shop',
+      method: 'GET',
+      path: '/products/{id}',
+      url: '/products/1?tag=new',
+      operationId: 'getProduct',
+      response: { status: 200, body: { id: '1', name: 'Lamp', tag: 'new' } },
+    });
+    expect(saved[1]).toMatchObject({ request: { body: { name: 'Desk' } }, response: { status: 201 } });
+  });
+
+  it('should leave mocked operations alone', async () => {
+    const res = await fetch(`${baseUrl}/products/1`, { headers: { 'X-Mocked': '1' } });
+    expect(await res.json()).toEqual({ mocked: true });
+    expect(fs.existsSync(path.join(dir, 'shop.json'))).toBe(false);
+  });
+
+  it('should replay recorded responses without calling the upstream', async () => {
+    await fetch(`${baseUrl}/products/1`);
+    await new Promise(resolve => upstream.close(resolve));
+    upstream.listen(0);
+
+    const res = await fetch(`${baseUrl}/products/1`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id: '1', name: 'Lamp' });
+  });
+});
+
+describe('UpstreamProxy in a server', () => {
+  const api: any = {
+    openapi: '3.0.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    paths: {
+      '/products': {
+        get: {
+          operationId: 'listProducts',
+          responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Product' } } } } } },
+        },
+        post: {
+          operationId: 'createProduct',
+          requestBody: {
+            content: {
+              'application/xml': { schema: { $ref: '#/components/schemas/Product' } },
+              'multipart/form-data': {
+                schema: { type: 'object', properties: { name: { type: 'string' }, photo: { type: 'string', format: 'binary' } } },
+              },
+            },
+          },
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/health': {
+        get: { operationId: 'getHealth', responses: { '200': { description: 'OK' } } },
+      },
+    },
+    components: {
+      schemas: {
+        Product: { type: 'object', xml: { name: 'product' }, properties: { name: { type: 'string' } } },
+      },
+    },
+  };
+  let upstream: HttpServer;
+  let upstreamUrl: string;
+  let server: MockServer | undefined;
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-proxy-'));
+    // Echoes the body and content type it receives
+    const upstreamApp = express();
+    upstreamApp.use(express.raw({ type: () => true }));
+    upstreamApp.post('/v1/products', (req, res) => {
+      res.status(201).json({ contentType: req.headers['content-type'], body: req.body.toString('utf-8') });
+    });
+    upstreamApp.get('/v1/products', (_req, res) => {
+      res.json([{ name: 'From upstream' }]);
+    });
+    upstreamApp.get('/v1/health', (_req, res) => {
+      res.cookie('session', 'upstream-secret').json({ status: 'up' });
+    });
+    upstream = upstreamApp.listen(0);
+    await new Promise(resolve => upstream.once('listening', resolve));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    await new Promise(resolve => upstream.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const start = async (proxyAll: boolean) => {
+    server = await createMockServer({ specs: { shop: api }, seed: {}, security: false, proxy: upstreamUrl, proxyAll, recordingsDir: dir });
+    return server;
+  };
+
+  it('should forward only the operations no resource backs without proxyAll', async () => {
+    const server = await start(false);
+    expect(await (await fetch(`${server.url}/api/shop/health`)).json()).toEqual({ status: 'up' });
+    expect(await (await fetch(`${server.url}/api/shop/products`)).json()).toEqual([]);
+  });
+
+  it('should record exchanges without credentials', async () => {
+    const server = await start(true);
+    const res = await fetch(`${server.url}/api/shop/health`, {
+      headers: { Authorization: 'Bearer real-token', Cookie: 'sid=real-session', 'X-API-Key': 'real-key', 'X-Trace': 'kept' },
+    });
+    expect(res.headers.get('set-cookie')).toContain('session=upstream-secret');
+
+    const [recording] = JSON.parse(fs.readFileSync(path.join(dir, 'shop.json'), 'utf-8'));
+    expect(recording.request.headers).toMatchObject({
+      authorization: '[REDACTED]',
+      cookie: '[REDACTED]',
+      'x-api-key': '[REDACTED]',
+      'x-trace': 'kept',
+    });
+    expect(recording.response.headers['set-cookie']).toBeUndefined();
+    expect(JSON.stringify(recording)).not.toMatch(/real-token|real-session|real-key|upstream-secret/);
+  });
+
+  it('should forward XML bodies as sent', async () => {
+    const xml = '<?xml version="1.0"?><product><name>Lamp</name></product>';
+    const server = await start(true);
+    const res = await fetch(`${server.url}/api/shop/products`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: xml,
+    });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ contentType: 'application/xml', body: xml });
+  });
+
+  it('should forward multipart bodies with their boundary', async () => {
+    const server = await start(true);
+    const form = new FormData();
+    form.append('name', 'Lamp');
+    form.append('photo', new Blob(['PNG bytes'], { type: 'image/png' }), 'lamp.png');
+    const res = await fetch(`${server.url}/api/shop/products`, { method: 'POST', body: form });
+    expect(res.status).toBe(201);
+    const echoed = await res.json() as any;
+    const boundary = echoed.contentType.match(/boundary=(.+)$/)[1];
+    expect(echoed.body).toContain(`--${boundary}\r\nContent-Disposition: form-data; name="name"\r\n\r\nLamp\r\n`);
+    expect(echoed.body).toContain('filename="lamp.png"\r\nContent-Type: image/png\r\n\r\nPNG bytes\r\n');
+    expect(echoed.body).toContain(`--${boundary}--`);
+  });
+});
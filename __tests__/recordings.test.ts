@@ -0,0 +1,78 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { Recordings, type Recording } from '../src/recordings.js';
+
+describe('Recordings', () => {
+  const api = {
+    openapi: '3.0.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    paths: {
+      '/products': {
+        get: { operationId: 'listProducts', responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Product' } } } } } } },
+      },
+      '/products/{productId}': {
+        get: { operationId: 'getProduct', responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Product' } } } } } },
+      },
+    },
+    components: {
+      schemas: {
+        Product: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' } } },
+      },
+    },
+  } as unknown as OpenAPIV3.Document;
+
+  function recording(url: string, openapiPath: string, body: any, status = 200): Recording {
+    return {
+      spec: 'shop',
+      method: 'GET',
+      path: openapiPath,
+      url,
+      request: { headers: {} },
+      response: { status, headers: { 'content-type': 'application/json' }, body },
+      recordedAt: '2024-01-01T00:00:00.000Z',
+    };
+  }
+
+  let dir: string;
+  let recordings: Recordings;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-recordings-'));
+    fs.writeFileSync(path.join(dir, 'shop.json'), JSON.stringify([
+      recording('/products', '/products', [{ id: '1', name: 'Lamp' }, { id: '2', name: 'Desk' }]),
+      recording('/products/1', '/products/{productId}', { id: '1', name: 'Lamp (renamed)' }),
+      recording('/products/1', '/products/{productId}', { id: '1', name: 'Lamp (again)' }),
+      recording('/products/9', '/products/{productId}', { error: 'Not found' }, 404),
+    ]));
+    recordings = new Recordings(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should replay identical requests in recorded order, then repeat the last one', () => {
+    expect(recordings.find('shop', 'get', '/products/1')!.response.body.name).toBe('Lamp (renamed)');
+    expect(recordings.find('shop', 'get', '/products/1')!.response.body.name).toBe('Lamp (again)');
+    expect(recordings.find('shop', 'get', '/products/1')!.response.body.name).toBe('Lamp (again)');
+    expect(recordings.find('shop', 'get', '/products/2')).toBeUndefined();
+
+    recordings.rewind();
+    expect(recordings.find('shop', 'get', '/products/1')!.response.body.name).toBe('Lamp (renamed)');
+  });
+
+  it('should import successful payloads into the collection of the schema key', () => {
+    const data: Record<string, any> = { Product: [{ id: '3', name: 'Chair' }] };
+    expect(recordings.importInto('shop', api, data)).toBe(4);
+    expect(data.Product).toEqual([
+      { id: '3', name: 'Chair' },
+      { id: '1', name: 'Lamp (again)' },
+      { id: '2', name: 'Desk' },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { OpenAPIV3 } from 'openapi-types';
+import { ResponseValidator } from '../src/response-validator.js';
+
+describe('ResponseValidator', () => {
+  const api: OpenAPIV3.Document = {
+    openapi: '3.0.0',
+    info: { title: 'Test', version: '1.0.0' },
+    paths: {},
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            age: { type: 'integer' },
+            role: { type: 'string', enum: ['admin', 'user'] },
+          },
+          required: ['id'],
+        },
+      },
+      responses: {
+        NotFound: { description: 'Not found' },
+      },
+    },
+  };
+
+  const operation: OpenAPIV3.OperationObject = {
+    operationId: 'getUser',
+    responses: {
+      '200': {
+        description: 'OK',
+        headers: {
+          'X-Rate-Limit': { required: true, schema: { type: 'integer' } },
+        },
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+      },
+      '404': { $ref: '#/components/responses/NotFound' },
+      '5XX': { description: 'Server error' },
+    },
+  };
+
+  let validator: ResponseValidator;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    validator = new ResponseValidator('test', api);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('validate', () => {
+    it('should accept a conforming response', () => {
+      const issues = validator.validate(operation, 200, { 'x-rate-limit': '10' }, { id: '1', age: 30 });
+      expect(issues).toEqual([]);
+    });
+
+    it('should report undeclared status codes', () => {
+      const issues = validator.validate(operation, 409, {}, undefined);
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ path: 'status', actual: 409 });
+    });
+
+    it('should match status ranges and referenced responses', () => {
+      expect(validator.validate(operation, 503, {}, undefined)).toEqual([]);
+      expect(validator.validate(operation, 404, {}, { error: 'Not found' })).toEqual([
+        { path: 'body', message: 'response declares no body', actual: { error: 'Not found' } },
+      ]);
+    });
+
+    it('should report body schema mismatches with the actual value', () => {
+      const issues = validator.validate(operation, 200, { 'x-rate-limit': '10' }, { age: 'old', role: 'owner' });
+      expect(issues).toEqual(expect.arrayContaining([
+        expect.objectContaining({ path: 'body', keyword: 'required' }),
+        expect.objectContaining({ path: 'body/age', keyword: 'type', actual: 'old' }),
+        expect.objectContaining({ path: 'body/role', keyword: 'enum', actual: 'owner' }),
+      ]));
+    });
+
+    it('should check declared headers', () => {
+      expect(validator.validate(operation, 200, {}, { id: '1' })).toEqual([
+        expect.objectContaining({ path: 'headers.X-Rate-Limit', message: 'required header is missing' }),
+      ]);
+      expect(validator.validate(operation, 200, { 'x-rate-limit': 'lots' }, { id: '1' })).toEqual([
+        expect.objectContaining({ path: 'headers.X-Rate-Limit', keyword: 'type' }),
+      ]);
+    });
+  });
+
+  describe('middleware', () => {
+    function mockReqRes() {
+      const req: any = { method: 'GET' };
+      const res: any = {
+        statusCode: 200,
+        locals: { openapi: { specName: 'test', api, path: '/users/{id}', method: 'get', operation } },
+        headers: {} as Record<string, any>,
+        getHeaders() { return this.headers; },
+        getHeader(name: string) { return this.headers[name.toLowerCase()]; },
+        status(code: number) { this.statusCode = code; return this; },
+        json: vi.fn(),
+        send: vi.fn(),
+      };
+      const json = res.json;
+      return { req, res, json };
+    }
+
+    it('should replace mismatching responses with a 500 diff in strict mode', () => {
+      const { req, res, json } = mockReqRes();
+      const next = vi.fn();
+      validator.middleware('strict')(req, res, next);
+      expect(next).toHaveBeenCalled();
+
+      res.status(404).json({ error: 'Not found' });
+      expect(res.statusCode).toBe(500);
+      expect(json).toHaveBeenCalledWith(expect.objectContaining({
+        error: 'Response does not match the OpenAPI spec',
+        operation: 'getUser',
+        status: 404,
+      }));
+    });
+
+    it('should only log mismatches in warn mode', () => {
+      const { req, res, json } = mockReqRes();
+      validator.middleware('warn')(req, res, vi.fn());
+
+      res.status(404).json({ error: 'Not found' });
+      expect(res.statusCode).toBe(404);
+      expect(json).toHaveBeenCalledWith({ error: 'Not found' });
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('[ResponseValidator] GET /users/{id} -> 404'));
+    });
+  });
+});
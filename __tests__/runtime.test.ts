@@ -0,0 +1,230 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { OpenAPIV3 } from 'openapi-types';
+import { createRuntimeRouter, resolveSchemaKey, toExpressPath } from '../src/runtime.js';
+import { Database } from '../src/server.js';
+import { JSON_PATCH_TYPE, MERGE_PATCH_TYPE } from '../src/utils/patch.js';
+
+describe('Runtime router', () => {
+  const api: OpenAPIV3.Document = {
+    openapi: '3.0.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    paths: {
+      '/products': {
+        get: {
+          operationId: 'listProducts',
+          parameters: [{ name: 'minPrice', in: 'query', schema: { type: 'number' } }],
+          responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Product' } } } } } },
+        },
+        post: {
+          operationId: 'createProduct',
+          requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Product' } } } },
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/products/{productId}': {
+        parameters: [{ name: 'productId', in: 'path', required: true, schema: { type: 'string' } }],
+        get: { operationId: 'getProduct', responses: { '200': { description: 'OK' } } },
+        patch: { operationId: 'patchProduct', responses: { '200': { description: 'OK' } } },
+        delete: { operationId: 'deleteProduct', responses: { '204': { description: 'Deleted' } } },
+      },
+      '/products/{productId}/image': {
+        parameters: [{ name: 'productId', in: 'path', required: true, schema: { type: 'string' } }],
+        put: {
+          operationId: 'uploadProductImage',
+          requestBody: { content: { 'image/png': { schema: { type: 'string', format: 'binary' } } } },
+          responses: { '200': { description: 'Stored' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Product: {
+          type: 'object',
+          required: ['name'],
+          properties: { id: { type: 'string' }, name: { type: 'string' }, price: { type: 'number' } },
+        },
+      },
+    },
+  };
+
+  let server: HttpServer;
+  let baseUrl: string;
+  let database: Database;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    database = new Database('/tmp/fake-api-runtime-test/db.json', {
+      shop: {
+        Product: [
+          { id: '1', name: 'Lamp', price: 20 },
+          { id: '2', name: 'Desk', price: 150 },
+        ],
+      },
+    });
+    vi.spyOn(database as any, 'save').mockResolvedValue(undefined);
+
+    const app = express();
+    app.use(express.json({ type: ['application/json', JSON_PATCH_TYPE, MERGE_PATCH_TYPE] }));
+    app.use('/api/shop', createRuntimeRouter('shop', api, database));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/shop`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('should convert OpenAPI paths to Express paths', () => {
+    expect(toExpressPath('/products/{productId}/reviews/{reviewId}')).toBe('/products/:productId/reviews/:reviewId');
+    expect(toExpressPath('products')).toBe('/products');
+  });
+
+  it('should resolve schema keys like the generated controllers', () => {
+    expect(resolveSchemaKey('/products/:productId', { products: 'Product' })).toBe('Product');
+    expect(resolveSchemaKey('/orders', { products: 'Product' })).toBe('Unknown');
+  });
+
+  it('should list, filter and fetch items', async () => {
+    const list = await fetch(`${baseUrl}/products?minPrice=100`);
+    expect(list.headers.get('x-total-count')).toBe('1');
+    expect(await list.json()).toEqual([{ id: '2', name: 'Desk', price: 150 }]);
+
+    const item = await fetch(`${baseUrl}/products/1`);
+    expect(await item.json()).toEqual({ id: '1', name: 'Lamp', price: 20 });
+
+    const missing = await fetch(`${baseUrl}/products/99`);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should create, patch and delete items', async () => {
+    const created = await fetch(`${baseUrl}/products`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Chair', price: 80 }),
+    });
+    expect(created.status).toBe(201);
+    const body: any = await created.json();
+    expect(body).toMatchObject({ name: 'Chair', price: 80 });
+    expect(typeof body.id).toBe('string');
+
+    const patched = await fetch(`${baseUrl}/products/1`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ price: 25 }),
+    });
+    expect(await patched.json()).toEqual({ id: '1', name: 'Lamp', price: 25 });
+
+    const deleted = await fetch(`${baseUrl}/products/2`, { method: 'DELETE' });
+    expect(deleted.status).toBe(204);
+    expect(await database.get('shop/Product')).toHaveLength(2);
+  });
+
+  it('should answer conditional GETs with 304', async () => {
+    const first = await fetch(`${baseUrl}/products/1`);
+    const etag = first.headers.get('etag') as string;
+    const lastModified = first.headers.get('last-modified') as string;
+    expect(etag).toMatch(/^"[^"]+"$/);
+    expect(lastModified).toBeTruthy();
+
+    expect((await fetch(`${baseUrl}/products/1`, { headers: { 'If-None-Match': etag } })).status).toBe(304);
+    expect((await fetch(`${baseUrl}/products/1`, { headers: { 'If-None-Match': '"stale"' } })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/products/1`, { headers: { 'If-Modified-Since': lastModified } })).status).toBe(304);
+    expect((await fetch(`${baseUrl}/products/1`, { headers: { 'If-Modified-Since': 'Thu, 01 Jan 1970 00:00:00 GMT' } })).status).toBe(200);
+  });
+
+  it('should reject writes with a stale If-Match with 412', async () => {
+    const etag = (await fetch(`${baseUrl}/products/1`)).headers.get('etag') as string;
+    const patch = (ifMatch: string) => fetch(`${baseUrl}/products/1`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', 'If-Match': ifMatch },
+      body: JSON.stringify({ price: 25 }),
+    });
+
+    const updated = await patch(etag);
+    expect(updated.status).toBe(200);
+    const newEtag = updated.headers.get('etag');
+    expect(newEtag).not.toBe(etag);
+
+    const conflict = await patch(etag);
+    expect(conflict.status).toBe(412);
+    expect(await conflict.json()).toEqual({ error: 'Precondition failed', etag: newEtag });
+
+    const stale = await fetch(`${baseUrl}/products/1`, { method: 'DELETE', headers: { 'If-Match': etag } });
+    expect(stale.status).toBe(412);
+    const deleted = await fetch(`${baseUrl}/products/1`, { method: 'DELETE', headers: { 'If-Match': newEtag as string } });
+    expect(deleted.status).toBe(204);
+  });
+
+  it('should track when each item last changed', async () => {
+    const before = database.lastModified('shop/Product/1');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await database.patch('shop/Product/1', { price: 30 });
+    expect(database.lastModified('shop/Product/1').getTime()).toBeGreaterThan(before.getTime());
+    expect(database.lastModified('shop/Product/2')).toEqual(before);
+
+    const ifUnmodifiedSince = new Date(before.getTime() - 2000).toUTCString();
+    const res = await fetch(`${baseUrl}/products/1`, { method: 'DELETE', headers: { 'If-Unmodified-Since': ifUnmodifiedSince } });
+    expect(res.status).toBe(412);
+  });
+
+  it('should store uploaded file metadata in the parent item', async () => {
+    const file = { id: 'f1', filename: 'lamp.png', contentType: 'image/png', size: 5, url: '/__files/f1' };
+    const res = await fetch(`${baseUrl}/products/1/image`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(file),
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(file);
+    expect((await database.get('shop/Product'))[0].image).toEqual(file);
+
+    const missing = await fetch(`${baseUrl}/products/1/image`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'not a file' }),
+    });
+    expect(missing.status).toBe(400);
+    expect((await fetch(`${baseUrl}/products/9/image`, { method: 'PUT' })).status).toBe(404);
+  });
+
+  it('should apply JSON Patch and JSON Merge Patch documents', async () => {
+    const patched = await fetch(`${baseUrl}/products/1`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': JSON_PATCH_TYPE },
+      body: JSON.stringify([{ op: 'test', path: '/price', value: 20 }, { op: 'remove', path: '/price' }, { op: 'add', path: '/tags', value: ['new'] }]),
+    });
+    expect(patched.status).toBe(200);
+    expect(await patched.json()).toEqual({ id: '1', name: 'Lamp', tags: ['new'] });
+
+    const merged = await fetch(`${baseUrl}/products/1`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': MERGE_PATCH_TYPE },
+      body: JSON.stringify({ tags: null, price: 25, id: 'other' }),
+    });
+    expect(await merged.json()).toEqual({ id: '1', name: 'Lamp', price: 25 });
+  });
+
+  it('should reject failed and invalid patches without storing them', async () => {
+    const failed = await fetch(`${baseUrl}/products/1`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': JSON_PATCH_TYPE },
+      body: JSON.stringify([{ op: 'remove', path: '/price' }, { op: 'test', path: '/name', value: 'Desk' }]),
+    });
+    expect(failed.status).toBe(409);
+    expect(await failed.json()).toEqual({ error: 'Test failed at /name', details: { path: '/name', expected: 'Desk' } });
+
+    const invalid = await fetch(`${baseUrl}/products/1`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': MERGE_PATCH_TYPE },
+      body: JSON.stringify({ name: null, price: 'free' }),
+    });
+    expect(invalid.status).toBe(422);
+    expect((await invalid.json() as any).details).toHaveLength(2);
+    expect((await database.get('shop/Product'))[0]).toEqual({ id: '1', name: 'Lamp', price: 20 });
+  });
+});
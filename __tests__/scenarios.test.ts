@@ -0,0 +1,117 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { Scenarios } from '../src/scenarios.js';
+import type { OperationContext } from '../src/types.js';
+
+describe('Scenarios', () => {
+  const api: any = {
+    openapi: '3.0.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    paths: {
+      '/orders/{id}': {
+        get: {
+          operationId: 'getOrder',
+          responses: { '200': { description: 'OK' } },
+          'x-mock-scenario': {
+            name: 'order-lifecycle',
+            initialState: 'pending',
+            steps: [
+              { state: 'pending', response: { merge: { status: 'pending' } } },
+              { state: 'shipped', response: { merge: { status: 'shipped' } }, transition: 'delivered' },
+              { state: 'delivered', response: { merge: { status: 'delivered' } } },
+            ],
+          },
+        },
+      },
+      '/orders/{id}/ship': {
+        post: { operationId: 'shipOrder', responses: { '204': { description: 'Shipped' } } },
+      },
+    },
+  };
+
+  function context(path: string, method: string): OperationContext {
+    return { specName: 'shop', api, path, method, operation: api.paths[path][method] };
+  }
+
+  function mockRes(ctx: OperationContext) {
+    const res: any = {
+      statusCode: 200,
+      locals: { openapi: ctx },
+      status(code: number) { this.statusCode = code; return this; },
+      set: vi.fn(),
+      end: vi.fn(),
+      json: vi.fn(),
+    };
+    return res;
+  }
+
+  let scenarios: Scenarios;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    scenarios = new Scenarios({
+      'order-lifecycle': {
+        steps: [{ operation: 'shipOrder', state: 'pending', transition: 'shipped', response: { status: 204 } }],
+      },
+    });
+    scenarios.register('shop', api);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should merge configured and declared scenarios', () => {
+    expect(scenarios.list()).toEqual([{
+      name: 'order-lifecycle',
+      state: 'pending',
+      initialState: 'pending',
+      states: ['pending', 'shipped', 'delivered'],
+    }]);
+  });
+
+  it('should walk through the states as operations are called', () => {
+    const getOrder = context('/orders/{id}', 'get');
+    const shipOrder = context('/orders/{id}/ship', 'post');
+
+    expect(scenarios.play(getOrder)).toEqual({ merge: { status: 'pending' } });
+    expect(scenarios.play(shipOrder)).toEqual({ status: 204 });
+    expect(scenarios.get('order-lifecycle')!.state).toBe('shipped');
+    expect(scenarios.play(getOrder)).toEqual({ merge: { status: 'shipped' } });
+    expect(scenarios.play(getOrder)).toEqual({ merge: { status: 'delivered' } });
+    expect(scenarios.play(shipOrder)).toBeUndefined();
+
+    scenarios.reset('order-lifecycle');
+    expect(scenarios.get('order-lifecycle')!.state).toBe('pending');
+  });
+
+  it('should forget the scenarios of an unregistered spec', () => {
+    scenarios.unregister('shop');
+    expect(scenarios.get('order-lifecycle')!.states).toEqual(['pending', 'shipped']);
+    expect(scenarios.setState('unknown', 'x')).toBe(false);
+  });
+
+  describe('middleware', () => {
+    it('should merge step properties into the route response', () => {
+      const ctx = context('/orders/{id}', 'get');
+      const res = mockRes(ctx);
+      const json = res.json;
+      const next = vi.fn();
+
+      scenarios.middleware()({ method: 'GET' } as any, res, next);
+      expect(next).toHaveBeenCalled();
+      res.json({ id: '1', status: 'unknown' });
+      expect(json).toHaveBeenCalledWith({ id: '1', status: 'pending' });
+    });
+
+    it('should answer with the step status when it has no body', () => {
+      const ctx = context('/orders/{id}/ship', 'post');
+      const res = mockRes(ctx);
+      const next = vi.fn();
+
+      scenarios.middleware()({ method: 'POST' } as any, res, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(204);
+      expect(res.end).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { OpenAPIV3 } from 'openapi-types';
+import { Security } from '../src/security.js';
+
+describe('Security', () => {
+  const api: any = {
+    openapi: '3.0.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    security: [{ oauth: ['read'] }],
+    paths: {},
+    components: {
+      securitySchemes: {
+        oauth: {
+          type: 'oauth2',
+          flows: { clientCredentials: { tokenUrl: '/__auth/token', scopes: { read: 'Read', write: 'Write' } } },
+        },
+        key: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        basic: { type: 'http', scheme: 'basic' },
+      },
+    },
+  };
+
+  const readOperation: OpenAPIV3.OperationObject = { responses: {} };
+  const writeOperation: OpenAPIV3.OperationObject = { security: [{ oauth: ['write'] }, { key: [] }], responses: {} };
+
+  function mockReq(headers: Record<string, string> = {}, query: Record<string, string> = {}): any {
+    const lower: Record<string, string> = {};
+    Object.entries(headers).forEach(([k, v]) => { lower[k.toLowerCase()] = v; });
+    return { headers: lower, query, get: (name: string) => lower[name.toLowerCase()] };
+  }
+
+  let security: Security;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    security = new Security({ apiKeys: ['k1'], users: ['admin:secret'], jwtSecret: 'test' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should leave operations without requirements open', () => {
+    expect(security.check(api, { security: [], responses: {} }, mockReq())).toEqual({ ok: true });
+  });
+
+  it('should return 401 with a challenge when credentials are missing', () => {
+    expect(security.check(api, readOperation, mockReq())).toEqual({
+      ok: false,
+      status: 401,
+      message: 'Missing bearer token',
+      challenge: 'Bearer realm="fake-api"',
+    });
+  });
+
+  it('should accept issued tokens with the required scopes', () => {
+    const token = security.issueToken(['read']);
+    expect(security.check(api, readOperation, mockReq({ Authorization: `Bearer ${token}` }))).toEqual({ ok: true });
+  });
+
+  it('should return 403 when scopes are insufficient', () => {
+    const token = security.issueToken(['read']);
+    expect(security.check(api, writeOperation, mockReq({ Authorization: `Bearer ${token}` }))).toMatchObject({
+      ok: false,
+      status: 403,
+      requiredScopes: ['write'],
+    });
+  });
+
+  it('should reject expired issued tokens', () => {
+    const token = security.issueToken(['read'], 'alice', -10);
+    expect(security.check(api, readOperation, mockReq({ Authorization: `Bearer ${token}` }))).toMatchObject({
+      status: 401,
+      message: 'Token has expired',
+    });
+  });
+
+  it('should only accept configured tokens, not names inherited by the token map', () => {
+    const configured = new Security({ tokens: { good: ['read'] } });
+    const bearerOperation: OpenAPIV3.OperationObject = { security: [{ bearer: [] }], responses: {} };
+    const bearerApi = { ...api, components: { securitySchemes: { ...api.components.securitySchemes, bearer: { type: 'http', scheme: 'bearer' } } } };
+    expect(configured.check(api, readOperation, mockReq({ Authorization: 'Bearer good' }))).toEqual({ ok: true });
+    for (const token of ['constructor', 'toString', '__proto__']) {
+      expect(configured.check(bearerApi, bearerOperation, mockReq({ Authorization: `Bearer ${token}` }))).toMatchObject({ status: 401, message: 'Invalid token' });
+      expect(configured.check(api, readOperation, mockReq({ Authorization: `Bearer ${token}` }))).toMatchObject({ status: 401, message: 'Invalid token' });
+    }
+  });
+
+  it('should reject JWTs it cannot verify, but accept any opaque token without configured tokens', () => {
+    const foreign = new Security({ jwtSecret: 'other' }).issueToken(['read']);
+    const [header, payload, signature] = security.issueToken(['read']).split('.');
+    const tampered = [header, Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), scope: 'read write' })).toString('base64url'), signature].join('.');
+    for (const token of [foreign, tampered]) {
+      expect(security.check(api, readOperation, mockReq({ Authorization: `Bearer ${token}` }))).toMatchObject({
+        status: 401,
+        message: 'Invalid token',
+        challenge: 'Bearer error="invalid_token"',
+      });
+    }
+    expect(security.check(api, writeOperation, mockReq({ Authorization: 'Bearer opaque' }))).toEqual({ ok: true });
+  });
+
+  it('should accept any alternative requirement, checking configured API keys', () => {
+    expect(security.check(api, writeOperation, mockReq({ 'X-API-Key': 'k1' }))).toEqual({ ok: true });
+    expect(security.check(api, writeOperation, mockReq({ 'X-API-Key': 'nope' }))).toMatchObject({
+      status: 401,
+      message: 'Missing bearer token; Invalid API key',
+    });
+  });
+
+  it('should check configured basic credentials', () => {
+    const operation: OpenAPIV3.OperationObject = { security: [{ basic: [] }], responses: {} };
+    const encode = (value: string) => Buffer.from(value).toString('base64');
+    expect(security.check(api, operation, mockReq({ Authorization: `Basic ${encode('admin:secret')}` }))).toEqual({ ok: true });
+    expect(security.check(api, operation, mockReq({ Authorization: `Basic ${encode('admin:wrong')}` }))).toMatchObject({ status: 401 });
+  });
+
+  it('should issue tokens from the token endpoint', () => {
+    const res: any = { set: vi.fn(), json: vi.fn() };
+    security.tokenEndpoint()({ body: { grant_type: 'client_credentials', scope: 'read write', expires_in: '60' } } as any, res, vi.fn());
+    const body = res.json.mock.calls[0][0];
+    expect(body).toMatchObject({ token_type: 'Bearer', expires_in: 60, scope: 'read write' });
+    expect(security.check(api, writeOperation, mockReq({ Authorization: `Bearer ${body.access_token}` }))).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { Database } from '../src/server.js';
+import { SessionStore, sessionScoped } from '../src/sessions.js';
+
+describe('SessionStore', () => {
+  const seed = { shop: { Product: [{ id: '1', name: 'Lamp' }] } };
+  let store: SessionStore;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    store = new SessionStore(() => seed, 60);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should give each session its own copy-on-write view of the seed', async () => {
+    const alice = store.get('alice');
+    const bob = store.get('bob');
+
+    await alice.create('shop/Product', { id: '2', name: 'Desk' });
+    await bob.delete('shop/Product/1');
+
+    expect(await alice.get('shop/Product')).toHaveLength(2);
+    expect(await bob.get('shop/Product')).toEqual([]);
+    expect(seed.shop.Product).toEqual([{ id: '1', name: 'Lamp' }]);
+    expect(store.get('alice')).toBe(alice);
+  });
+
+  it('should read the session from the header, falling back to the cookie', () => {
+    expect(store.idFor({ headers: { 'x-mock-session': 'alice', cookie: 'mock_session=bob' } } as any)).toBe('alice');
+    expect(store.idFor({ headers: { cookie: 'theme=dark; mock_session=bob' } } as any)).toBe('bob');
+    expect(store.idFor({ headers: { cookie: 'a=%zz; mock_session=bob' } } as any)).toBe('bob');
+    expect(store.idFor({ headers: {} } as any)).toBeUndefined();
+  });
+
+  it('should expire idle sessions after the TTL', () => {
+    vi.useFakeTimers();
+    store.get('alice');
+    vi.advanceTimersByTime(30_000);
+    store.get('bob');
+    vi.advanceTimersByTime(45_000);
+
+    expect(store.list().map(s => s.id)).toEqual(['bob']);
+    expect(store.delete('alice')).toBe(false);
+  });
+
+  it('should route a scoped database to the session of the request being handled', async () => {
+    const shared = new Database('', JSON.parse(JSON.stringify(seed)));
+    const scoped = sessionScoped(shared);
+    const middleware = store.middleware();
+
+    await new Promise<void>(resolve => {
+      middleware({ headers: { 'x-mock-session': 'alice' } } as any, {} as any, async () => {
+        await scoped.create('shop/Product', { id: '2', name: 'Desk' });
+        resolve();
+      });
+    });
+
+    expect(await scoped.get('shop/Product')).toHaveLength(1);
+    expect(await store.get('alice').get('shop/Product')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { BINARY_MEDIA_TYPES, Uploads } from '../src/uploads.js';
+import { BlobStore, FILES_PATH, guessContentType } from '../src/blobs.js';
+import { ResponseValidator } from '../src/response-validator.js';
+import type { OperationContext } from '../src/types.js';
+
+describe('Uploads', () => {
+  const api: any = {
+    openapi: '3.0.0',
+    info: { title: 'Zoo', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        post: {
+          requestBody: {
+            content: {
+              'multipart/form-data': {
+                schema: { type: 'object', properties: { name: { type: 'string' }, photo: { type: 'string', format: 'binary' } } },
+              },
+            },
+          },
+          responses: { '201': { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+        },
+      },
+      '/pets/{id}/photo': {
+        get: { responses: { '200': { description: 'The photo', content: { 'image/png': { schema: { type: 'string', format: 'binary' } } } } } },
+        put: {
+          requestBody: { content: { 'image/png': { schema: { type: 'string', format: 'binary' } } } },
+          responses: { '200': { description: 'Stored', content: { 'application/json': { schema: { type: 'object' } } } } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Pet: { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' }, photo: { type: 'string', format: 'binary' } } },
+      },
+    },
+  };
+  const png = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==', 'base64');
+
+  let dir: string;
+  let server: HttpServer;
+  let baseUrl: string;
+  let pets: any[];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-blobs-'));
+    pets = [];
+    const uploads = new Uploads(new BlobStore(dir));
+    const app = express();
+    app.use(express.json());
+    app.use(express.raw({ type: BINARY_MEDIA_TYPES }));
+    app.get(`${FILES_PATH}/:id`, uploads.download());
+    app.use((req, res, next) => {
+      const method = req.method.toLowerCase();
+      const openapiPath = req.path === '/pets' ? '/pets' : '/pets/{id}/photo';
+      const context: OperationContext = { specName: 'zoo', api, path: openapiPath, method, operation: api.paths[openapiPath][method] };
+      res.locals.openapi = context;
+      next();
+    });
+    app.use(uploads.parse());
+    app.use(uploads.store());
+    app.use(new ResponseValidator('zoo', api).middleware('strict'));
+    app.use(uploads.respond());
+    app.post('/pets', (req, res) => {
+      const pet = { id: pets.length + 1, ...req.body };
+      pets.push(pet);
+      res.status(201).json(pet);
+    });
+    app.get('/pets/:id/photo', (req, res) => {
+      res.json(pets[Number(req.params.id) - 1].photo);
+    });
+    app.put('/pets/:id/photo', (req, res) => {
+      pets[Number(req.params.id) - 1].photo = req.body;
+      res.json(req.body);
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const createPet = async () => {
+    const form = new FormData();
+    form.append('name', 'Rex');
+    form.append('photo', new Blob([png], { type: 'image/png' }), 'rex.png');
+    return fetch(`${baseUrl}/pets`, { method: 'POST', body: form });
+  };
+
+  it('should store multipart files and keep their metadata in the record', async () => {
+    const res = await createPet();
+    expect(res.status).toBe(201);
+    const pet = await res.json() as any;
+    expect(pet.name).toBe('Rex');
+    expect(pet.photo).toMatchObject({ filename: 'rex.png', contentType: 'image/png', size: png.length });
+    expect(pet.photo.url).toBe(`${FILES_PATH}/${pet.photo.id}`);
+    expect(fs.readFileSync(path.join(dir, pet.photo.id))).toEqual(png);
+  });
+
+  it('should download stored files by id', async () => {
+    const pet = await (await createPet()).json() as any;
+    const res = await fetch(`${baseUrl}${pet.photo.url}`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('image/png');
+    expect(res.headers.get('content-disposition')).toBe('inline; filename="rex.png"');
+    expect(Buffer.from(await res.arrayBuffer())).toEqual(png);
+
+    expect((await fetch(`${baseUrl}${FILES_PATH}/missing`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}${FILES_PATH}/..%2Fetc`)).status).toBe(404);
+  });
+
+  it('should send the file when a binary response is answered with file metadata', async () => {
+    await createPet();
+    const res = await fetch(`${baseUrl}/pets/1/photo`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('image/png');
+    expect(Buffer.from(await res.arrayBuffer())).toEqual(png);
+  });
+
+  it('should send non-ASCII file names with an ASCII fallback', async () => {
+    const form = new FormData();
+    form.append('name', 'Rex');
+    form.append('photo', new Blob([png], { type: 'image/png' }), '报告.png');
+    const pet = await (await fetch(`${baseUrl}/pets`, { method: 'POST', body: form })).json() as any;
+    expect(pet.photo.filename).toBe('报告.png');
+
+    const expected = `inline; filename="__.png"; filename*=UTF-8''%E6%8A%A5%E5%91%8A.png`;
+    for (const url of [pet.photo.url, '/pets/1/photo']) {
+      const res = await fetch(`${baseUrl}${url}`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-disposition')).toBe(expected);
+      expect(Buffer.from(await res.arrayBuffer())).toEqual(png);
+    }
+  });
+
+  it('should store raw binary bodies', async () => {
+    await createPet();
+    const res = await fetch(`${baseUrl}/pets/1/photo`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'image/png', 'Content-Disposition': 'attachment; filename="new.png"' },
+      body: png,
+    });
+    expect(res.status).toBe(200);
+    const metadata = await res.json() as any;
+    expect(metadata).toMatchObject({ filename: 'new.png', contentType: 'image/png', size: png.length });
+    expect(pets[0].photo.id).toBe(metadata.id);
+  });
+
+  it('should reject malformed multipart bodies', async () => {
+    const res = await fetch(`${baseUrl}/pets`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'multipart/form-data; boundary=abc' },
+      body: 'no parts here',
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json() as any).error).toBe('Invalid multipart body: Boundary not found');
+  });
+
+  it('should write placeholder files once and guess their media type', () => {
+    const blobs = new BlobStore(dir);
+    const first = blobs.placeholder(guessContentType('avatar'), 'avatar');
+    const second = blobs.placeholder(guessContentType('thumbnail'), 'thumbnail');
+    expect(first).toMatchObject({ id: 'placeholder-image-png', filename: 'avatar.png', contentType: 'image/png' });
+    expect(second.id).toBe(first.id);
+    expect(blobs.get(first.id)?.metadata.contentType).toBe('image/png');
+    expect(guessContentType('invoice')).toBe('application/pdf');
+    expect(guessContentType('data', { contentMediaType: 'text/plain' })).toBe('text/plain');
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { computeEtag, etagMatches } from '../../src/utils/conditional.js';
+
+describe('Conditional request utils', () => {
+  it('should derive stable ETags from record content', () => {
+    expect(computeEtag({ id: '1', name: 'Lamp' })).toBe(computeEtag({ id: '1', name: 'Lamp' }));
+    expect(computeEtag({ id: '1', name: 'Lamp' })).not.toBe(computeEtag({ id: '1', name: 'Desk' }));
+  });
+
+  it('should match entity tag lists, wildcards and weak tags', () => {
+    const etag = computeEtag({ id: '1' });
+    expect(etagMatches('*', etag)).toBe(true);
+    expect(etagMatches(`"other", ${etag}`, etag)).toBe(true);
+    expect(etagMatches('"other"', etag)).toBe(false);
+    expect(etagMatches(`W/${etag}`, etag)).toBe(false);
+    expect(etagMatches(`W/${etag}`, etag, true)).toBe(true);
+  });
+});
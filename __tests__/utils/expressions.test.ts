@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression, renderExpression, resolvePointer, type ExpressionSource } from '../../src/utils/expressions.js';
+
+describe('Runtime expressions', () => {
+  const source: ExpressionSource = {
+    url: 'http://localhost:3000/api/shop/orders?notify=true',
+    method: 'post',
+    request: {
+      path: { orderId: '42' },
+      query: { notify: 'true' },
+      headers: { 'x-tenant': 'acme' },
+      body: { callbackUrl: 'http://client.test/hooks', 'a/b': { 'c~d': 1 } },
+    },
+    response: { status: 201, headers: { Location: '/orders/42' }, body: { id: '42', items: [{ sku: 'x' }] } },
+  };
+
+  it('should resolve JSON pointers, including escaped tokens', () => {
+    expect(resolvePointer(source.request.body, '/a~1b/c~0d')).toBe(1);
+    expect(resolvePointer(source.response!.body, '/items/0/sku')).toBe('x');
+    expect(resolvePointer(source.response!.body, '/missing/deep')).toBeUndefined();
+  });
+
+  it('should evaluate request and response expressions', () => {
+    expect(evaluateExpression('$method', source)).toBe('POST');
+    expect(evaluateExpression('$statusCode', source)).toBe(201);
+    expect(evaluateExpression('$request.path.orderId', source)).toBe('42');
+    expect(evaluateExpression('$request.query.notify', source)).toBe('true');
+    expect(evaluateExpression('$request.header.X-Tenant', source)).toBe('acme');
+    expect(evaluateExpression('$response.header.location', source)).toBe('/orders/42');
+    expect(evaluateExpression('$response.body#/id', source)).toBe('42');
+    expect(evaluateExpression('$nonsense', source)).toBeUndefined();
+  });
+
+  it('should render templates embedding expressions', () => {
+    expect(renderExpression('{$request.body#/callbackUrl}/orders/{$response.body#/id}?status={$statusCode}', source))
+      .toBe('http://client.test/hooks/orders/42?status=201');
+    expect(renderExpression('{$request.body#/missing}/x', source)).toBe('/x');
+  });
+});
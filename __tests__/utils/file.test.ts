@@ -4,14 +4,16 @@ vi.mock('fs', () => ({
   default: {
     mkdirSync: vi.fn(),
     writeFileSync: vi.fn(),
+    watch: vi.fn(),
   },
   mkdirSync: vi.fn(),
   writeFileSync: vi.fn(),
+  watch: vi.fn(),
 }));
 
 import * as fs from 'fs';
 import path from 'path';
-import { ensureDirs, writeJsonFile } from '../../src/utils/file.js';
+import { ensureDirs, writeJsonFile, watchDirectory } from '../../src/utils/file.js';
 
 describe('File Utils', () => {
   beforeEach(() => {
@@ -43,4 +45,29 @@ describe('File Utils', () => {
       );
     });
   });
+
+  describe('watchDirectory', () => {
+    it('should report each matching file once after its events settle', () => {
+      vi.useFakeTimers();
+      let listener: (event: string, filename: string | null) => void = () => {};
+      (fs.watch as any).mockImplementation((_dir: string, cb: typeof listener) => {
+        listener = cb;
+        return { on: vi.fn(), close: vi.fn() };
+      });
+      const onChange = vi.fn();
+
+      watchDirectory('/specs', file => file.endsWith('.yaml'), onChange, 50);
+      listener('rename', 'api.yaml');
+      listener('change', 'api.yaml');
+      listener('change', 'notes.txt');
+      listener('change', null);
+      expect(onChange).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(50);
+      expect(fs.watch).toHaveBeenCalledWith('/specs', expect.any(Function));
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith('api.yaml');
+      vi.useRealTimers();
+    });
+  });
 }); 
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { contentDisposition, parseCookies } from '../../src/utils/http.js';
+
+describe('HTTP utils', () => {
+  it('should parse and decode cookies', () => {
+    expect(parseCookies('theme=dark; name=Ada%20Lovelace; token=a=b')).toEqual({ theme: 'dark', name: 'Ada Lovelace', token: 'a=b' });
+    expect(parseCookies(undefined)).toEqual({});
+  });
+
+  it('should keep malformed cookie values as sent', () => {
+    expect(parseCookies('a=%zz; b=100%')).toEqual({ a: '%zz', b: '100%' });
+  });
+
+  it('should add an RFC 6266 filename* parameter to non-ASCII file names', () => {
+    expect(contentDisposition('inline', 'report.pdf')).toBe('inline; filename="report.pdf"');
+    expect(contentDisposition('attachment', '报告 (1).pdf')).toBe(`attachment; filename="__ (1).pdf"; filename*=UTF-8''%E6%8A%A5%E5%91%8A%20%281%29.pdf`);
+  });
+});
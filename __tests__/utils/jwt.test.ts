@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { signJwt, verifyJwt, isJwt } from '../../src/utils/jwt.js';
+
+describe('JWT Utils', () => {
+  it('should sign and verify tokens', () => {
+    const token = signJwt({ sub: 'alice', scope: 'read' }, 'secret');
+    expect(isJwt(token)).toBe(true);
+    expect(verifyJwt(token, 'secret')).toEqual({ sub: 'alice', scope: 'read' });
+  });
+
+  it('should reject tokens with a wrong signature', () => {
+    const token = signJwt({ sub: 'alice' }, 'secret');
+    expect(verifyJwt(token, 'other-secret')).toBeNull();
+    expect(verifyJwt('not-a-token', 'secret')).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signJwt({ sub: 'alice', exp: 1000 }, 'secret');
+    expect(verifyJwt(token, 'secret', 999)).not.toBeNull();
+    expect(verifyJwt(token, 'secret', 1000)).toBeNull();
+  });
+});
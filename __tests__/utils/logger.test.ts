@@ -10,7 +10,9 @@ vi.mock('chalk', () => ({
   }
 }));
 import chalk from 'chalk';
-import { Logger } from '../../src/utils/logger.js';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { Logger, parseLogLevel, requestIds } from '../../src/utils/logger.js';
 
 describe('Logger', () => {
   beforeEach(() => {
@@ -20,6 +22,7 @@ describe('Logger', () => {
   });
 
   afterEach(() => {
+    Logger.configure({ level: 'info', format: 'pretty' });
     vi.restoreAllMocks();
   });
 
@@ -61,6 +64,7 @@ describe('Logger', () => {
 
   describe('debug', () => {
     it('should log debug message with gray color', () => {
+      Logger.configure({ level: 'debug' });
       Logger.debug('Test debug message');
       
       expect(chalk.gray).toHaveBeenCalledWith('Debug: Test debug message');
@@ -68,6 +72,94 @@ describe('Logger', () => {
     });
   });
 
+  describe('levels', () => {
+    it('should drop debug messages at the default info level', () => {
+      Logger.debug('Test debug message');
+
+      expect(console.log).not.toHaveBeenCalled();
+    });
+
+    it('should only log messages at or above the configured level', () => {
+      Logger.configure({ level: 'warn' });
+      Logger.info('Test info message');
+      Logger.success('Test success message');
+      Logger.title('Test Title');
+      Logger.warn('Test warning message');
+      Logger.error('Test error message');
+
+      expect(console.log).toHaveBeenCalledTimes(2);
+      Logger.configure({ level: 'silent' });
+      Logger.error('Test error message');
+      expect(console.log).toHaveBeenCalledTimes(2);
+    });
+
+    it('should parse level names', () => {
+      expect(parseLogLevel(' WARN ')).toBe('warn');
+      expect(parseLogLevel('verbose')).toBeUndefined();
+      expect(parseLogLevel(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('json format', () => {
+    it('should write one JSON object per message', () => {
+      Logger.configure({ level: 'debug', format: 'json' });
+      Logger.warn('Test warning message');
+      Logger.debug('Test debug message', { id: 1 });
+
+      const lines = vi.mocked(console.log).mock.calls.map(call => JSON.parse(call[0]));
+      expect(lines).toEqual([
+        { time: expect.any(String), level: 'warn', message: 'Test warning message' },
+        { time: expect.any(String), level: 'debug', message: 'Test debug message', metadata: { id: 1 } },
+      ]);
+    });
+  });
+
+  describe('request IDs', () => {
+    const serve = async (handler: express.RequestHandler) => {
+      const app = express();
+      app.use(requestIds());
+      app.use(express.json());
+      app.post('/', handler);
+      const server = app.listen(0);
+      await new Promise(resolve => server.once('listening', resolve));
+      return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/` };
+    };
+
+    it('should attach the incoming X-Request-Id to the lines logged for the request', async () => {
+      Logger.configure({ format: 'json' });
+      const { server, url } = await serve(async (req, res) => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        Logger.info('Handling');
+        res.json({ id: Logger.requestId() });
+      });
+      try {
+        const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'abc-123' }, body: '{}' });
+        expect(res.headers.get('x-request-id')).toBe('abc-123');
+        expect(await res.json()).toEqual({ id: 'abc-123' });
+        expect(JSON.parse(vi.mocked(console.log).mock.calls[0][0])).toMatchObject({ message: 'Handling', requestId: 'abc-123' });
+        expect(Logger.requestId()).toBeUndefined();
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should generate an ID when the request has none or an invalid one', async () => {
+      const { server, url } = await serve((req, res) => {
+        Logger.info('Handling');
+        res.json({ id: Logger.requestId() });
+      });
+      try {
+        const res = await fetch(url, { method: 'POST', headers: { 'X-Request-Id': 'bad id\twith spaces' } });
+        const { id } = await res.json() as { id: string };
+        expect(id).toMatch(/^[0-9a-f-]{36}$/);
+        expect(res.headers.get('x-request-id')).toBe(id);
+        expect(chalk.blue).toHaveBeenCalledWith(`Info: [${id}] Handling`);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+
   describe('table', () => {
     it('should log table data', () => {
       const data = [{ id: 1, name: 'Test' }];
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { fromCsv, mediaKind, parseBody, preferJson, serializeBody, toCsv } from '../../src/utils/media.js';
+
+describe('Media utils', () => {
+  const api: any = {
+    components: {
+      schemas: {
+        Product: {
+          type: 'object',
+          properties: { id: { type: 'string' }, price: { type: 'number' }, active: { type: 'boolean' }, tags: { type: 'array', items: { type: 'string' } } },
+        },
+      },
+    },
+  };
+  const list = { type: 'array', items: { $ref: '#/components/schemas/Product' } };
+
+  it('should classify media types', () => {
+    expect(mediaKind('application/json; charset=utf-8')).toBe('json');
+    expect(mediaKind('application/problem+json')).toBe('json');
+    expect(mediaKind('application/atom+xml')).toBe('xml');
+    expect(mediaKind('text/csv')).toBe('csv');
+    expect(mediaKind('application/x-yaml')).toBe('yaml');
+    expect(mediaKind('image/png')).toBeUndefined();
+    expect(preferJson(['application/xml', 'text/csv', 'application/json'])).toEqual(['application/json', 'application/xml', 'text/csv']);
+  });
+
+  it('should write CSV with declared columns first and quote where needed', () => {
+    const csv = toCsv([{ id: '1', price: 9.5, tags: ['a', 'b'], extra: 'x' }, { id: '2, "two"', active: false }], list, api);
+    expect(csv).toBe('id,price,active,tags,extra\r\n1,9.5,,"[""a"",""b""]",x\r\n"2, ""two""",,false,,\r\n');
+  });
+
+  it('should read CSV back into typed rows', () => {
+    const csv = toCsv([{ id: '1', price: 9.5, active: true, tags: ['a'] }, { id: '2\nline' }], list, api);
+    expect(fromCsv(csv, list, api)).toEqual([{ id: '1', price: 9.5, active: true, tags: ['a'] }, { id: '2\nline' }]);
+    expect(fromCsv('id,price\n3,4\n', { $ref: '#/components/schemas/Product' }, api)).toEqual({ id: '3', price: 4 });
+    expect(() => fromCsv('id\n"open', list, api)).toThrow(/Unterminated/);
+  });
+
+  it('should use the rows of envelope objects', () => {
+    expect(toCsv({ data: [{ id: '1' }], meta: { total: 1 } }, undefined, api)).toBe('id\r\n1\r\n');
+  });
+
+  it('should round-trip YAML and JSON bodies', () => {
+    const body = { id: '1', tags: ['a'] };
+    expect(parseBody(serializeBody(body, 'application/yaml', undefined, api), 'application/yaml', undefined, api)).toEqual(body);
+    expect(parseBody(serializeBody(body, 'application/json', undefined, api), 'application/json', undefined, api)).toEqual(body);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { multipartBoundary, parseMultipart } from '../../src/utils/multipart.js';
+
+describe('Multipart utils', () => {
+  const body = Buffer.from([
+    '--XyZ',
+    'Content-Disposition: form-data; name="name"',
+    '',
+    'Rex',
+    '--XyZ',
+    'Content-Disposition: form-data; name="photo"; filename="rex.png"',
+    'Content-Type: image/png',
+    '',
+    'PNG\r\nbytes',
+    '--XyZ--',
+    '',
+  ].join('\r\n'));
+
+  it('should read the boundary of a Content-Type header', () => {
+    expect(multipartBoundary('multipart/form-data; boundary=XyZ')).toBe('XyZ');
+    expect(multipartBoundary('multipart/form-data; charset=utf-8; boundary="a b"')).toBe('a b');
+    expect(multipartBoundary('multipart/form-data')).toBeUndefined();
+  });
+
+  it('should split fields and files', () => {
+    const parts = parseMultipart(body, 'XyZ');
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toEqual({ name: 'name', data: Buffer.from('Rex') });
+    expect(parts[1].name).toBe('photo');
+    expect(parts[1].filename).toBe('rex.png');
+    expect(parts[1].contentType).toBe('image/png');
+    expect(parts[1].data.toString()).toBe('PNG\r\nbytes');
+  });
+
+  it('should reject malformed bodies', () => {
+    expect(() => parseMultipart(body, 'other')).toThrow('Boundary not found');
+    expect(() => parseMultipart(Buffer.from('--XyZ\r\nContent-Disposition: form-data; name="a"\r\n\r\nvalue'), 'XyZ')).toThrow('Closing boundary not found');
+    expect(() => parseMultipart(Buffer.from('--XyZ\r\nContent-Disposition: form-data\r\n\r\nvalue\r\n--XyZ--'), 'XyZ')).toThrow('Part without a name');
+  });
+});
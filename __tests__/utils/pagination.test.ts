@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OpenAPIV3 } from 'openapi-types';
+import {
+  buildPaginationOptions,
+  detectEnvelope,
+  paginate,
+  sortItems,
+  encodeCursor,
+  decodeCursor,
+  sendPage,
+} from '../../src/utils/pagination.js';
+
+describe('Pagination Utils', () => {
+  const items = Array.from({ length: 7 }, (_, i) => ({ id: String(i + 1), name: `item-${7 - i}`, price: (i * 3) % 5 }));
+
+  function mockReqRes(query: Record<string, any>) {
+    const req: any = {
+      query,
+      protocol: 'http',
+      baseUrl: '/api/shop',
+      path: '/items',
+      get: vi.fn().mockReturnValue('localhost:3000'),
+    };
+    const res: any = {
+      headers: {} as Record<string, string>,
+      setHeader: vi.fn((name: string, value: string) => { res.headers[name] = value; }),
+      json: vi.fn(),
+    };
+    return { req, res };
+  }
+
+  describe('sortItems', () => {
+    it('should sort by field and order', () => {
+      const sorted = sortItems(items, { _sort: 'name', _order: 'desc' });
+      expect(sorted.map(i => i.name)).toEqual(['item-7', 'item-6', 'item-5', 'item-4', 'item-3', 'item-2', 'item-1']);
+    });
+
+    it('should sort by multiple fields', () => {
+      const sorted = sortItems(items, { _sort: 'price,id', _order: 'asc,desc' });
+      expect(sorted.map(i => i.id)).toEqual(['6', '1', '3', '5', '7', '2', '4']);
+    });
+
+    it('should leave the collection untouched without _sort', () => {
+      expect(sortItems(items, {})).toBe(items);
+    });
+  });
+
+  describe('paginate', () => {
+    it('should return everything as one page without a limit', () => {
+      const result = paginate(items, {});
+      expect(result.items).toHaveLength(7);
+      expect(result.totalPages).toBe(1);
+    });
+
+    it('should slice by page and limit', () => {
+      const result = paginate(items, { page: '2', limit: '3' });
+      expect(result.items.map(i => i.id)).toEqual(['4', '5', '6']);
+      expect(result).toMatchObject({ total: 7, page: 2, limit: 3, totalPages: 3 });
+    });
+
+    it('should page through with cursors', () => {
+      const first = paginate(items, { limit: '5' }, { cursorParam: 'cursor' });
+      expect(first.items).toHaveLength(5);
+      expect(first.nextCursor).toBe(encodeCursor(5));
+      const second = paginate(items, { limit: '5', cursor: first.nextCursor }, { cursorParam: 'cursor' });
+      expect(second.items.map(i => i.id)).toEqual(['6', '7']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should treat invalid cursors as the start of the collection', () => {
+      expect(decodeCursor('not-a-cursor')).toBe(0);
+    });
+  });
+
+  describe('detectEnvelope', () => {
+    it('should detect data/meta envelopes through $refs', () => {
+      const schemas = {
+        ProductList: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: { $ref: '#/components/schemas/Product' } },
+            meta: { type: 'object' },
+          },
+        },
+      };
+      expect(detectEnvelope({ $ref: '#/components/schemas/ProductList' }, schemas)).toEqual({ dataKey: 'data', metaKey: 'meta' });
+    });
+
+    it('should not treat resources with array properties as envelopes', () => {
+      const post = { type: 'object', properties: { id: { type: 'string' }, comments: { type: 'array' } } };
+      expect(detectEnvelope(post)).toBeUndefined();
+      expect(detectEnvelope({ type: 'array', items: {} })).toBeUndefined();
+    });
+  });
+
+  describe('buildPaginationOptions', () => {
+    it('should detect declared cursor params', () => {
+      const parameters: OpenAPIV3.ParameterObject[] = [
+        { name: 'limit', in: 'query' },
+        { name: 'next', in: 'query', 'x-pagination': 'cursor' } as any,
+      ];
+      expect(buildPaginationOptions(parameters)).toEqual({ cursorParam: 'next' });
+    });
+  });
+
+  describe('sendPage', () => {
+    it('should set X-Total-Count and Link headers', () => {
+      const { req, res } = mockReqRes({ page: '2', limit: '3', status: 'active' });
+      sendPage(req, res, items);
+
+      expect(res.headers['X-Total-Count']).toBe('7');
+      expect(res.headers['Link']).toBe([
+        '<http://localhost:3000/api/shop/items?status=active&page=1&limit=3>; rel="first"',
+        '<http://localhost:3000/api/shop/items?status=active&page=1&limit=3>; rel="prev"',
+        '<http://localhost:3000/api/shop/items?status=active&page=3&limit=3>; rel="next"',
+        '<http://localhost:3000/api/shop/items?status=active&page=3&limit=3>; rel="last"',
+      ].join(', '));
+      expect(res.json).toHaveBeenCalledWith(items.slice(3, 6));
+    });
+
+    it('should wrap the page in the declared envelope', () => {
+      const { req, res } = mockReqRes({ limit: '2' });
+      sendPage(req, res, items, { envelope: { dataKey: 'data', metaKey: 'meta' } });
+
+      expect(res.json).toHaveBeenCalledWith({
+        data: items.slice(0, 2),
+        meta: { total: 7, limit: 2, page: 1, totalPages: 4 },
+      });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { applyJsonPatch, applyMergePatch, applyPatch, JSON_PATCH_TYPE, MERGE_PATCH_TYPE, PatchError, patchMediaType, resourceValidator } from '../../src/utils/patch.js';
+
+const patchError = (fn: () => any): PatchError => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof PatchError) return error;
+    throw error;
+  }
+  throw new Error('Expected a PatchError');
+};
+
+describe('Patch utils', () => {
+  const post = { id: '1', title: 'Hello', tags: ['a', 'b'], author: { name: 'Ann', email: 'ann@example.com' } };
+
+  it('should apply add, remove and replace operations', () => {
+    const result = applyJsonPatch(post, [
+      { op: 'add', path: '/tags/1', value: 'x' },
+      { op: 'add', path: '/tags/-', value: 'z' },
+      { op: 'remove', path: '/author/email' },
+      { op: 'replace', path: '/title', value: 'Bye' },
+      { op: 'add', path: '/a~1b', value: 1 },
+    ]);
+    expect(result).toEqual({ id: '1', title: 'Bye', tags: ['a', 'x', 'b', 'z'], author: { name: 'Ann' }, 'a/b': 1 });
+    expect(post.tags).toEqual(['a', 'b']);
+  });
+
+  it('should apply move, copy and test operations', () => {
+    const result = applyJsonPatch(post, [
+      { op: 'test', path: '/author/name', value: 'Ann' },
+      { op: 'move', from: '/author/name', path: '/writer' },
+      { op: 'copy', from: '/tags/0', path: '/tags/-' },
+    ]);
+    expect(result).toEqual({ id: '1', title: 'Hello', tags: ['a', 'b', 'a'], author: { email: 'ann@example.com' }, writer: 'Ann' });
+  });
+
+  it('should fail with 409 when an operation conflicts with the document', () => {
+    expect(patchError(() => applyJsonPatch(post, [{ op: 'test', path: '/title', value: 'Other' }])).status).toBe(409);
+    expect(patchError(() => applyJsonPatch(post, [{ op: 'remove', path: '/missing' }])).status).toBe(409);
+    expect(patchError(() => applyJsonPatch(post, [{ op: 'replace', path: '/tags/5', value: 'x' }])).status).toBe(409);
+    expect(patchError(() => applyJsonPatch(post, [{ op: 'add', path: '/nested/deep', value: 1 }])).status).toBe(409);
+    expect(patchError(() => applyJsonPatch(post, [{ op: 'move', from: '/author', path: '/author/name' }])).status).toBe(409);
+  });
+
+  it('should fail with 400 on malformed patch documents', () => {
+    expect(patchError(() => applyJsonPatch(post, { op: 'remove', path: '/title' })).status).toBe(400);
+    expect(patchError(() => applyJsonPatch(post, [{ op: 'jump', path: '/title' }])).status).toBe(400);
+    expect(patchError(() => applyJsonPatch(post, [{ op: 'add', path: '/title' }])).status).toBe(400);
+    expect(patchError(() => applyJsonPatch(post, [{ op: 'remove', path: 'title' }])).status).toBe(400);
+  });
+
+  it('should deep merge and delete nulls with a merge patch', () => {
+    expect(applyMergePatch(post, { title: null, author: { email: null, url: 'x' }, tags: ['c'] }))
+      .toEqual({ id: '1', tags: ['c'], author: { name: 'Ann', url: 'x' } });
+    // Examples from RFC 7396, appendix A
+    expect(applyMergePatch({ a: 'b' }, { a: 'c' })).toEqual({ a: 'c' });
+    expect(applyMergePatch({ a: [{ b: 'c' }] }, { a: [1] })).toEqual({ a: [1] });
+    expect(applyMergePatch({ e: null }, { a: 1 })).toEqual({ e: null, a: 1 });
+    expect(applyMergePatch({ a: 'foo' }, 'bar')).toBe('bar');
+    expect(applyMergePatch({}, { a: { bb: { ccc: null } } })).toEqual({ a: { bb: {} } });
+  });
+
+  it('should dispatch on the media type', () => {
+    expect(patchMediaType('application/json-patch+json; charset=utf-8')).toBe(JSON_PATCH_TYPE);
+    expect(patchMediaType(MERGE_PATCH_TYPE)).toBe(MERGE_PATCH_TYPE);
+    expect(patchMediaType('application/json')).toBeUndefined();
+    expect(applyPatch(post, [{ op: 'remove', path: '/tags' }], JSON_PATCH_TYPE)).not.toHaveProperty('tags');
+    expect(applyPatch(post, { author: { name: 'Bo' } }, MERGE_PATCH_TYPE).author).toEqual({ name: 'Bo', email: 'ann@example.com' });
+    expect(applyPatch(post, { author: { name: 'Bo' } }, 'application/json').author).toEqual({ name: 'Bo' });
+  });
+
+  it('should reject resources that do not match their schema with 422', () => {
+    const api = {
+      components: {
+        schemas: {
+          Author: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+          Post: { type: 'object', required: ['title'], properties: { title: { type: 'string' }, author: { $ref: '#/components/schemas/Author' } } },
+        },
+      },
+    };
+    const validate = resourceValidator(api.components.schemas.Post, api);
+    expect(() => validate({ title: 'Hi', author: { name: 'Ann' } })).not.toThrow();
+    const error = patchError(() => validate({ author: {} }));
+    expect(error.status).toBe(422);
+    expect(error.details).toEqual(expect.arrayContaining([
+      { path: '/', message: "must have required property 'title'" },
+      { path: '/author', message: "must have required property 'name'" },
+    ]));
+  });
+
+  it('should read schemas with OpenAPI 3.0 semantics', () => {
+    const api = {
+      components: {
+        schemas: {
+          Product: {
+            type: 'object',
+            properties: {
+              price: { type: 'number', minimum: 0, exclusiveMinimum: true },
+              discount: { type: 'number', maximum: 1, exclusiveMaximum: false },
+              note: { type: 'string', nullable: true },
+              size: { type: 'string', enum: ['S', 'L'], nullable: true },
+            },
+          },
+        },
+      },
+    };
+    const validate = resourceValidator({ $ref: '#/components/schemas/Product' }, api);
+    expect(() => validate({ price: 5, discount: 1, note: null, size: null })).not.toThrow();
+    expect(patchError(() => validate({ price: 0 })).details).toEqual([{ path: '/price', message: 'must be > 0' }]);
+  });
+});
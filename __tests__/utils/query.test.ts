@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { OpenAPIV3 } from 'openapi-types';
+import { buildQueryFilters, applyQueryFilters, coerceQueryValue } from '../../src/utils/query.js';
+
+describe('Query Utils', () => {
+  const products = [
+    { id: '1', name: 'Desk', category: 'furniture', price: 120, inStock: true, tags: ['oak'] },
+    { id: '2', name: 'Lamp', category: 'lighting', price: 35, inStock: false, tags: [] },
+    { id: '3', name: 'Chair', category: 'furniture', price: 60, inStock: true, tags: [] },
+  ];
+
+  const parameters: OpenAPIV3.ParameterObject[] = [
+    { name: 'category', in: 'query', schema: { type: 'string' } },
+    { name: 'inStock', in: 'query', schema: { type: 'boolean' } },
+    { name: 'minPrice', in: 'query', schema: { type: 'number' } },
+    { name: 'maxPrice', in: 'query', schema: { type: 'number' } },
+    { name: 'productId', in: 'path', required: true, schema: { type: 'string' } },
+  ];
+
+  describe('buildQueryFilters', () => {
+    it('should map query parameters to equality and range filters', () => {
+      const filters = buildQueryFilters(parameters);
+      expect(filters).toEqual([
+        { param: 'category', property: 'category', op: 'eq', type: 'string' },
+        { param: 'inStock', property: 'inStock', op: 'eq', type: 'boolean' },
+        { param: 'minPrice', property: 'price', op: 'gte', type: 'number' },
+        { param: 'maxPrice', property: 'price', op: 'lte', type: 'number' },
+      ]);
+    });
+
+    it('should honour x-filter hints', () => {
+      const filters = buildQueryFilters([
+        { name: 'from', in: 'query', 'x-filter': { property: 'createdAt', op: 'gte' } } as any,
+        { name: 'cheapest', in: 'query', 'x-filter': 'lte' } as any,
+        { name: 'q', in: 'query', 'x-filter': false } as any,
+      ]);
+      expect(filters).toEqual([
+        { param: 'from', property: 'createdAt', op: 'gte', type: undefined },
+        { param: 'cheapest', property: 'cheapest', op: 'lte', type: undefined },
+      ]);
+    });
+  });
+
+  describe('coerceQueryValue', () => {
+    it('should coerce booleans and numbers', () => {
+      expect(coerceQueryValue('true', undefined, 'boolean')).toBe(true);
+      expect(coerceQueryValue('0', false)).toBe(false);
+      expect(coerceQueryValue('42', undefined, 'integer')).toBe(42);
+      expect(coerceQueryValue('abc', 1)).toBe('abc');
+    });
+  });
+
+  describe('applyQueryFilters', () => {
+    const filters = buildQueryFilters(parameters);
+
+    it('should return all items when no filter params are present', () => {
+      expect(applyQueryFilters(products, {}, filters)).toHaveLength(3);
+    });
+
+    it('should filter by equality with boolean coercion', () => {
+      const result = applyQueryFilters(products, { category: 'furniture', inStock: 'true' }, filters);
+      expect(result.map(p => p.id)).toEqual(['1', '3']);
+    });
+
+    it('should filter by range', () => {
+      const result = applyQueryFilters(products, { minPrice: '50', maxPrice: '100' }, filters);
+      expect(result.map(p => p.id)).toEqual(['3']);
+    });
+
+    it('should match any of repeated equality values', () => {
+      const result = applyQueryFilters(products, { category: ['lighting', 'garden'] }, filters);
+      expect(result.map(p => p.id)).toEqual(['2']);
+    });
+
+    it('should ignore params that are not properties of the resource schema', () => {
+      const schema = { type: 'object', properties: { id: {}, name: {}, price: {} } };
+      const result = applyQueryFilters(products, { category: 'lighting', maxPrice: '100' }, filters, schema);
+      expect(result.map(p => p.id)).toEqual(['2', '3']);
+    });
+
+    it('should switch fixed-value filters with a boolean parameter', () => {
+      const stockFilters = buildQueryFilters([{ name: 'available', in: 'query', schema: { type: 'boolean' }, 'x-filter': { property: 'price', op: 'lt', value: 100 } } as any]);
+      expect(stockFilters).toEqual([{ param: 'available', property: 'price', op: 'lt', type: 'boolean', value: 100 }]);
+      expect(applyQueryFilters(products, { available: 'true' }, stockFilters).map(p => p.id)).toEqual(['2', '3']);
+      expect(applyQueryFilters(products, { available: 'false' }, stockFilters).map(p => p.id)).toEqual(['1']);
+    });
+
+    it('should filter the inventory products on stock with inStock', async () => {
+      const api = await SwaggerParser.dereference('swagger/inventory-api.yaml') as OpenAPIV3.Document;
+      const operation = api.paths['/products']!.get!;
+      const schema = ((operation.responses['200'] as OpenAPIV3.ResponseObject).content!['application/json'].schema as OpenAPIV3.ArraySchemaObject).items;
+      const stock = [
+        { id: '1', name: 'Desk', stockLevel: 4 },
+        { id: '2', name: 'Lamp', stockLevel: 0 },
+        { id: '3', name: 'Chair', stockLevel: 12 },
+      ];
+      const inventoryFilters = buildQueryFilters(operation.parameters as OpenAPIV3.ParameterObject[]);
+      expect(applyQueryFilters(stock, { inStock: 'true' }, inventoryFilters, schema).map(p => p.id)).toEqual(['1', '3']);
+      expect(applyQueryFilters(stock, { inStock: 'false' }, inventoryFilters, schema).map(p => p.id)).toEqual(['2']);
+    });
+  });
+});
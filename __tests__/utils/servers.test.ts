@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { expandServerUrl, isUnderBasePath, mountPoints, normalizeBasePath } from '../../src/utils/servers.js';
+
+describe('Server URL utils', () => {
+  const api = (servers: any[]): any => ({ openapi: '3.0.0', info: { title: 'Inventory', version: '1.0.0' }, paths: {}, servers });
+
+  it('should expand server variables from overrides, enums and defaults', () => {
+    const server = {
+      url: 'https://{region}.example.com/{version}/inventory',
+      variables: { region: { default: 'eu' }, version: { default: 'v2', enum: ['v1', 'v2'] } },
+    };
+    expect(expandServerUrl(server)).toEqual(['https://eu.example.com/v1/inventory', 'https://eu.example.com/v2/inventory']);
+    expect(expandServerUrl(server, { region: 'us', version: 'v3' })).toEqual(['https://us.example.com/v3/inventory']);
+  });
+
+  it('should normalise base paths', () => {
+    expect(normalizeBasePath('/v2/inventory/')).toBe('/v2/inventory');
+    expect(normalizeBasePath('v2')).toBe('/v2');
+    expect(normalizeBasePath('/')).toBe('');
+  });
+
+  it('should derive path mount points from absolute and relative server URLs', () => {
+    expect(mountPoints(api([
+      { url: 'https://api.example.com/v1' },
+      { url: 'https://dev-api.example.com/v1/' },
+      { url: '/internal' },
+      { url: 'http://localhost:3000' },
+    ]))).toEqual([{ basePath: '/v1' }, { basePath: '/internal' }]);
+    expect(mountPoints(api([]))).toEqual([]);
+  });
+
+  it('should keep the hosts of server URLs with host routing', () => {
+    expect(mountPoints(api([
+      { url: 'https://API.example.com/v1' },
+      { url: 'http://localhost:3000' },
+      { url: '/internal' },
+    ]), {}, 'host')).toEqual([
+      { basePath: '/v1', host: 'api.example.com' },
+      { basePath: '', host: 'localhost' },
+      { basePath: '/internal' },
+    ]);
+  });
+
+  it('should apply the mount settings of a spec', () => {
+    const servers = [{ url: 'https://api.example.com/{version}', variables: { version: { default: 'v1' } } }];
+    expect(mountPoints(api(servers), { variables: { version: 'v9' } })).toEqual([{ basePath: '/v9' }]);
+    expect(mountPoints(api(servers), { basePath: '/' })).toEqual([{ basePath: '' }]);
+    expect(mountPoints(api([]), { basePath: '/stock' })).toEqual([{ basePath: '/stock' }]);
+    expect(mountPoints(api(servers), { host: 'inventory.test' }, 'host')).toEqual([{ basePath: '/v1', host: 'inventory.test' }]);
+  });
+
+  it('should match base paths on segment boundaries', () => {
+    expect(isUnderBasePath('/v1/items', '/v1')).toBe(true);
+    expect(isUnderBasePath('/v1', '/v1')).toBe(true);
+    expect(isUnderBasePath('/v10/items', '/v1')).toBe(false);
+    expect(isUnderBasePath('/anything', '')).toBe(true);
+  });
+});
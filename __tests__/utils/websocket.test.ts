@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { decodeFrames, encodeFrame } from '../../src/utils/websocket.js';
+
+describe('WebSocket framing', () => {
+  it('should round-trip frames of every length encoding', () => {
+    for (const size of [5, 300, 70000]) {
+      const payload = Buffer.alloc(size, 'a');
+      const { frames, rest } = decodeFrames(encodeFrame(0x1, payload));
+      expect(frames).toEqual([{ opcode: 0x1, payload }]);
+      expect(rest.length).toBe(0);
+    }
+  });
+
+  it('should unmask client frames and keep incomplete ones for later', () => {
+    const mask = Buffer.from([1, 2, 3, 4]);
+    const text = Buffer.from('ping!');
+    const masked = Buffer.from(text.map((byte, i) => byte ^ mask[i % 4]));
+    const frame = Buffer.concat([Buffer.from([0x89, 0x80 | text.length]), mask, masked]);
+
+    const partial = decodeFrames(Buffer.concat([frame, frame.subarray(0, 3)]));
+    expect(partial.frames).toEqual([{ opcode: 0x9, payload: text }]);
+    expect(partial.rest.length).toBe(3);
+  });
+});
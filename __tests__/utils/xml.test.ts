@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { fromXml, parseXml, toXml } from '../../src/utils/xml.js';
+
+describe('XML utils', () => {
+  const api: any = {
+    components: {
+      schemas: {
+        Pet: {
+          type: 'object',
+          xml: { name: 'pet' },
+          properties: {
+            id: { type: 'integer', xml: { attribute: true } },
+            name: { type: 'string', xml: { name: 'petName' } },
+            vaccinated: { type: 'boolean' },
+            tags: { type: 'array', xml: { wrapped: true }, items: { type: 'string', xml: { name: 'tag' } } },
+            photoUrls: { type: 'array', items: { type: 'string', xml: { name: 'photoUrl' } } },
+          },
+        },
+      },
+    },
+  };
+  const schema = { $ref: '#/components/schemas/Pet' };
+  const pet = { id: 7, name: 'Rex & Co', vaccinated: true, tags: ['good', 'dog'], photoUrls: ['a.png', 'b.png'] };
+
+  it('should parse elements, attributes, entities and CDATA', () => {
+    const root = parseXml('<?xml version="1.0"?><!-- note --><a x="1" y=\'&lt;2&gt;\'><b>one &amp; two</b><c><![CDATA[<raw>]]></c><d/></a>');
+    expect(root.name).toBe('a');
+    expect(root.attributes).toEqual({ x: '1', y: '<2>' });
+    expect(root.children.map(c => [c.name, c.text])).toEqual([['b', 'one & two'], ['c', '<raw>'], ['d', '']]);
+  });
+
+  it('should reject malformed documents', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(/Unexpected <\/a>/);
+    expect(() => parseXml('<a>')).toThrow(/Unclosed/);
+    expect(() => parseXml('<a/><b/>')).toThrow(/More than one root/);
+    expect(() => parseXml('just text')).toThrow();
+  });
+
+  it('should follow the xml object when serializing', () => {
+    expect(toXml(pet, schema, api)).toBe('<?xml version="1.0" encoding="UTF-8"?>\n'
+      + '<pet id="7"><petName>Rex &amp; Co</petName><vaccinated>true</vaccinated>'
+      + '<tags><tag>good</tag><tag>dog</tag></tags><photoUrl>a.png</photoUrl><photoUrl>b.png</photoUrl></pet>');
+  });
+
+  it('should wrap root arrays and name items after their schema', () => {
+    const xml = toXml([{ id: 1, name: 'A' }], { type: 'array', items: { $ref: '#/components/schemas/Pet' } }, api);
+    expect(xml).toContain('<items><pet id="1"><petName>A</petName></pet></items>');
+  });
+
+  it('should parse documents back into typed values', () => {
+    expect(fromXml(toXml(pet, schema, api), schema, api)).toEqual(pet);
+    expect(fromXml('<pets><pet id="1"/><pet id="2"/></pets>', { type: 'array', items: schema }, api)).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('should keep undeclared elements and read untyped documents as strings', () => {
+    expect(fromXml('<pet id="x"><owner>Sam</owner></pet>', schema, api)).toEqual({ id: 'x', owner: 'Sam' });
+    expect(fromXml('<order><line>1</line><line>2</line><note>hi</note></order>', undefined, api)).toEqual({ line: ['1', '2'], note: 'hi' });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { Server } from '../src/server.js';
+
+describe('Server --watch', () => {
+  const todosApi = (paths: Record<string, any>): any => ({
+    openapi: '3.0.0',
+    info: { title: 'Todos', version: '1.0.0' },
+    paths,
+    components: {
+      schemas: {
+        Todo: { type: 'object', properties: { id: { type: 'string' }, title: { type: 'string' } } },
+      },
+    },
+  });
+  const listTodos = {
+    get: {
+      operationId: 'listTodos',
+      responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Todo' } } } } } },
+    },
+  };
+  const getTodo = {
+    parameters: [{ name: 'todoId', in: 'path', required: true, schema: { type: 'string' } }],
+    get: {
+      operationId: 'getTodo',
+      responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Todo' } } } } },
+    },
+  };
+  const seed = { todos: { Todo: [{ id: '1', title: 'Write tests' }] } };
+
+  let specDir: string;
+  let outDir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  const writeJson = (file: string, value: any) => fs.writeFileSync(file, JSON.stringify(value, null, 2));
+  const status = async (url: string) => (await fetch(`${baseUrl}${url}`)).status;
+  const eventually = (assertion: () => Promise<void>) => vi.waitFor(assertion, { timeout: 5000, interval: 50 });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-watch-specs-'));
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-watch-out-'));
+    writeJson(path.join(specDir, 'todos.json'), todosApi({ '/todos': listTodos }));
+    writeJson(path.join(outDir, 'db.json'), seed);
+
+    server = new Server(specDir, outDir, 0, { watch: true, runtime: true, security: false });
+    const httpServer = await server.start();
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(specDir, { recursive: true, force: true });
+    fs.rmSync(outDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should mount the routes added by an edited spec', async () => {
+    expect(await status('/api/todos/todos')).toBe(200);
+    expect(await status('/api/todos/todos/1')).toBe(404);
+
+    writeJson(path.join(specDir, 'todos.json'), todosApi({ '/todos': listTodos, '/todos/{todoId}': getTodo }));
+    await eventually(async () => expect(await status('/api/todos/todos/1')).toBe(200));
+    expect(await (await fetch(`${baseUrl}/api/todos/todos/1`)).json()).toEqual(seed.todos.Todo[0]);
+  });
+
+  it('should mount added specs with generated data, and unmount deleted ones', async () => {
+    writeJson(path.join(specDir, 'chores.json'), todosApi({ '/todos': listTodos }));
+    await eventually(async () => expect(await status('/api/chores/todos')).toBe(200));
+    const chores = await (await fetch(`${baseUrl}/api/chores/todos`)).json() as any[];
+    expect(chores.length).toBeGreaterThan(0);
+
+    fs.rmSync(path.join(specDir, 'chores.json'));
+    await eventually(async () => expect(await status('/api/chores/todos')).toBe(404));
+    expect(await status('/api/todos/todos')).toBe(200);
+  });
+
+  it('should reload db.json when it is edited', async () => {
+    writeJson(path.join(outDir, 'db.json'), { todos: { Todo: [{ id: '2', title: 'Edited by hand' }] } });
+    await eventually(async () => {
+      expect(await (await fetch(`${baseUrl}/api/todos/todos`)).json()).toEqual([{ id: '2', title: 'Edited by hand' }]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { Webhooks } from '../src/webhooks.js';
+import { MockGenerator } from '../src/mock.js';
+
+describe('Webhooks', () => {
+  const api: any = {
+    openapi: '3.1.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    paths: {
+      '/orders': {
+        post: {
+          operationId: 'createOrder',
+          responses: { '201': { description: 'Created' } },
+          callbacks: {
+            orderShipped: {
+              '{$request.body#/callbackUrl}/shipped?order={$response.body#/id}': {
+                post: {
+                  requestBody: {
+                    content: { 'application/json': { schema: { $ref: '#/components/schemas/Shipment' } } },
+                  },
+                  responses: { '200': { description: 'OK' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    webhooks: {
+      orderCancelled: {
+        post: {
+          requestBody: { content: { 'application/json': { example: { orderId: '1', reason: 'customer' } } } },
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Shipment: { type: 'object', properties: { carrier: { type: 'string' }, parcels: { type: 'integer' } } },
+      },
+    },
+  };
+
+  let receiver: HttpServer;
+  let receiverUrl: string;
+  let received: { path: string; body: any }[];
+  let failuresLeft: number;
+  let webhooks: Webhooks;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    received = [];
+    failuresLeft = 0;
+    // Stands in for the client service receiving the callbacks
+    const app = express();
+    app.use(express.json());
+    app.post('*', (req, res) => {
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        res.status(503).end();
+        return;
+      }
+      received.push({ path: req.originalUrl, body: req.body });
+      res.status(200).end();
+    });
+    receiver = app.listen(0);
+    await new Promise(resolve => receiver.once('listening', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+
+    webhooks = new Webhooks({ retries: 2, retryDelay: 1 }, new MockGenerator('/specs', '/out'));
+    webhooks.register('shop', api);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('should render the callback URL and post a payload generated from the schema', async () => {
+    const ctx = { specName: 'shop', api, path: '/orders', method: 'post', operation: api.paths['/orders'].post };
+    const [delivery] = webhooks.dispatchCallbacks(ctx, {
+      url: 'http://localhost/api/shop/orders',
+      method: 'POST',
+      request: { path: {}, query: {}, headers: {}, body: { callbackUrl: `${receiverUrl}/hooks` } },
+      response: { status: 201, headers: {}, body: { id: '42' } },
+    });
+    await webhooks.settled();
+
+    expect(delivery).toMatchObject({ kind: 'callback', name: 'orderShipped', url: `${receiverUrl}/hooks/shipped?order=42`, status: 'delivered' });
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe('/hooks/shipped?order=42');
+    expect(typeof received[0].body.carrier).toBe('string');
+    expect(typeof received[0].body.parcels).toBe('number');
+  });
+
+  it('should retry failed deliveries and log every attempt', async () => {
+    failuresLeft = 2;
+    const delivery: any = webhooks.trigger('shop', 'orderCancelled', { url: `${receiverUrl}/cancelled` });
+    await webhooks.settled();
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts.map((a: any) => a.status)).toEqual([503, 503, 200]);
+    expect(received).toEqual([{ path: '/cancelled', body: { orderId: '1', reason: 'customer' } }]);
+  });
+
+  it('should give up after the configured retries', async () => {
+    failuresLeft = 5;
+    const delivery: any = webhooks.trigger('shop', 'orderCancelled', { url: `${receiverUrl}/cancelled`, payload: { orderId: '2' } });
+    await webhooks.settled();
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(3);
+    expect(webhooks.log()).toEqual([delivery]);
+  });
+
+  it('should cancel pending retries on close', async () => {
+    failuresLeft = 5;
+    const slow = new Webhooks({ retries: 3, retryDelay: 60_000 }, new MockGenerator('/specs', '/out'));
+    slow.register('shop', api);
+    const delivery: any = slow.trigger('shop', 'orderCancelled', { url: `${receiverUrl}/cancelled` });
+    await vi.waitFor(() => expect(delivery.attempts[0]?.status).toBe(503));
+
+    const started = Date.now();
+    await slow.close();
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(1);
+    expect(failuresLeft).toBe(4);
+  });
+
+  it('should send callbacks only after a successful response', async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      res.locals.openapi = { specName: 'shop', api, path: '/orders', method: 'post', operation: api.paths['/orders'].post };
+      next();
+    }, webhooks.middleware());
+    app.post('/orders', (req, res) => {
+      if (req.body.fail) {
+        res.status(400).json({ error: 'Bad order' });
+        return;
+      }
+      res.status(201).json({ id: '7' });
+    });
+    const server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/orders`;
+
+    const post = (body: any) => fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+    await post({ callbackUrl: receiverUrl, fail: true });
+    await post({ callbackUrl: receiverUrl });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await webhooks.settled();
+    await new Promise(resolve => server.close(resolve));
+
+    expect(received.map(r => r.path)).toEqual(['/shipped?order=7']);
+  });
+});
@@ -0,0 +1,215 @@
+import express from 'express';
+import type { AdminRoute } from './types.js';
+import type { Database } from './server.js';
+import type { SessionStore } from './sessions.js';
+import type { Scenarios } from './scenarios.js';
+import type { RequestJournal, RequestMatcher } from './journal.js';
+import type { Webhooks } from './webhooks.js';
+import { Logger } from './utils/logger.js';
+
+/**
+ * Mount path of the admin API.
+ */
+export const ADMIN_PATH = '/__admin';
+
+/**
+ * What the admin API needs from the server it controls.
+ */
+export interface AdminHooks {
+  /** The database currently backing the mounted specs. */
+  database(): Database;
+  /** Restore the database to the seed it was loaded with, every scenario to its initial state, and clear the journal. */
+  reset(): Promise<void>;
+  /** Every mounted route. */
+  routes(): AdminRoute[];
+  /** Regenerate the mock data of one spec; resolves to false if the spec is not mounted. */
+  regenerate(specName: string): Promise<boolean>;
+  /** The per-client data sessions. */
+  sessions(): SessionStore;
+  /** The stateful scenarios. */
+  scenarios(): Scenarios;
+  /** The journal of requests to the mounted specs. */
+  journal(): RequestJournal;
+  /** Callback and webhook delivery. */
+  webhooks(): Webhooks;
+}
+
+type AsyncHandler = (req: express.Request, res: express.Response) => Promise<void>;
+
+/**
+ * Wrap an async handler so rejections reach the Express error handler.
+ */
+function handle(fn: AsyncHandler): express.RequestHandler {
+  return (req, res, next) => {
+    fn(req, res).catch(next);
+  };
+}
+
+/**
+ * Read a request matcher from a request body; a missing body matches every request.
+ */
+function matcherFrom(body: any): RequestMatcher {
+  return body && typeof body === 'object' && !Array.isArray(body) ? body : {};
+}
+
+/**
+ * Build the admin router, mounted at {@link ADMIN_PATH}:
+ *
+ * - `POST /reset` restores the database to its seed and the scenarios to their initial state, and clears the journal
+ * - `GET /db` dumps the full database, `PUT /db` replaces it
+ * - `GET /routes` lists mounted routes with their operationId and schema key (`?spec=` filters by spec)
+ * - `POST /specs/:specName/regenerate` regenerates the mock data of one spec
+ * - `GET /scenarios` lists the scenarios with their state, `GET /scenarios/:name` shows one,
+ *   `PUT /scenarios/:name/state` moves it to a state and `POST /scenarios/:name/reset` (or `/scenarios/reset`) resets it
+ * - `GET /requests` lists the journaled requests, `POST /requests/find` and `POST /requests/count` select them
+ *   with a {@link RequestMatcher} body, and `DELETE /requests` clears the journal
+ * - `GET /webhooks` lists the declared webhooks, `POST /webhooks/:specName/:name` sends one
+ *   (`{ url?, payload? }`), and `GET /deliveries` shows the delivery log (`DELETE /deliveries` empties it)
+ * - `GET /sessions` lists the data sessions, `DELETE /sessions/:id` deletes one and `DELETE /sessions` all of them
+ *
+ * @param hooks - Access to the server state
+ * @returns The Express router
+ */
+export function createAdminRouter(hooks: AdminHooks): express.Router {
+  const router = express.Router();
+
+  router.post('/reset', handle(async (_req, res) => {
+    await hooks.reset();
+    Logger.info('[Admin] Database reset to seed');
+    res.status(204).end();
+  }));
+
+  router.get('/db', (_req, res) => {
+    res.json(hooks.database().dump());
+  });
+
+  router.put('/db', handle(async (req, res) => {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      res.status(400).json({ error: 'The database must be a JSON object keyed by spec name' });
+      return;
+    }
+    await hooks.database().replace(req.body);
+    Logger.info('[Admin] Database replaced');
+    res.status(204).end();
+  }));
+
+  router.get('/routes', (req, res) => {
+    const spec = req.query.spec as string | undefined;
+    res.json(hooks.routes().filter(route => !spec || route.spec === spec));
+  });
+
+  router.post('/specs/:specName/regenerate', handle(async (req, res) => {
+    const { specName } = req.params;
+    if (!(await hooks.regenerate(specName))) {
+      res.status(404).json({ error: `Spec "${specName}" is not mounted` });
+      return;
+    }
+    Logger.info(`[Admin] Regenerated mock data for ${specName}`);
+    res.json(hooks.database().dump()[specName]);
+  }));
+
+  router.get('/scenarios', (_req, res) => {
+    res.json(hooks.scenarios().list());
+  });
+
+  router.post('/scenarios/reset', (_req, res) => {
+    hooks.scenarios().reset();
+    Logger.info('[Admin] Reset every scenario');
+    res.status(204).end();
+  });
+
+  router.get('/scenarios/:name', (req, res) => {
+    const scenario = hooks.scenarios().get(req.params.name);
+    if (!scenario) {
+      res.status(404).json({ error: `Scenario "${req.params.name}" is not declared` });
+      return;
+    }
+    res.json(scenario);
+  });
+
+  router.put('/scenarios/:name/state', (req, res) => {
+    const state = req.body && req.body.state;
+    if (typeof state !== 'string' || !state) {
+      res.status(400).json({ error: 'Expected a JSON body like {"state": "<name>"}' });
+      return;
+    }
+    if (!hooks.scenarios().setState(req.params.name, state)) {
+      res.status(404).json({ error: `Scenario "${req.params.name}" is not declared` });
+      return;
+    }
+    Logger.info(`[Admin] Scenario ${req.params.name} moved to ${state}`);
+    res.json(hooks.scenarios().get(req.params.name));
+  });
+
+  router.post('/scenarios/:name/reset', (req, res) => {
+    if (!hooks.scenarios().reset(req.params.name)) {
+      res.status(404).json({ error: `Scenario "${req.params.name}" is not declared` });
+      return;
+    }
+    Logger.info(`[Admin] Scenario ${req.params.name} reset`);
+    res.json(hooks.scenarios().get(req.params.name));
+  });
+
+  router.get('/requests', (_req, res) => {
+    res.json(hooks.journal().find());
+  });
+
+  router.post('/requests/find', (req, res) => {
+    res.json(hooks.journal().find(matcherFrom(req.body)));
+  });
+
+  router.post('/requests/count', (req, res) => {
+    res.json({ count: hooks.journal().count(matcherFrom(req.body)) });
+  });
+
+  router.delete('/requests', (_req, res) => {
+    hooks.journal().clear();
+    Logger.info('[Admin] Request journal cleared');
+    res.status(204).end();
+  });
+
+  router.get('/webhooks', (_req, res) => {
+    res.json(hooks.webhooks().list());
+  });
+
+  router.post('/webhooks/:specName/:name', (req, res) => {
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    const delivery = hooks.webhooks().trigger(req.params.specName, req.params.name, { url: body.url, payload: body.payload });
+    if ('error' in delivery) {
+      res.status(delivery.status).json({ error: delivery.error });
+      return;
+    }
+    Logger.info(`[Admin] Triggered webhook ${req.params.name} of ${req.params.specName}`);
+    res.status(202).json(delivery);
+  });
+
+  router.get('/deliveries', (_req, res) => {
+    res.json(hooks.webhooks().log());
+  });
+
+  router.delete('/deliveries', (_req, res) => {
+    hooks.webhooks().clear();
+    res.status(204).end();
+  });
+
+  router.get('/sessions', (_req, res) => {
+    res.json(hooks.sessions().list());
+  });
+
+  router.delete('/sessions', (_req, res) => {
+    const count = hooks.sessions().clear();
+    Logger.info(`[Admin] Deleted ${count} session(s)`);
+    res.status(204).end();
+  });
+
+  router.delete('/sessions/:id', (req, res) => {
+    if (!hooks.sessions().delete(req.params.id)) {
+      res.status(404).json({ error: `Session "${req.params.id}" does not exist` });
+      return;
+    }
+    Logger.info(`[Admin] Deleted session ${req.params.id}`);
+    res.status(204).end();
+  });
+
+  return router;
+}
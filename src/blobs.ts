@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Path under which stored files are downloadable by id.
+ */
+export const FILES_PATH = '/__files';
+
+/**
+ * A stored file, as persisted in the record that owns it.
+ */
+export interface FileMetadata {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  url: string;
+}
+
+/**
+ * A 1x1 PNG, used as placeholder image.
+ */
+const PLACEHOLDER_PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==', 'base64');
+
+/**
+ * A one-page PDF, used as placeholder document.
+ */
+const PLACEHOLDER_PDF = Buffer.from([
+  '%PDF-1.4',
+  '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+  '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+  '3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 200 200] >> endobj',
+  'trailer << /Root 1 0 R >>',
+  '%%EOF',
+].join('\n'));
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'application/octet-stream': 'bin',
+};
+
+/**
+ * Check whether a value is the metadata of a stored file.
+ * @param value - Any value
+ * @returns True for file metadata
+ */
+export function isFileMetadata(value: any): value is FileMetadata {
+  return !!value && typeof value === 'object' && typeof value.id === 'string' && typeof value.contentType === 'string'
+    && typeof value.size === 'number' && typeof value.url === 'string' && value.url.startsWith(FILES_PATH + '/');
+}
+
+/**
+ * Guess the media type of a binary property from its schema (`contentMediaType`) or its name.
+ * @param name - The property name
+ * @param schema - The property schema
+ * @returns The media type
+ */
+export function guessContentType(name: string, schema: any = {}): string {
+  if (typeof schema.contentMediaType === 'string' && !schema.contentMediaType.includes('*')) return schema.contentMediaType;
+  if (/image|photo|picture|avatar|logo|thumbnail|icon/i.test(name)) return 'image/png';
+  if (/pdf|document|invoice|receipt|report/i.test(name)) return 'application/pdf';
+  return 'application/octet-stream';
+}
+
+/**
+ * BlobStore keeps uploaded files on disk, each next to a JSON sidecar with its metadata.
+ */
+export class BlobStore {
+  private dir: string;
+
+  /**
+   * @param {string} dir - Directory the files are stored in.
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Store a file.
+   * @param {Buffer} data - The file content.
+   * @param {string} [filename] - The original file name.
+   * @param {string} [contentType] - The media type.
+   * @returns {Promise<FileMetadata>} The metadata of the stored file.
+   */
+  async put(data: Buffer, filename?: string, contentType = 'application/octet-stream'): Promise<FileMetadata> {
+    const id = randomUUID();
+    const metadata = this.metadata(id, filename || `${id}.${EXTENSIONS[contentType] || 'bin'}`, contentType, data.length);
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(path.join(this.dir, id), data);
+    await fs.promises.writeFile(path.join(this.dir, `${id}.json`), JSON.stringify(metadata, null, 2));
+    return metadata;
+  }
+
+  /**
+   * Get a placeholder file of a media type, for generated mock data. Placeholders are written once
+   * and shared by every record referencing them.
+   * @param {string} contentType - The media type.
+   * @param {string} filename - The file name to report in the metadata.
+   * @returns {FileMetadata} The metadata of the placeholder.
+   */
+  placeholder(contentType: string, filename: string): FileMetadata {
+    const extension = EXTENSIONS[contentType] || 'bin';
+    const id = `placeholder-${contentType.replace(/[^a-z0-9]+/gi, '-')}`;
+    const data = contentType.startsWith('image/') ? PLACEHOLDER_PNG
+      : contentType === 'application/pdf' ? PLACEHOLDER_PDF
+      : Buffer.from(`placeholder ${contentType}\n`);
+    const file = path.join(this.dir, id);
+    if (!fs.existsSync(file)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(file, data);
+      fs.writeFileSync(`${file}.json`, JSON.stringify(this.metadata(id, `${id}.${extension}`, contentType, data.length), null, 2));
+    }
+    return this.metadata(id, filename.includes('.') ? filename : `${filename}.${extension}`, contentType, data.length);
+  }
+
+  /**
+   * Find a stored file.
+   * @param {string} id - The file id.
+   * @returns {{ metadata: FileMetadata; file: string } | undefined} Its metadata and absolute path, if it exists.
+   */
+  get(id: string): { metadata: FileMetadata; file: string } | undefined {
+    if (!/^[\w.-]+$/.test(id)) return undefined;
+    const file = path.resolve(this.dir, id);
+    if (!fs.existsSync(file) || !fs.existsSync(`${file}.json`)) return undefined;
+    return { metadata: JSON.parse(fs.readFileSync(`${file}.json`, 'utf-8')), file };
+  }
+
+  /**
+   * Build the metadata of a file.
+   */
+  private metadata(id: string, filename: string, contentType: string, size: number): FileMetadata {
+    return { id, filename, contentType, size, url: `${FILES_PATH}/${id}` };
+  }
+}
@@ -0,0 +1,158 @@
+import type express from 'express';
+import type { ChaosConfig, ChaosFileConfig, OperationContext } from './types.js';
+import { Logger } from './utils/logger.js';
+
+/**
+ * Per-request headers that override the chaos configuration.
+ */
+export const CHAOS_HEADERS = {
+  latency: 'x-mock-latency',
+  errorRate: 'x-mock-error-rate',
+  errorStatus: 'x-mock-error-status',
+  dropRate: 'x-mock-drop-rate',
+  truncateRate: 'x-mock-truncate-rate',
+} as const;
+
+/**
+ * Parse a latency header value: a number of milliseconds ("200") or a range ("100-500").
+ */
+function parseLatency(value: string): ChaosConfig['latency'] {
+  const range = value.match(/^\s*(\d+)\s*-\s*(\d+)\s*$/);
+  if (range) return { min: Number(range[1]), max: Number(range[2]) };
+  const ms = Number(value);
+  return isNaN(ms) ? undefined : ms;
+}
+
+/**
+ * Read chaos overrides from request headers.
+ * @param headers - The request headers
+ * @returns The settings present in the headers
+ */
+export function chaosFromHeaders(headers: Record<string, string | string[] | undefined>): ChaosConfig {
+  const config: ChaosConfig = {};
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const latency = header(CHAOS_HEADERS.latency);
+  if (latency !== undefined) config.latency = parseLatency(latency);
+  for (const key of ['errorRate', 'errorStatus', 'dropRate', 'truncateRate'] as const) {
+    const value = header(CHAOS_HEADERS[key]);
+    if (value !== undefined && !isNaN(Number(value))) config[key] = Number(value);
+  }
+  return config;
+}
+
+/**
+ * Chaos injects latency, errors, dropped connections and truncated bodies into responses.
+ * Settings are merged from (lowest to highest precedence): the config file, its matching route entry,
+ * `x-mock-chaos` on the spec root, path item and operation, and finally the `X-Mock-*` request headers.
+ */
+export class Chaos {
+  private config: ChaosFileConfig;
+  private random: () => number;
+
+  /**
+   * @param {ChaosFileConfig} [config] - Settings from the chaos config file.
+   * @param {() => number} [random] - Source of randomness in [0, 1), replaceable for tests.
+   */
+  constructor(config: ChaosFileConfig = {}, random: () => number = Math.random) {
+    this.config = config;
+    this.random = random;
+  }
+
+  /**
+   * Compute the effective chaos settings for a request.
+   * @param {OperationContext} [ctx] - The matched operation.
+   * @param {Record<string, any>} [headers] - The request headers.
+   * @returns {ChaosConfig} The merged settings.
+   */
+  resolve(ctx?: OperationContext, headers: Record<string, any> = {}): ChaosConfig {
+    const { routes, ...global } = this.config;
+    const layers: (ChaosConfig | undefined)[] = [global];
+    if (ctx) {
+      const pathItem: any = ctx.api && ctx.api.paths ? ctx.api.paths[ctx.path] : undefined;
+      if (routes) {
+        layers.push(routes[ctx.path], routes[`${ctx.method.toUpperCase()} ${ctx.path}`]);
+      }
+      layers.push(
+        (ctx.api as any)?.['x-mock-chaos'],
+        pathItem?.['x-mock-chaos'],
+        (ctx.operation as any)?.['x-mock-chaos'],
+      );
+    }
+    layers.push(chaosFromHeaders(headers));
+    return Object.assign({}, ...layers.filter(Boolean));
+  }
+
+  /**
+   * Roll a percentage chance.
+   */
+  private roll(rate?: number): boolean {
+    return !!rate && rate > 0 && this.random() * 100 < rate;
+  }
+
+  /**
+   * Pick the delay for a request.
+   */
+  private delay(latency: ChaosConfig['latency']): number {
+    if (latency === undefined) return 0;
+    if (typeof latency === 'number') return Math.max(0, latency);
+    const { min, max } = latency;
+    return Math.max(0, Math.round(min + this.random() * (max - min)));
+  }
+
+  /**
+   * Express middleware applying the effective chaos settings for the operation in `res.locals.openapi`.
+   * @returns Express middleware
+   */
+  middleware(): express.RequestHandler {
+    return (req, res, next) => {
+      const config = this.resolve(res.locals.openapi as OperationContext | undefined, req.headers);
+      const ms = this.delay(config.latency);
+
+      const apply = () => {
+        if (this.roll(config.dropRate)) {
+          Logger.warn(`[Chaos] Dropping connection: ${req.method} ${req.originalUrl}`);
+          req.socket.destroy();
+          return;
+        }
+        if (this.roll(config.errorRate)) {
+          const status = config.errorStatus || 500;
+          Logger.warn(`[Chaos] Injecting ${status}: ${req.method} ${req.originalUrl}`);
+          res.status(status).json({ error: 'Injected fault', status });
+          return;
+        }
+        if (this.roll(config.truncateRate)) {
+          this.truncate(req, res);
+        }
+        next();
+      };
+
+      if (ms > 0) {
+        Logger.debug(`[Chaos] Delaying ${req.method} ${req.originalUrl} by ${ms}ms`);
+        setTimeout(apply, ms);
+      } else {
+        apply();
+      }
+    };
+  }
+
+  /**
+   * Make the response send only the first half of its body and then close the connection.
+   * Content-Length still announces the full body, so clients see a premature end of stream.
+   */
+  private truncate(req: express.Request, res: express.Response): void {
+    const originalEnd = res.end.bind(res) as (...args: any[]) => express.Response;
+    res.end = ((chunk?: any, encoding?: any, cb?: any) => {
+      if (chunk === undefined || chunk === null || typeof chunk === 'function') {
+        return originalEnd(chunk, encoding, cb);
+      }
+      const body = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk), typeof encoding === 'string' ? encoding as BufferEncoding : 'utf-8');
+      Logger.warn(`[Chaos] Truncating response body: ${req.method} ${req.originalUrl}`);
+      res.write(body.subarray(0, Math.floor(body.length / 2)), () => req.socket.destroy());
+      return res;
+    }) as any;
+  }
+}
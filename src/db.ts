@@ -1,6 +1,33 @@
+import type express from 'express';
+import { AsyncLocalStorage } from 'async_hooks';
 import { Database } from './server.js';
+import { sessionScoped } from './sessions.js';
 import * as path from 'path';
 
-const db = new Database(path.join(process.cwd(), 'generated', 'db.json'));
+// The database of the server handling the current request
+const serverDatabase = new AsyncLocalStorage<Database>();
 
-export default db; 
\ No newline at end of file
+let fallback: Database | undefined;
+
+/**
+ * Express middleware making `db` refer to a server's database while its requests are handled,
+ * so several servers can run generated controllers in one process.
+ * @param database - Returns the server's database
+ * @returns Express middleware
+ */
+export function bindDatabase(database: () => Database): express.RequestHandler {
+  return (_req, _res, next) => serverDatabase.run(database(), next);
+}
+
+// Outside of a server request, `generated/db.json` in the working directory is used, opened on first use.
+// Requests bound to a data session read and write that session's copy instead
+const db = new Proxy({} as Database, {
+  get(_target, property) {
+    const active = serverDatabase.getStore()
+      || (fallback ||= sessionScoped(new Database(path.join(process.cwd(), 'generated', 'db.json'))));
+    const value = Reflect.get(active, property);
+    return typeof value === 'function' ? value.bind(active) : value;
+  },
+});
+
+export default db;
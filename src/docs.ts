@@ -0,0 +1,161 @@
+import type express from 'express';
+import * as jsYaml from 'js-yaml';
+import type { AdminRoute } from './types.js';
+import type { MountPoint } from './utils/servers.js';
+import { escapeXml as escapeHtml } from './utils/xml.js';
+
+/**
+ * Path of the interactive documentation page, relative to a spec's mount path.
+ */
+export const DOCS_PATH = '/docs';
+
+/**
+ * Paths of the spec downloads, relative to a spec's mount path.
+ */
+export const SPEC_JSON_PATH = '/openapi.json';
+export const SPEC_YAML_PATH = '/openapi.yaml';
+
+// Swagger UI is loaded from a CDN, so the page needs no bundled assets
+const SWAGGER_UI = 'https://unpkg.com/swagger-ui-dist@5';
+
+/**
+ * A mounted spec as listed on the landing page.
+ */
+export interface SpecSummary {
+  name: string;
+  title: string;
+  version?: string;
+  description?: string;
+  /** Where the spec is served, `/api/<specName>` first. */
+  mounts: MountPoint[];
+  routes: AdminRoute[];
+  /** Number of records per collection in the database. */
+  records: Record<string, number>;
+}
+
+/**
+ * Copy a spec with its `servers` pointing at the mock.
+ * @param spec - The OpenAPI document as written
+ * @param serverUrl - The URL the mock serves the spec under
+ * @returns The document to serve
+ */
+export function servedSpec(spec: any, serverUrl: string): any {
+  return { ...structuredClone(spec), servers: [{ url: serverUrl, description: 'Mock server' }] };
+}
+
+/**
+ * Express middleware serving the documentation page and the spec as JSON and YAML under a spec's
+ * mount path (`res.locals.basePath`, already stripped from the request). Paths the spec declares
+ * itself are left to its routes.
+ * @param spec - The OpenAPI document as written
+ * @returns Express middleware
+ */
+export function specDocs(spec: any): express.RequestHandler {
+  return (req, res, next) => {
+    if (req.method !== 'GET' || (spec.paths && spec.paths[req.path])) return next();
+    const basePath: string = res.locals.basePath || '';
+    const served = () => servedSpec(spec, `${req.protocol}://${req.get('host')}${basePath}`);
+
+    switch (req.path) {
+      case DOCS_PATH:
+        res.type('html').send(renderDocsPage(spec.info && spec.info.title || 'API', `${basePath}${SPEC_JSON_PATH}`));
+        return;
+      case SPEC_JSON_PATH:
+        res.json(served());
+        return;
+      case SPEC_YAML_PATH:
+        res.type('application/yaml').send(jsYaml.dump(served(), { noRefs: true }));
+        return;
+      default:
+        next();
+    }
+  };
+}
+
+/**
+ * Express handler for the landing page: every mounted spec with its URLs, routes and record counts,
+ * as HTML or, when the client prefers it, as JSON.
+ * @param specs - Lists the mounted specs
+ * @returns Express request handler
+ */
+export function landingPage(specs: () => SpecSummary[]): express.RequestHandler {
+  return (req, res) => {
+    const port = (req.get('host') || '').match(/:\d+$/);
+    const urlOf = (point: MountPoint) => point.host ? `${req.protocol}://${point.host}${port ? port[0] : ''}${point.basePath}` : point.basePath;
+    const listed = specs().map(spec => ({
+      name: spec.name,
+      title: spec.title,
+      version: spec.version,
+      description: spec.description,
+      urls: spec.mounts.map(urlOf),
+      docs: `${urlOf(spec.mounts[0])}${DOCS_PATH}`,
+      records: spec.records,
+      routes: spec.routes,
+    }));
+    res.format({
+      html: () => res.send(renderLandingPage(listed)),
+      json: () => res.json({ specs: listed }),
+    });
+  };
+}
+
+const STYLE = `body{font-family:system-ui,sans-serif;margin:2rem auto;max-width:60rem;padding:0 1rem;color:#222}
+section{border-top:1px solid #ddd;padding-top:1rem;margin-top:1.5rem}
+table{border-collapse:collapse;margin:.5rem 0}td,th{text-align:left;padding:.2rem .8rem .2rem 0}
+code{background:#f4f4f4;padding:0 .2rem}small{color:#777}`;
+
+/**
+ * Render the Swagger UI page for a spec.
+ */
+function renderDocsPage(title: string, specUrl: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} - API docs</title>
+<link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css">
+</head>
+<body>
+<div id="swagger-ui"><noscript>Download the spec as <a href="${escapeHtml(specUrl)}">openapi.json</a>.</noscript></div>
+<script src="${SWAGGER_UI}/swagger-ui-bundle.js"></script>
+<script>SwaggerUIBundle({ url: ${JSON.stringify(specUrl).replace(/</g, '\\u003c')}, dom_id: '#swagger-ui' });</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render the landing page listing the mounted specs.
+ */
+function renderLandingPage(specs: (Omit<SpecSummary, 'mounts'> & { urls: string[]; docs: string })[]): string {
+  const sections = specs.map(spec => {
+    const base = spec.urls[0];
+    const records = Object.entries(spec.records)
+      .map(([collection, count]) => `<tr><td>${escapeHtml(collection)}</td><td>${count}</td></tr>`).join('');
+    const routes = spec.routes
+      .map(route => `<tr><td><code>${route.method}</code></td><td><code>${escapeHtml(route.path)}</code></td><td>${escapeHtml(route.operationId)}</td></tr>`).join('');
+    return `<section>
+<h2>${escapeHtml(spec.title)}${spec.version ? ` <small>${escapeHtml(spec.version)}</small>` : ''}</h2>
+${spec.description ? `<p>${escapeHtml(spec.description)}</p>` : ''}
+<p>Served at ${spec.urls.map(url => `<code>${escapeHtml(url || '/')}</code>`).join(', ')}</p>
+<p><a href="${escapeHtml(spec.docs)}">Docs</a> &middot; <a href="${escapeHtml(base + SPEC_JSON_PATH)}">openapi.json</a> &middot; <a href="${escapeHtml(base + SPEC_YAML_PATH)}">openapi.yaml</a></p>
+${records ? `<table><tr><th>Collection</th><th>Records</th></tr>${records}</table>` : '<p>No data.</p>'}
+<table><tr><th>Method</th><th>Path</th><th>Operation</th></tr>${routes}</table>
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>fake-api</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>fake-api</h1>
+<p>${specs.length} spec${specs.length === 1 ? '' : 's'} mounted.</p>
+${sections}
+</body>
+</html>
+`;
+}
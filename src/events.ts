@@ -0,0 +1,155 @@
+import type express from 'express';
+import type { IncomingMessage, Server as HttpServer } from 'http';
+import type { Duplex } from 'stream';
+import type { ChangeEvent } from './types.js';
+import { Logger } from './utils/logger.js';
+import { acceptWebSocket } from './utils/websocket.js';
+
+/**
+ * Path of the change feed, served as Server-Sent Events and as a WebSocket endpoint.
+ */
+export const EVENTS_PATH = '/__events';
+
+/**
+ * A database change as published on the feed.
+ */
+export interface FeedEvent extends ChangeEvent {
+  id: number;
+  /** The data session the change was made in, if any. */
+  session?: string;
+}
+
+/**
+ * Which changes a subscriber receives; omitted criteria match everything.
+ */
+export interface ChangeFilter {
+  spec?: string;
+  collection?: string;
+  session?: string;
+}
+
+interface Subscriber {
+  filter: ChangeFilter;
+  send(event: FeedEvent): void;
+}
+
+/**
+ * Read a filter from the query string of a request URL (`?spec=blog-api&collection=Post`).
+ * @param url - The request URL
+ * @returns The filter
+ */
+export function filterFromUrl(url: string): ChangeFilter {
+  const params = new URL(url, 'http://localhost').searchParams;
+  const filter: ChangeFilter = {};
+  for (const key of ['spec', 'collection', 'session'] as const) {
+    const value = params.get(key);
+    if (value) filter[key] = value;
+  }
+  return filter;
+}
+
+/**
+ * Check whether a change passes a filter. Changes replacing the whole database pass every filter.
+ * @param event - The change
+ * @param filter - The filter
+ * @returns True if the subscriber should receive the change
+ */
+export function matchesFilter(event: FeedEvent, filter: ChangeFilter): boolean {
+  if (filter.session !== undefined && filter.session !== event.session) return false;
+  if (event.operation === 'replace') return true;
+  if (filter.spec && filter.spec !== event.spec) return false;
+  return !filter.collection || filter.collection === event.collection;
+}
+
+/**
+ * ChangeFeed publishes database changes to subscribers over Server-Sent Events and WebSocket.
+ */
+export class ChangeFeed {
+  private subscribers = new Set<Subscriber>();
+  private sockets = new Set<Duplex>();
+  private nextId = 1;
+
+  /**
+   * Publish a change to the matching subscribers.
+   * @param {ChangeEvent} change - The change.
+   * @param {string} [session] - The data session it was made in.
+   * @returns {FeedEvent} The published event.
+   */
+  publish(change: ChangeEvent, session?: string): FeedEvent {
+    const event: FeedEvent = { id: this.nextId++, ...change, ...(session ? { session } : {}) };
+    for (const subscriber of this.subscribers) {
+      if (matchesFilter(event, subscriber.filter)) subscriber.send(event);
+    }
+    return event;
+  }
+
+  /**
+   * Receive the changes passing a filter.
+   * @param {ChangeFilter} filter - The filter.
+   * @param {(event: FeedEvent) => void} send - Called for every matching change.
+   * @returns {() => void} Unsubscribes.
+   */
+  subscribe(filter: ChangeFilter, send: (event: FeedEvent) => void): () => void {
+    const subscriber = { filter, send };
+    this.subscribers.add(subscriber);
+    return () => this.subscribers.delete(subscriber);
+  }
+
+  /**
+   * Express handler streaming the changes as Server-Sent Events (`event: change`), filtered by the
+   * `spec`, `collection` and `session` query parameters. A comment is sent every 15s to keep proxies from timing out.
+   * @returns Express request handler
+   */
+  sse(): express.RequestHandler {
+    return (req, res) => {
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.flushHeaders();
+      res.write(': connected\n\n');
+
+      const unsubscribe = this.subscribe(filterFromUrl(req.originalUrl), event => {
+        res.write(`id: ${event.id}\nevent: change\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    };
+  }
+
+  /**
+   * Serve the feed as a WebSocket endpoint at {@link EVENTS_PATH} on an HTTP server, sending every
+   * change as a JSON text message. Upgrade requests for other paths are refused.
+   * @param {HttpServer} server - The HTTP server.
+   */
+  attach(server: HttpServer): void {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+      if (new URL(req.url || '/', 'http://localhost').pathname !== EVENTS_PATH) {
+        socket.destroy();
+        return;
+      }
+      const connection = acceptWebSocket(req, socket);
+      if (!connection) return;
+      Logger.debug(`[Events] WebSocket subscriber connected: ${req.url}`);
+      const unsubscribe = this.subscribe(filterFromUrl(req.url || '/'), event => connection.send(JSON.stringify(event)));
+      this.sockets.add(socket);
+      connection.onClose(() => {
+        unsubscribe();
+        this.sockets.delete(socket);
+      });
+    });
+  }
+
+  /**
+   * Disconnect every WebSocket subscriber. Upgraded connections are no longer tracked by the
+   * HTTP server, so closing the server alone would leave them open.
+   */
+  close(): void {
+    this.sockets.forEach(socket => socket.destroy());
+    this.sockets.clear();
+  }
+}
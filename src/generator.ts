@@ -2,8 +2,13 @@ import * as fs from 'fs';
 import * as path from 'path';
 import SwaggerParser from '@apidevtools/swagger-parser';
 import { OpenAPIV3 } from 'openapi-types';
-import type { RouteConfig, ControllerConfig } from './types.js';
+import type { RouteConfig, ControllerConfig, RouteModel } from './types.js';
 import pluralize from 'pluralize';
+import { buildQueryFilters } from './utils/query.js';
+import { buildPaginationOptions, unwrapEnvelope } from './utils/pagination.js';
+import { resolveRef } from './utils/openapi.js';
+import { mediaKind } from './utils/media.js';
+import { Logger } from './utils/logger.js';
 
 export class Generator {
   private specDir: string;
@@ -27,219 +32,7 @@ export class Generator {
   }
 
   private async generateApiFiles(api: OpenAPIV3.Document, specName: string): Promise<void> {
-    const routes: RouteConfig[] = [];
-    const controllers: ControllerConfig[] = [];
-    const pathToSchemaKey: Record<string, string> = {};
-
-    // Extract routes and controllers from paths
-    for (const [pathUrl, pathItem] of Object.entries(api.paths || {})) {
-      if (!pathItem) continue;
-
-      // Remove leading slash for consistency
-      const normalizedPath = pathUrl.startsWith('/') ? pathUrl.slice(1) : pathUrl;
-      const segments = normalizedPath.split('/');
-      // Find the base resource (e.g., 'products' in 'products/{productId}')
-      const baseResource = segments.find(seg => !seg.startsWith('{') && !seg.endsWith('}')) || segments[0];
-      const singularResource = pluralize.singular(baseResource);
-      const pluralResource = pluralize.plural(baseResource);
-
-      // Property endpoint detection: /resource/{id}/property
-      const isPropertyEndpoint = segments.length === 3 && segments[1].startsWith('{') && !segments[2].startsWith('{');
-      if (isPropertyEndpoint) {
-        // Map property endpoints to the parent resource schema key
-        const parentPath = segments.slice(0, 2).join('/'); // e.g., products/{productId}
-        const parentSchemaKey = pathToSchemaKey[parentPath] || pathToSchemaKey[baseResource] || pluralize.singular(baseResource.charAt(0).toUpperCase() + baseResource.slice(1));
-        pathToSchemaKey[normalizedPath] = parentSchemaKey;
-        console.log('[GENERATOR][DEBUG] Property endpoint detected, mapping', normalizedPath, 'to parent schemaKey:', parentSchemaKey);
-      } else {
-        // Debug: Start processing path
-        console.log('[GENERATOR][DEBUG] Processing path:', pathUrl, '| normalized:', normalizedPath);
-
-        // Try to find schema from GET response or POST requestBody
-        let schemaKey: string | null = null;
-        let inlineSchema: any = null;
-        let getOp = (pathItem.get || (pathItem as any)['get']) as OpenAPIV3.OperationObject | undefined;
-        let postOp = (pathItem.post || (pathItem as any)['post']) as OpenAPIV3.OperationObject | undefined;
-        // Prefer GET response for collections, POST requestBody for creation
-        if (getOp && getOp.responses) {
-          const resp = getOp.responses['200'] || getOp.responses['201'] || getOp.responses['default'];
-          if (resp && (resp as any).content && (resp as any).content['application/json']) {
-            const schema = (resp as any).content['application/json'].schema;
-            if (schema) {
-              // Debug: Show detected response schema
-              console.log('[GENERATOR][DEBUG] Response schema for', pathUrl, ':', JSON.stringify(schema));
-              // STRICT: Only use top-level array items or object for main resource
-              if ((schema as any).type === 'array' && (schema as any).items) {
-                const items = (schema as any).items;
-                if (items.$ref) {
-                  const match = items.$ref.match(/#\/components\/schemas\/(.+)$/);
-                  if (match) {
-                    schemaKey = match[1];
-                    console.log('[GENERATOR][DEBUG] Array items $ref detected, schemaKey:', schemaKey);
-                  }
-                } else if (items.type === 'object') {
-                  // Inline object schema for array items
-                  inlineSchema = items;
-                  console.log('[GENERATOR][DEBUG] Array items inline object detected');
-                }
-              } else if ((schema as any).$ref) {
-                // Top-level object $ref
-                const match = (schema as any).$ref.match(/#\/components\/schemas\/(.+)$/);
-                if (match) {
-                  schemaKey = match[1];
-                  console.log('[GENERATOR][DEBUG] Top-level object $ref detected, schemaKey:', schemaKey);
-                }
-              } else if ((schema as any).type === 'object') {
-                // Top-level inline object schema
-                inlineSchema = schema;
-                console.log('[GENERATOR][DEBUG] Top-level inline object detected');
-              }
-              // Do NOT traverse into nested properties (e.g., comments inside Post)
-            }
-          }
-        }
-        // If not found, try POST requestBody
-        if (!schemaKey && postOp && postOp.requestBody) {
-          const content = (postOp.requestBody as any).content;
-          if (content && content['application/json'] && content['application/json'].schema) {
-            const schema = content['application/json'].schema;
-            if (schema.$ref) {
-              const match = schema.$ref.match(/#\/components\/schemas\/(.+)$/);
-              if (match) {
-                schemaKey = match[1];
-                console.log('[GENERATOR][DEBUG] POST requestBody $ref detected, schemaKey:', schemaKey);
-              }
-            } else if (schema.type === 'object') {
-              inlineSchema = schema;
-              console.log('[GENERATOR][DEBUG] POST requestBody inline object detected');
-            }
-          }
-        }
-        // If still not found, try PUT requestBody (for item endpoints)
-        if (!schemaKey && pathItem.put && (pathItem.put as any).requestBody) {
-          const content = ((pathItem.put as any).requestBody as any).content;
-          if (content && content['application/json'] && content['application/json'].schema) {
-            const schema = content['application/json'].schema;
-            if (schema.$ref) {
-              const match = schema.$ref.match(/#\/components\/schemas\/(.+)$/);
-              if (match) {
-                schemaKey = match[1];
-                console.log('[GENERATOR][DEBUG] PUT requestBody $ref detected, schemaKey:', schemaKey);
-              }
-            } else if (schema.type === 'object') {
-              inlineSchema = schema;
-              console.log('[GENERATOR][DEBUG] PUT requestBody inline object detected');
-            }
-          }
-        }
-        // If inline schema, synthesize a singular schema key
-        if (!schemaKey && inlineSchema) {
-          // Use singular, capitalized baseResource for the key
-          schemaKey = pluralize.singular(baseResource.charAt(0).toUpperCase() + baseResource.slice(1));
-          // Add to components.schemas for mock data generator compatibility
-          if (!api.components) api.components = { schemas: {} };
-          if (!api.components.schemas) api.components.schemas = {};
-          if (!api.components.schemas[schemaKey]) {
-            api.components.schemas[schemaKey] = inlineSchema;
-          }
-          console.log('[GENERATOR][DEBUG] Synthesized inline schemaKey:', schemaKey);
-        }
-        if (schemaKey) {
-          // Always set the full normalizedPath and itemPath
-          pathToSchemaKey[normalizedPath] = schemaKey;
-          // Only set base/plural/singular if not already set
-          if (!pathToSchemaKey.hasOwnProperty(baseResource)) {
-            pathToSchemaKey[baseResource] = schemaKey;
-          } else {
-            console.log('[GENERATOR][DEBUG] Skipping baseResource mapping for', baseResource, 'already set to', pathToSchemaKey[baseResource]);
-          }
-          if (!pathToSchemaKey.hasOwnProperty(singularResource)) {
-            pathToSchemaKey[singularResource] = schemaKey;
-          } else {
-            console.log('[GENERATOR][DEBUG] Skipping singularResource mapping for', singularResource, 'already set to', pathToSchemaKey[singularResource]);
-          }
-          if (!pathToSchemaKey.hasOwnProperty(pluralResource)) {
-            pathToSchemaKey[pluralResource] = schemaKey;
-          } else {
-            console.log('[GENERATOR][DEBUG] Skipping pluralResource mapping for', pluralResource, 'already set to', pathToSchemaKey[pluralResource]);
-          }
-          // Also map item endpoints (e.g., products/{productId})
-          const itemPath = segments.length > 1 && segments[1].startsWith('{') ? `${baseResource}/{${segments[1].slice(1)}}` : null;
-          if (itemPath) {
-            pathToSchemaKey[itemPath] = schemaKey;
-          }
-          console.log('[GENERATOR][DEBUG] Final pathToSchemaKey mapping for', pathUrl, ':', schemaKey);
-        } else {
-          console.log('[GENERATOR][DEBUG] No schemaKey found for', pathUrl);
-        }
-
-        for (const [method, operation] of Object.entries(pathItem)) {
-          if (method === 'parameters' || !operation) continue;
-
-          const op = operation as OpenAPIV3.OperationObject;
-          const operationId = op.operationId || this.generateOperationId(method, pathUrl);
-          
-          const parameters = [
-            ...(pathItem.parameters || []) as OpenAPIV3.ParameterObject[],
-            ...(op.parameters || []) as OpenAPIV3.ParameterObject[]
-          ];
-
-          routes.push({
-            path: normalizedPath,
-            method,
-            operationId,
-            parameters,
-            requestBody: op.requestBody as OpenAPIV3.RequestBodyObject,
-            responses: op.responses
-          });
-
-          controllers.push({
-            operationId,
-            method,
-            parameters,
-            requestBody: op.requestBody as OpenAPIV3.RequestBodyObject,
-            responses: op.responses,
-            path: normalizedPath
-          });
-        }
-      }
-    }
-
-    // After collecting all routes/controllers, ensure property endpoint controllers are always generated
-    for (const [normalizedPath, schemaKey] of Object.entries(pathToSchemaKey)) {
-      const segments = normalizedPath.split('/');
-      const isPropertyEndpoint = segments.length === 3 && segments[1].startsWith('{') && !segments[2].startsWith('{');
-      if (isPropertyEndpoint) {
-        // Find or synthesize operationId
-        const baseResource = segments[0];
-        const property = segments[2];
-        const opId = `get${pluralize.singular(baseResource.charAt(0).toUpperCase() + baseResource.slice(1))}${property.charAt(0).toUpperCase() + property.slice(1)}`;
-        // Only add if not already present
-        if (!controllers.find(c => c.operationId === opId)) {
-          controllers.push({
-            operationId: opId,
-            method: 'get',
-            parameters: [
-              { name: segments[1].slice(1, -1), in: 'path', required: true, schema: { type: 'string' } }
-            ],
-            path: `/${normalizedPath}`,
-            responses: {},
-          });
-        }
-        // Also add to routes if not already present
-        if (!routes.find(r => r.operationId === opId)) {
-          routes.push({
-            path: normalizedPath,
-            method: 'get',
-            operationId: opId,
-            parameters: [
-              { name: segments[1].slice(1, -1), in: 'path', required: true, schema: { type: 'string' } }
-            ],
-            responses: {},
-          });
-        }
-      }
-    }
+    const { routes, controllers, pathToSchemaKey } = buildRouteModel(api);
 
     // Create directories
     const apiDir = path.join(this.outDir, specName);
@@ -247,23 +40,14 @@ export class Generator {
     fs.mkdirSync(path.join(apiDir, 'controllers'), { recursive: true });
 
     // Generate files
-    console.log('[DEBUG] Generating route file for', specName);
+    Logger.debug(`[Generator] Generating route file for ${specName}`);
     await this.generateRouteFile(routes, specName);
-    console.log('[DEBUG] Generating controller file for', specName, pathToSchemaKey);
+    Logger.debug(`[Generator] Generating controller file for ${specName}`, pathToSchemaKey);
     await this.generateControllers(controllers, specName, pathToSchemaKey);
   }
 
   private generateOperationId(method: string, pathUrl: string): string {
-    const segments = pathUrl.split('/').filter(Boolean);
-    const resource = segments[0];
-    const action = segments.length > 1 ? segments[1] : '';
-    
-    if (action.startsWith('{') && action.endsWith('}')) {
-      // Path has an ID parameter
-      return `${method}${resource}ById`;
-    }
-    
-    return `${method}${resource}${action ? action.charAt(0).toUpperCase() + action.slice(1) : ''}`;
+    return generateOperationId(method, pathUrl);
   }
 
   private async generateRouteFile(routes: RouteConfig[], specName: string): Promise<void> {
@@ -279,7 +63,7 @@ ${routes.map(route => {
 }).join('')}
 
 // Add property endpoint routes that may not be in the OpenAPI paths
-${Object.values(routes).filter(r => r.path.match(/\{[^}]+\}\/[^/]+$/)).map(route => {
+${Object.values(routes).filter(r => r.method === 'get' && r.path.match(/\{[^}]+\}\/[^/]+$/)).map(route => {
   const path = route.path.startsWith('/') ? route.path : '/' + route.path;
   const opId = toCamelCase(route.operationId);
   return `router.get('${path.replace(/\{([^}]+)\}/g, ':$1')}', controllers.${opId});`;
@@ -315,19 +99,27 @@ function detectIdField(resourceName: string, schema: any): string {
     // Inline the schemas object from the OpenAPI spec
     const api = await SwaggerParser.parse(path.join(this.specDir, specName + '.yaml')) as OpenAPIV3.Document;
     const schemasObj = api.components && api.components.schemas ? api.components.schemas : {};
-    const schemasInline = `const schemas: Record<string, any> = ${JSON.stringify(schemasObj, null, 2)};`;
+    const schemasInline = `const schemas: Record<string, any> = ${JSON.stringify(schemasObj, null, 2)};
+// Resolves the $refs of patched resources validated against their schema
+const schemasDocument = { components: { schemas } };`;
 
     const controllerContent = `
 ${detectIdFieldHelper}
 ${schemasInline}
 import type { Request, Response } from 'express';
 import db from '../../../src/db.js';
+import { Logger } from '../../../src/utils/logger.js';
+import { applyQueryFilters, type QueryFilter } from '../../../src/utils/query.js';
+import { sendPage, type PaginationOptions } from '../../../src/utils/pagination.js';
+import { checkPreconditions, sendItem, setValidators } from '../../../src/utils/conditional.js';
+import { isFileMetadata } from '../../../src/blobs.js';
+import { PatchError, patchMediaType, resourceValidator } from '../../../src/utils/patch.js';
 import pluralize from 'pluralize';
 
 const pathToSchemaKey: Record<string, string> = ${JSON.stringify(pathToSchemaKey, null, 2)};
 const specName = ${JSON.stringify(specName)};
 
-${controllers.map(controller => this.generateControllerFunction(controller, true, pathToSchemaKey, true)).join('\n\n')}
+${controllers.map(controller => this.generateControllerFunction(controller, true, pathToSchemaKey, true, schemasObj)).join('\n\n')}
 `;
 
     fs.writeFileSync(
@@ -336,7 +128,7 @@ ${controllers.map(controller => this.generateControllerFunction(controller, true
     );
   }
 
-  private generateControllerFunction(controller: ControllerConfig, useNamespace = false, pathToSchemaKey?: Record<string, string>, inlineSchemas = false): string {
+  private generateControllerFunction(controller: ControllerConfig, useNamespace = false, pathToSchemaKey?: Record<string, string>, inlineSchemas = false, schemas: Record<string, any> = {}): string {
     const pathParams = controller.parameters
       ?.filter(p => p.in === 'path')
       .map(p => p.name) || [];
@@ -373,7 +165,7 @@ ${controllers.map(controller => this.generateControllerFunction(controller, true
     // If the path is /resource/{id}/subresource, try to return the subresource property from the parent resource
     if (controller.method === 'get' && controller.path && controller.path.match(/\{[^}]+\}\/[^/]+$/)) {
       return `export const ${controller.operationId} = async (req: Request, res: Response) => {
-        console.log('[DEBUG] ROUTE HIT: ${controller.operationId}', req.method, req.originalUrl);
+        Logger.debug('[Controller] ROUTE HIT: ${controller.operationId} ' + req.method + ' ' + req.originalUrl);
         let key = Object.keys(pathToSchemaKey).find(k => req.route.path.includes(k.replace(/\{[^}]+\}/g, '')))
           || pluralize.singular(req.route.path.split('/')[1])
           || pluralize.plural(req.route.path.split('/')[1]);
@@ -387,7 +179,7 @@ ${controllers.map(controller => this.generateControllerFunction(controller, true
         const parent = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;
         // Extract subresource name from path
         const subresource = req.route.path.split('/').pop();
-        console.log('[DEBUG] Property endpoint:', { subresource, parentKeys: parent ? Object.keys(parent) : null });
+        Logger.debug('[Controller] Property endpoint', { subresource, parentKeys: parent ? Object.keys(parent) : null });
         if (parent && Object.prototype.hasOwnProperty.call(parent, subresource)) {
           res.json(parent[subresource]);
           return;
@@ -412,7 +204,7 @@ ${controllers.map(controller => this.generateControllerFunction(controller, true
     // GENERIC SINGLE RESOURCE LOOKUP
     if (controller.method === 'get' && controller.path && controller.path.match(/\{[^}]+\}$/)) {
       return `export const ${controller.operationId} = async (req: Request, res: Response) => {
-        console.log('[DEBUG] ROUTE HIT: ${controller.operationId}', req.method, req.originalUrl);
+        Logger.debug('[Controller] ROUTE HIT: ${controller.operationId} ' + req.method + ' ' + req.originalUrl);
         let key = Object.keys(pathToSchemaKey).find(k => req.route.path.includes(k.replace(/\{[^}]+\}/g, '')))
           || pluralize.singular(req.route.path.split('/')[1])
           || pluralize.plural(req.route.path.split('/')[1]);
@@ -428,13 +220,13 @@ ${controllers.map(controller => this.generateControllerFunction(controller, true
           res.status(404).json({ error: 'Not found' });
           return;
         }
-        res.json(data);
+        sendItem(req, res, data, db.lastModified(dbPath + '/' + id));
       };`;
     }
     // GENERIC PROPERTY LOOKUP (e.g., /resource/{id}/property)
     if (controller.method === 'get' && controller.path && controller.path.match(/\{[^}]+\}\/[^/]+$/)) {
       return `export const ${controller.operationId} = async (req: Request, res: Response) => {
-        console.log('[DEBUG] ROUTE HIT: ${controller.operationId}', req.method, req.originalUrl);
+        Logger.debug('[Controller] ROUTE HIT: ${controller.operationId} ' + req.method + ' ' + req.originalUrl);
         let key = Object.keys(pathToSchemaKey).find(k => req.route.path.includes(k.replace(/\{[^}]+\}/g, '')))
           || pluralize.singular(req.route.path.split('/')[1])
           || pluralize.plural(req.route.path.split('/')[1]);
@@ -452,7 +244,7 @@ ${controllers.map(controller => this.generateControllerFunction(controller, true
         }
         // Extract property name from path
         const property = req.route.path.split('/').pop();
-        console.log('[DEBUG] Property endpoint:', { subresource: property, parentKeys: parent ? Object.keys(parent) : null });
+        Logger.debug('[Controller] Property endpoint', { subresource: property, parentKeys: parent ? Object.keys(parent) : null });
         if (Object.prototype.hasOwnProperty.call(parent, property)) {
           res.json(parent[property]);
         } else {
@@ -460,56 +252,348 @@ ${controllers.map(controller => this.generateControllerFunction(controller, true
         }
       };`;
     }
+    // FILE UPLOAD TO A PROPERTY (e.g., PUT /resource/{id}/photo): the file metadata is stored in the parent
+    if ((controller.method === 'put' || controller.method === 'post') && controller.path && controller.path.match(/\{[^}]+\}\/[^/]+$/)) {
+      return `export const ${camelOpId} = async (req: Request, res: Response) => {
+  Logger.debug('[Controller] ROUTE HIT: ${camelOpId} ' + req.method + ' ' + req.originalUrl);
+${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;
+  const id = req.params.${pathParams[0]};
+  const dataArr = await db.get(dbPath);
+  const parent = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;
+  if (!parent) {
+    res.status(404).json({ error: 'Not found' });
+    return;
+  }
+  const file = isFileMetadata(req.body) ? req.body : Object.values(req.body || {}).find(isFileMetadata);
+  if (!file) {
+    res.status(400).json({ error: 'No file uploaded' });
+    return;
+  }
+  const property = req.route.path.split('/').pop();
+  await db.patch(dbPath + '/' + id, { [property]: file }, idField);
+  res.status(${controller.method === 'post' ? 201 : 200}).json(file);
+};`;
+    }
     switch (controller.method.toLowerCase()) {
       case 'get':
         if (pathParams.length > 0) {
           // Item endpoint
           return `export const ${camelOpId} = async (req: Request, res: Response) => {
-  console.log('[DEBUG] ROUTE HIT: ${camelOpId}', req.method, req.originalUrl);
+  Logger.debug('[Controller] ROUTE HIT: ${camelOpId} ' + req.method + ' ' + req.originalUrl);
 ${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;
   const dataArr = await db.get(dbPath);
   const id = req.params.${pathParams[0]};
   const data = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;
-  console.log('[DEBUG] ${camelOpId}', { schemaKey, dbPath, id, idField, found: !!data });
+  Logger.debug('[Controller] ${camelOpId}', { schemaKey, dbPath, id, idField, found: !!data });
   if (!data) {
     res.status(404).json({ error: 'Not found' });
     return;
   }
-  res.json(data);
+  sendItem(req, res, data, db.lastModified(dbPath + '/' + id));
 };`;
         }
-        // Collection endpoint
+        // Collection endpoint: filter on the query parameters declared in the spec, then sort and paginate
+        const filters = JSON.stringify(buildQueryFilters(controller.parameters || []));
+        const pagination = JSON.stringify(buildPaginationOptions(controller.parameters || [], controller.responses, schemas));
         return `export const ${camelOpId} = async (req: Request, res: Response) => {
-  console.log('[DEBUG] ROUTE HIT: ${camelOpId}', req.method, req.originalUrl);
-${schemaKeyLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;
-  const data = await db.get(dbPath);
-  console.log('[DEBUG] ${camelOpId}', { schemaKey, dbPath, found: Array.isArray(data) ? data.length : data });
-  res.json(data || []);
+  Logger.debug('[Controller] ROUTE HIT: ${camelOpId} ' + req.method + ' ' + req.originalUrl);
+${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;
+  const filters: QueryFilter[] = ${filters};
+  const data = applyQueryFilters(await db.get(dbPath) || [], req.query, filters, schema);
+  const pagination: PaginationOptions = ${pagination};
+  Logger.debug('[Controller] ${camelOpId}', { schemaKey, dbPath, found: Array.isArray(data) ? data.length : data });
+  sendPage(req, res, data || [], pagination);
 };`;
       case 'post':
-        const postCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  console.log('[DEBUG] ROUTE HIT: ${camelOpId}', req.method, req.originalUrl);\n  const data = await db.create(${nsPrefix}${getPathWithParams}, req.body);\n  res.status(201).json(data);\n};`;
-        console.log('[DEBUG] Generating POST controller', camelOpId, postCode);
+        const postCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  Logger.debug('[Controller] ROUTE HIT: ${camelOpId} ' + req.method + ' ' + req.originalUrl);\n  const data = await db.create(${nsPrefix}${getPathWithParams}, req.body);\n  res.status(201).json(data);\n};`;
+        Logger.debug(`[Generator] Generating POST controller ${camelOpId}`);
         return postCode;
       case 'put':
-        const putCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  console.log('[DEBUG] ROUTE HIT: ${camelOpId}', req.method, req.originalUrl);\n${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;\n  const id = req.params.${pathParams[0]};\n  let dataArr = await db.get(dbPath);\n  let data = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;\n  if (!data) {\n    res.status(404).json({ error: 'Not found' });\n    return;\n  }\n  data = await db.update(${nsPrefix}${getPathWithParams}, req.body);\n  res.json(data);\n};`;
-        console.log('[DEBUG] Generating PUT controller', camelOpId, putCode);
+        const putCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  Logger.debug('[Controller] ROUTE HIT: ${camelOpId} ' + req.method + ' ' + req.originalUrl);\n${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;\n  const id = req.params.${pathParams[0]};\n  let dataArr = await db.get(dbPath);\n  let data = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;\n  if (!data) {\n    res.status(404).json({ error: 'Not found' });\n    return;\n  }\n  if (!checkPreconditions(req, res, data, db.lastModified(dbPath + '/' + id))) return;\n  data = await db.update(${nsPrefix}${getPathWithParams}, req.body);\n  setValidators(res, data, db.lastModified(dbPath + '/' + id));\n  res.json(data);\n};`;
+        Logger.debug(`[Generator] Generating PUT controller ${camelOpId}`);
         return putCode;
       case 'patch':
-        const patchCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  console.log('[DEBUG] ROUTE HIT: ${camelOpId}', req.method, req.originalUrl);\n${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;\n  const id = req.params.${pathParams[0]};\n  let dataArr = await db.get(dbPath);\n  let data = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;\n  if (!data) {\n    res.status(404).json({ error: 'Not found' });\n    return;\n  }\n  data = await db.patch(${nsPrefix}${getPathWithParams}, req.body);\n  res.json(data);\n};`;
-        console.log('[DEBUG] Generating PATCH controller', camelOpId, patchCode);
+        const patchCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  Logger.debug('[Controller] ROUTE HIT: ${camelOpId} ' + req.method + ' ' + req.originalUrl);\n${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;\n  const id = req.params.${pathParams[0]};\n  let dataArr = await db.get(dbPath);\n  let data = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;\n  if (!data) {\n    res.status(404).json({ error: 'Not found' });\n    return;\n  }\n  if (!checkPreconditions(req, res, data, db.lastModified(dbPath + '/' + id))) return;\n  const contentType = req.headers['content-type'];\n  const validate = schema && patchMediaType(contentType) ? resourceValidator(schema, schemasDocument) : undefined;\n  try {\n    data = await db.patch(${nsPrefix}${getPathWithParams}, req.body, idField, { contentType, validate });\n  } catch (error) {\n    if (!(error instanceof PatchError)) throw error;\n    res.status(error.status).json({ error: error.message, details: error.details });\n    return;\n  }\n  setValidators(res, data, db.lastModified(dbPath + '/' + id));\n  res.json(data);\n};`;
+        Logger.debug(`[Generator] Generating PATCH controller ${camelOpId}`);
         return patchCode;
       case 'delete':
-        const deleteCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  console.log('[DEBUG] ROUTE HIT: ${camelOpId}', req.method, req.originalUrl);\n${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;\n  const id = req.params.${pathParams[0]};\n  let dataArr = await db.get(dbPath);\n  let data = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;\n  if (!data) {\n    res.status(404).json({ error: 'Not found' });\n    return;\n  }\n  await db.delete(${nsPrefix}${getPathWithParams});\n  res.status(204).send();\n};`;
-        console.log('[DEBUG] Generating DELETE controller', camelOpId, deleteCode);
+        const deleteCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  Logger.debug('[Controller] ROUTE HIT: ${camelOpId} ' + req.method + ' ' + req.originalUrl);\n${schemaKeyLogic}${idFieldLogic}  const dbPath = \`${'${specName}/'}\` + schemaKey;\n  const id = req.params.${pathParams[0]};\n  let dataArr = await db.get(dbPath);\n  let data = dataArr && Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;\n  if (!data) {\n    res.status(404).json({ error: 'Not found' });\n    return;\n  }\n  if (!checkPreconditions(req, res, data, db.lastModified(dbPath + '/' + id))) return;\n  await db.delete(${nsPrefix}${getPathWithParams});\n  res.status(204).send();\n};`;
+        Logger.debug(`[Generator] Generating DELETE controller ${camelOpId}`);
         return deleteCode;
       default:
-        const defaultCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  console.log('[DEBUG] ROUTE HIT: ${camelOpId}', req.method, req.originalUrl);\n  res.status(501).json({ error: 'Not implemented' });\n};`;
-        console.log('[DEBUG] Generating DEFAULT controller', camelOpId, defaultCode);
+        const defaultCode = `export const ${camelOpId} = async (req: Request, res: Response) => {\n  Logger.debug('[Controller] ROUTE HIT: ${camelOpId} ' + req.method + ' ' + req.originalUrl);\n  res.status(501).json({ error: 'Not implemented' });\n};`;
+        Logger.debug(`[Generator] Generating DEFAULT controller ${camelOpId}`);
         return defaultCode;
     }
   }
 }
 
+/**
+ * Build the routes, controllers and path-to-schema-key mapping for an OpenAPI document.
+ * Shared by the code generator and the in-memory runtime router so both expose the same CRUD semantics.
+ * Inline resource schemas are registered under a synthesized key in `api.components.schemas`.
+ * @param api - The parsed OpenAPI document
+ * @returns The route model for the spec
+ */
+export function buildRouteModel(api: OpenAPIV3.Document): RouteModel {
+  const routes: RouteConfig[] = [];
+  const controllers: ControllerConfig[] = [];
+  const pathToSchemaKey: Record<string, string> = {};
+
+  // Extract routes and controllers from paths
+  for (const [pathUrl, pathItem] of Object.entries(api.paths || {})) {
+    if (!pathItem) continue;
+
+    // Remove leading slash for consistency
+    const normalizedPath = pathUrl.startsWith('/') ? pathUrl.slice(1) : pathUrl;
+    const segments = normalizedPath.split('/');
+    // Find the base resource (e.g., 'products' in 'products/{productId}')
+    const baseResource = segments.find(seg => !seg.startsWith('{') && !seg.endsWith('}')) || segments[0];
+    const singularResource = pluralize.singular(baseResource);
+    const pluralResource = pluralize.plural(baseResource);
+
+    // Property endpoint detection: /resource/{id}/property
+    const isPropertyEndpoint = segments.length === 3 && segments[1].startsWith('{') && !segments[2].startsWith('{');
+    if (isPropertyEndpoint) {
+      // Map property endpoints to the parent resource schema key
+      const parentPath = segments.slice(0, 2).join('/'); // e.g., products/{productId}
+      const parentSchemaKey = pathToSchemaKey[parentPath] || pathToSchemaKey[baseResource] || pluralize.singular(baseResource.charAt(0).toUpperCase() + baseResource.slice(1));
+      pathToSchemaKey[normalizedPath] = parentSchemaKey;
+      Logger.debug(`[Generator] Property endpoint detected, mapping ${normalizedPath} to parent schemaKey: ${parentSchemaKey}`);
+      // Declared multipart or binary writes to a property are file uploads, stored in the parent record
+      for (const method of ['put', 'post'] as const) {
+        const op = pathItem[method];
+        if (!op || !isUploadOperation(api, op)) continue;
+        const operationId = op.operationId || `${method}${pluralize.singular(baseResource.charAt(0).toUpperCase() + baseResource.slice(1))}${segments[2].charAt(0).toUpperCase() + segments[2].slice(1)}`;
+        const parameters = [
+          ...(pathItem.parameters || []) as OpenAPIV3.ParameterObject[],
+          ...(op.parameters || []) as OpenAPIV3.ParameterObject[]
+        ];
+        routes.push({ path: normalizedPath, method, operationId, parameters, requestBody: op.requestBody as OpenAPIV3.RequestBodyObject, responses: op.responses });
+        controllers.push({ operationId, method, parameters, requestBody: op.requestBody as OpenAPIV3.RequestBodyObject, responses: op.responses, path: normalizedPath });
+      }
+    } else {
+      // Debug: Start processing path
+      Logger.debug(`[Generator] Processing path: ${pathUrl} | normalized: ${normalizedPath}`);
+
+      // Try to find schema from GET response or POST requestBody
+      let schemaKey: string | null = null;
+      let inlineSchema: any = null;
+      let getOp = (pathItem.get || (pathItem as any)['get']) as OpenAPIV3.OperationObject | undefined;
+      let postOp = (pathItem.post || (pathItem as any)['post']) as OpenAPIV3.OperationObject | undefined;
+      // Prefer GET response for collections, POST requestBody for creation
+      if (getOp && getOp.responses) {
+        const resp = getOp.responses['200'] || getOp.responses['201'] || getOp.responses['default'];
+        if (resp && (resp as any).content && (resp as any).content['application/json']) {
+          let schema = (resp as any).content['application/json'].schema;
+          // Collections wrapped in an envelope ({ data: [...], meta }) map to the wrapped items
+          if (schema && !segments[segments.length - 1].startsWith('{')) {
+            schema = unwrapEnvelope(schema, (api.components && api.components.schemas) || {});
+          }
+          if (schema) {
+            // Debug: Show detected response schema
+            Logger.debug(`[Generator] Response schema for ${pathUrl}: ${JSON.stringify(schema)}`);
+            // STRICT: Only use top-level array items or object for main resource
+            if ((schema as any).type === 'array' && (schema as any).items) {
+              const items = (schema as any).items;
+              if (items.$ref) {
+                const match = items.$ref.match(/#\/components\/schemas\/(.+)$/);
+                if (match) {
+                  schemaKey = match[1];
+                  Logger.debug(`[Generator] Array items $ref detected, schemaKey: ${schemaKey}`);
+                }
+              } else if (items.type === 'object') {
+                // Inline object schema for array items
+                inlineSchema = items;
+                Logger.debug('[Generator] Array items inline object detected');
+              }
+            } else if ((schema as any).$ref) {
+              // Top-level object $ref
+              const match = (schema as any).$ref.match(/#\/components\/schemas\/(.+)$/);
+              if (match) {
+                schemaKey = match[1];
+                Logger.debug(`[Generator] Top-level object $ref detected, schemaKey: ${schemaKey}`);
+              }
+            } else if ((schema as any).type === 'object') {
+              // Top-level inline object schema
+              inlineSchema = schema;
+              Logger.debug('[Generator] Top-level inline object detected');
+            }
+            // Do NOT traverse into nested properties (e.g., comments inside Post)
+          }
+        }
+      }
+      // If not found, try POST requestBody
+      if (!schemaKey && postOp && postOp.requestBody) {
+        const content = (postOp.requestBody as any).content;
+        if (content && content['application/json'] && content['application/json'].schema) {
+          const schema = content['application/json'].schema;
+          if (schema.$ref) {
+            const match = schema.$ref.match(/#\/components\/schemas\/(.+)$/);
+            if (match) {
+              schemaKey = match[1];
+              Logger.debug(`[Generator] POST requestBody $ref detected, schemaKey: ${schemaKey}`);
+            }
+          } else if (schema.type === 'object') {
+            inlineSchema = schema;
+            Logger.debug('[Generator] POST requestBody inline object detected');
+          }
+        }
+      }
+      // If still not found, try PUT requestBody (for item endpoints)
+      if (!schemaKey && pathItem.put && (pathItem.put as any).requestBody) {
+        const content = ((pathItem.put as any).requestBody as any).content;
+        if (content && content['application/json'] && content['application/json'].schema) {
+          const schema = content['application/json'].schema;
+          if (schema.$ref) {
+            const match = schema.$ref.match(/#\/components\/schemas\/(.+)$/);
+            if (match) {
+              schemaKey = match[1];
+              Logger.debug(`[Generator] PUT requestBody $ref detected, schemaKey: ${schemaKey}`);
+            }
+          } else if (schema.type === 'object') {
+            inlineSchema = schema;
+            Logger.debug('[Generator] PUT requestBody inline object detected');
+          }
+        }
+      }
+      // If inline schema, synthesize a singular schema key
+      if (!schemaKey && inlineSchema) {
+        // Use singular, capitalized baseResource for the key
+        schemaKey = pluralize.singular(baseResource.charAt(0).toUpperCase() + baseResource.slice(1));
+        // Add to components.schemas for mock data generator compatibility
+        if (!api.components) api.components = { schemas: {} };
+        if (!api.components.schemas) api.components.schemas = {};
+        if (!api.components.schemas[schemaKey]) {
+          api.components.schemas[schemaKey] = inlineSchema;
+        }
+        Logger.debug(`[Generator] Synthesized inline schemaKey: ${schemaKey}`);
+      }
+      if (schemaKey) {
+        // Always set the full normalizedPath and itemPath
+        pathToSchemaKey[normalizedPath] = schemaKey;
+        // Only set base/plural/singular if not already set
+        if (!pathToSchemaKey.hasOwnProperty(baseResource)) {
+          pathToSchemaKey[baseResource] = schemaKey;
+        } else {
+          Logger.debug(`[Generator] Skipping baseResource mapping for ${baseResource}, already set to ${pathToSchemaKey[baseResource]}`);
+        }
+        if (!pathToSchemaKey.hasOwnProperty(singularResource)) {
+          pathToSchemaKey[singularResource] = schemaKey;
+        } else {
+          Logger.debug(`[Generator] Skipping singularResource mapping for ${singularResource}, already set to ${pathToSchemaKey[singularResource]}`);
+        }
+        if (!pathToSchemaKey.hasOwnProperty(pluralResource)) {
+          pathToSchemaKey[pluralResource] = schemaKey;
+        } else {
+          Logger.debug(`[Generator] Skipping pluralResource mapping for ${pluralResource}, already set to ${pathToSchemaKey[pluralResource]}`);
+        }
+        // Also map item endpoints (e.g., products/{productId})
+        const itemPath = segments.length > 1 && segments[1].startsWith('{') ? `${baseResource}/{${segments[1].slice(1)}}` : null;
+        if (itemPath) {
+          pathToSchemaKey[itemPath] = schemaKey;
+        }
+        Logger.debug(`[Generator] Final pathToSchemaKey mapping for ${pathUrl}: ${schemaKey}`);
+      } else {
+        Logger.debug(`[Generator] No schemaKey found for ${pathUrl}`);
+      }
+
+      for (const [method, operation] of Object.entries(pathItem)) {
+        if (method === 'parameters' || !operation) continue;
+
+        const op = operation as OpenAPIV3.OperationObject;
+        const operationId = op.operationId || generateOperationId(method, pathUrl);
+        
+        const parameters = [
+          ...(pathItem.parameters || []) as OpenAPIV3.ParameterObject[],
+          ...(op.parameters || []) as OpenAPIV3.ParameterObject[]
+        ];
+
+        routes.push({
+          path: normalizedPath,
+          method,
+          operationId,
+          parameters,
+          requestBody: op.requestBody as OpenAPIV3.RequestBodyObject,
+          responses: op.responses
+        });
+
+        controllers.push({
+          operationId,
+          method,
+          parameters,
+          requestBody: op.requestBody as OpenAPIV3.RequestBodyObject,
+          responses: op.responses,
+          path: normalizedPath
+        });
+      }
+    }
+  }
+
+  // After collecting all routes/controllers, ensure property endpoint controllers are always generated
+  for (const [normalizedPath, schemaKey] of Object.entries(pathToSchemaKey)) {
+    const segments = normalizedPath.split('/');
+    const isPropertyEndpoint = segments.length === 3 && segments[1].startsWith('{') && !segments[2].startsWith('{');
+    if (isPropertyEndpoint) {
+      // Find or synthesize operationId
+      const baseResource = segments[0];
+      const property = segments[2];
+      const opId = `get${pluralize.singular(baseResource.charAt(0).toUpperCase() + baseResource.slice(1))}${property.charAt(0).toUpperCase() + property.slice(1)}`;
+      // Only add if not already present
+      if (!controllers.find(c => c.operationId === opId)) {
+        controllers.push({
+          operationId: opId,
+          method: 'get',
+          parameters: [
+            { name: segments[1].slice(1, -1), in: 'path', required: true, schema: { type: 'string' } }
+          ],
+          path: `/${normalizedPath}`,
+          responses: {},
+        });
+      }
+      // Also add to routes if not already present
+      if (!routes.find(r => r.operationId === opId)) {
+        routes.push({
+          path: normalizedPath,
+          method: 'get',
+          operationId: opId,
+          parameters: [
+            { name: segments[1].slice(1, -1), in: 'path', required: true, schema: { type: 'string' } }
+          ],
+          responses: {},
+        });
+      }
+    }
+  }
+
+  return { routes, controllers, pathToSchemaKey };
+}
+
+/**
+ * Tell whether an operation accepts a file: a multipart form or a binary body (e.g. `image/png`).
+ */
+function isUploadOperation(api: OpenAPIV3.Document, op: OpenAPIV3.OperationObject): boolean {
+  const requestBody = resolveRef<OpenAPIV3.RequestBodyObject>(api, op.requestBody);
+  return Object.keys(requestBody?.content || {})
+    .some(type => type !== 'application/x-www-form-urlencoded' && mediaKind(type) === undefined);
+}
+
+/**
+ * Generate an operationId for operations that do not declare one (e.g. GET /users/{id} -> getusersById).
+ */
+export function generateOperationId(method: string, pathUrl: string): string {
+  const segments = pathUrl.split('/').filter(Boolean);
+  const resource = segments[0];
+  const action = segments.length > 1 ? segments[1] : '';
+  
+  if (action.startsWith('{') && action.endsWith('}')) {
+    // Path has an ID parameter
+    return `${method}${resource}ById`;
+  }
+  
+  return `${method}${resource}${action ? action.charAt(0).toUpperCase() + action.slice(1) : ''}`;
+}
+
 // Helper to camelCase a string (e.g., getusers -> getUsers, get_users -> getUsers)
 function toCamelCase(str: string): string {
   return str.replace(/[-_\s]+(.)?/g, (_, c) => c ? c.toUpperCase() : '')
@@ -517,7 +601,7 @@ function toCamelCase(str: string): string {
 }
 
 // 1. Helper: Detect the primary ID field for a schema (id, {resourceName}Id, etc.)
-function detectIdField(resourceName: string, schema: any): string {
+export function detectIdField(resourceName: string, schema: any): string {
   if (!schema || !schema.properties) return 'id';
   if (schema.properties.id) return 'id';
   const camel = resourceName.charAt(0).toLowerCase() + resourceName.slice(1) + 'Id';
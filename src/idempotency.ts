@@ -0,0 +1,128 @@
+import type express from 'express';
+import { createHash } from 'crypto';
+import type { OperationContext } from './types.js';
+import { Logger } from './utils/logger.js';
+
+/**
+ * Request header carrying the idempotency key.
+ */
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+/**
+ * Response header set on replayed responses.
+ */
+export const REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const UNSAFE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Set by Node or Express for every response, so never replayed
+const TRANSIENT_HEADERS = ['date', 'connection', 'keep-alive', 'transfer-encoding', 'content-length', 'x-powered-by'];
+
+interface StoredResponse {
+  fingerprint: string;
+  expiresAt: number;
+  /** Undefined while the first request is still being handled. */
+  response?: { status: number; headers: Record<string, any>; body: any };
+}
+
+/**
+ * Idempotency honours the `Idempotency-Key` header on unsafe requests to operations declaring
+ * `x-idempotent` (`true`, or `{ ttl: <seconds> }`). The first response for a key is stored with a
+ * fingerprint of the request and replayed for repeats; reusing a key for a different request gets
+ * a 422, and repeating one that is still being handled a 409. 5XX responses are not stored, so a
+ * failed request can be retried with the same key.
+ */
+export class Idempotency {
+  private entries = new Map<string, StoredResponse>();
+  private ttl: number;
+  private scopeOf: (req: express.Request) => string | undefined;
+
+  /**
+   * @param {number} [ttl] - Seconds a stored response is replayed for, unless the operation sets its own.
+   * @param {(req: express.Request) => string | undefined} [scopeOf] - Names the client space keys live in (e.g. the data session).
+   */
+  constructor(ttl = 86400, scopeOf: (req: express.Request) => string | undefined = () => undefined) {
+    this.ttl = ttl;
+    this.scopeOf = scopeOf;
+  }
+
+  /**
+   * Forget every stored response.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Express middleware replaying or storing responses for idempotent requests.
+   * @returns Express middleware
+   */
+  middleware(): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      const setting = ctx && ctx.operation ? (ctx.operation as any)['x-idempotent'] : undefined;
+      const header = req.headers[IDEMPOTENCY_HEADER];
+      const key = Array.isArray(header) ? header[0] : header;
+      if (!ctx || !setting || !key || !UNSAFE_METHODS.includes(req.method)) return next();
+
+      this.sweep();
+      const id = JSON.stringify([ctx.specName, this.scopeOf(req) || '', key]);
+      const fingerprint = createHash('sha256')
+        .update(JSON.stringify([req.method, req.originalUrl, req.body === undefined ? null : req.body]))
+        .digest('hex');
+      const entry = this.entries.get(id);
+
+      if (entry) {
+        if (entry.fingerprint !== fingerprint) {
+          res.status(422).json({ error: 'Idempotency-Key was already used for a different request' });
+          return;
+        }
+        if (!entry.response) {
+          res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+          return;
+        }
+        Logger.info(`[Idempotency] Replaying ${req.method} ${ctx.path} for key ${key}`);
+        res.status(entry.response.status).set(entry.response.headers).set(REPLAYED_HEADER, 'true');
+        res.send(entry.response.body);
+        return;
+      }
+
+      const ttl = typeof setting === 'object' && typeof setting.ttl === 'number' ? setting.ttl : this.ttl;
+      const stored: StoredResponse = { fingerprint, expiresAt: Date.now() + ttl * 1000 };
+      this.entries.set(id, stored);
+
+      let body: any;
+      const originalSend = res.send.bind(res);
+      res.send = (chunk?: any) => {
+        body = chunk;
+        return originalSend(chunk);
+      };
+      res.on('finish', () => {
+        if (res.statusCode >= 500) {
+          this.entries.delete(id);
+          return;
+        }
+        const headers: Record<string, any> = {};
+        for (const [name, value] of Object.entries(res.getHeaders())) {
+          if (!TRANSIENT_HEADERS.includes(name)) headers[name] = value;
+        }
+        stored.response = { status: res.statusCode, headers, body };
+      });
+      // Aborted before a response was sent: the key can be used again
+      res.on('close', () => {
+        if (!res.writableFinished && this.entries.get(id) === stored) this.entries.delete(id);
+      });
+      next();
+    };
+  }
+
+  /**
+   * Drop expired responses.
+   */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(id);
+    }
+  }
+}
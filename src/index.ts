@@ -1,16 +1,25 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import * as path from 'path';
 import { Generator } from './generator.js';
 import { MockGenerator } from './mock.js';
 import { Server } from './server.js';
+import { importRecordings } from './recordings.js';
+import { readConfigFile } from './utils/file.js';
+import { LOG_FORMAT_ENV, LOG_FORMATS, LOG_LEVEL_ENV, LOG_LEVELS, Logger } from './utils/logger.js';
 
 const program = new Command();
 
 program
   .name('fake-api')
   .description('Generate and run mock APIs from OpenAPI/Swagger specifications')
-  .version('1.0.0');
+  .version('1.0.0')
+  .addOption(new Option('--log-level <level>', 'Only log messages at or above this level').choices(LOG_LEVELS).env(LOG_LEVEL_ENV))
+  .addOption(new Option('--log-format <format>', 'Log as coloured text or as JSON lines').choices(LOG_FORMATS).env(LOG_FORMAT_ENV))
+  .hook('preAction', () => {
+    const { logLevel, logFormat } = program.opts();
+    Logger.configure({ level: logLevel, format: logFormat });
+  });
 
 program
   .command('generate')
@@ -23,7 +32,7 @@ program
       path.resolve(process.cwd(), options.outDir)
     );
     await generator.generate();
-    console.log('✨ Generated API routes and controllers');
+    Logger.success('✨ Generated API routes and controllers');
   });
 
 program
@@ -37,7 +46,7 @@ program
       path.resolve(process.cwd(), options.outDir)
     );
     await mockGenerator.generate();
-    console.log('✨ Generated mock data');
+    Logger.success('✨ Generated mock data');
   });
 
 program
@@ -46,13 +55,71 @@ program
   .option('-s, --spec-dir <dir>', 'Directory containing Swagger specs', 'swagger')
   .option('-o, --out-dir <dir>', 'Directory containing generated files', 'generated')
   .option('-p, --port <number>', 'Port to run the server on', '3000')
+  .option('--strict', 'Reject responses that do not match the spec with a 500 and a diff')
+  .option('--warn', 'Log responses that do not match the spec')
+  .option('--runtime', 'Serve routes built in memory from the specs, ignoring generated code')
+  .option('-w, --watch', 'Reload specs and db.json when they change')
+  .option('--static', 'Answer operations with their documented examples instead of the database')
+  .option('--chaos <file>', 'Inject latency and faults as configured in a JSON or YAML file')
+  .option('--auth <file>', 'Accepted tokens, API keys and users for securitySchemes (JSON or YAML)')
+  .option('--no-auth', 'Do not enforce securitySchemes')
+  .option('--scenarios <file>', 'Stateful scenarios (states and transitions) from a JSON or YAML file')
+  .option('--proxy <upstream>', 'Forward operations that are not mocked to this base URL, and record the exchanges')
+  .option('--proxy-all', 'Forward every operation to the --proxy upstream')
+  .option('--replay', 'Answer requests with their recorded responses where available')
+  .option('--recordings <dir>', 'Directory of proxy recordings (defaults to <out-dir>/recordings)')
+  .option('--journal <file>', 'Append every request and response to this JSONL file')
+  .option('--journal-limit <number>', 'Number of requests kept in the in-memory journal', '1000')
+  .option('--webhooks <file>', 'Retry settings and target URLs for callbacks and webhooks (JSON or YAML)')
+  .option('--session-ttl <seconds>', 'Expire X-Mock-Session data sessions after this much inactivity', '1800')
+  .option('--idempotency-ttl <seconds>', 'Replay responses stored for an Idempotency-Key for this long', '86400')
+  .addOption(new Option('--routing <mode>', 'Match server URLs by path only, or by host and path (virtual hosts)').choices(['path', 'host']).default('path'))
+  .option('--mounts <file>', 'Per-spec base paths, hosts and server variables (JSON or YAML)')
   .action(async (options) => {
     const server = new Server(
       path.resolve(process.cwd(), options.specDir),
       path.resolve(process.cwd(), options.outDir),
-      parseInt(options.port, 10)
+      parseInt(options.port, 10),
+      {
+        responseValidation: options.strict ? 'strict' : options.warn ? 'warn' : 'off',
+        runtime: !!options.runtime,
+        watch: !!options.watch,
+        static: !!options.static,
+        chaos: options.chaos ? readConfigFile(path.resolve(process.cwd(), options.chaos)) : undefined,
+        security: options.auth === false ? false
+          : typeof options.auth === 'string' ? readConfigFile(path.resolve(process.cwd(), options.auth)) : {},
+        sessionTtl: parseInt(options.sessionTtl, 10),
+        scenarios: options.scenarios ? readConfigFile(path.resolve(process.cwd(), options.scenarios)) : undefined,
+        proxy: options.proxy,
+        proxyAll: !!options.proxyAll,
+        replay: !!options.replay,
+        recordingsDir: options.recordings ? path.resolve(process.cwd(), options.recordings) : undefined,
+        journalFile: options.journal ? path.resolve(process.cwd(), options.journal) : undefined,
+        journalLimit: parseInt(options.journalLimit, 10),
+        webhooks: options.webhooks ? readConfigFile(path.resolve(process.cwd(), options.webhooks)) : undefined,
+        idempotencyTtl: parseInt(options.idempotencyTtl, 10),
+        routing: options.routing,
+        mounts: options.mounts ? readConfigFile(path.resolve(process.cwd(), options.mounts)) : undefined,
+      }
     );
     await server.start();
   });
 
+program
+  .command('import-recordings')
+  .description('Import the payloads recorded in proxy mode into the mock data (db.json)')
+  .option('-s, --spec-dir <dir>', 'Directory containing Swagger specs', 'swagger')
+  .option('-o, --out-dir <dir>', 'Directory containing db.json', 'generated')
+  .option('--recordings <dir>', 'Directory of proxy recordings (defaults to <out-dir>/recordings)')
+  .action(async (options) => {
+    const outDir = path.resolve(process.cwd(), options.outDir);
+    const counts = await importRecordings(
+      path.resolve(process.cwd(), options.specDir),
+      outDir,
+      options.recordings ? path.resolve(process.cwd(), options.recordings) : path.join(outDir, 'recordings')
+    );
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    Logger.success(`✨ Imported ${total} recorded item(s)`);
+  });
+
 program.parse(); 
\ No newline at end of file
@@ -0,0 +1,203 @@
+import type express from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { OperationContext } from './types.js';
+import { generateOperationId } from './generator.js';
+import { Logger } from './utils/logger.js';
+
+/**
+ * A request and its response, as recorded in the journal.
+ */
+export interface JournalEntry {
+  id: number;
+  timestamp: string;
+  spec?: string;
+  method: string;
+  /** The request URL relative to the spec mount, including the query string. */
+  url: string;
+  /** The OpenAPI path template of the operation. */
+  path?: string;
+  operationId?: string;
+  request: { headers: Record<string, string>; query: Record<string, any>; body?: any };
+  response: { status: number; headers: Record<string, string>; body?: any };
+  durationMs: number;
+}
+
+/**
+ * Criteria selecting journal entries; every given criterion must match.
+ */
+export interface RequestMatcher {
+  spec?: string;
+  method?: string;
+  /** A path template (`/posts/{id}`) or a concrete path (`/posts/1`). */
+  path?: string;
+  operationId?: string;
+  /** Header values, compared case-insensitively by name. */
+  headers?: Record<string, string>;
+  query?: Record<string, any>;
+  /** Fields the request body must contain, compared deeply. */
+  body?: any;
+  /** Response status. */
+  status?: number;
+}
+
+/**
+ * Check whether a value contains every field of the expected value (arrays must match element-wise).
+ */
+function containsFields(actual: any, expected: any): boolean {
+  if (expected === null || typeof expected !== 'object') return actual === expected;
+  if (actual === null || typeof actual !== 'object') return false;
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length && expected.every((item, i) => containsFields(actual[i], item));
+  }
+  return Object.entries(expected).every(([key, value]) => containsFields(actual[key], value));
+}
+
+/**
+ * Check whether a journal entry satisfies a matcher.
+ * @param entry - The journal entry
+ * @param matcher - The criteria
+ * @returns True if every given criterion matches
+ */
+export function matchesRequest(entry: JournalEntry, matcher: RequestMatcher): boolean {
+  if (matcher.spec && matcher.spec !== entry.spec) return false;
+  if (matcher.method && matcher.method.toUpperCase() !== entry.method) return false;
+  if (matcher.operationId && matcher.operationId !== entry.operationId) return false;
+  if (matcher.status !== undefined && matcher.status !== entry.response.status) return false;
+  if (matcher.path && matcher.path !== entry.path && matcher.path !== entry.url.split('?')[0]) return false;
+  for (const [name, value] of Object.entries(matcher.headers || {})) {
+    if (entry.request.headers[name.toLowerCase()] !== String(value)) return false;
+  }
+  for (const [name, value] of Object.entries(matcher.query || {})) {
+    if (!containsFields(entry.request.query[name], value)) return false;
+  }
+  return matcher.body === undefined || containsFields(entry.request.body, matcher.body);
+}
+
+/**
+ * Normalise headers to a name/value map with lower-case names.
+ */
+function flattenHeaders(headers: Record<string, any>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return result;
+}
+
+/**
+ * RequestJournal records every request to the mounted specs with its response, in memory and
+ * optionally appended to a JSONL file, so tests can verify which calls were made.
+ */
+export class RequestJournal {
+  private entries: JournalEntry[] = [];
+  private nextId = 1;
+  private file?: string;
+  private limit: number;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param {string} [file] - JSONL file every entry is appended to.
+   * @param {number} [limit] - Number of entries kept in memory; the oldest are dropped first.
+   */
+  constructor(file?: string, limit = 1000) {
+    this.file = file;
+    this.limit = limit;
+  }
+
+  /**
+   * Add an entry to the journal and the file sink.
+   * @param {Omit<JournalEntry, 'id'>} entry - The entry, without its id.
+   * @returns {JournalEntry} The recorded entry.
+   */
+  record(entry: Omit<JournalEntry, 'id'>): JournalEntry {
+    const recorded = { id: this.nextId++, ...entry };
+    this.entries.push(recorded);
+    if (this.entries.length > this.limit) this.entries.splice(0, this.entries.length - this.limit);
+    if (this.file) {
+      const file = this.file;
+      this.writing = this.writing.then(async () => {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.appendFile(file, JSON.stringify(recorded) + '\n');
+      }).catch(error => Logger.error(`[Journal] Could not write ${file}: ${error}`));
+    }
+    return recorded;
+  }
+
+  /**
+   * Get the recorded entries, optionally only those matching.
+   * @param {RequestMatcher} [matcher] - The criteria.
+   * @returns {JournalEntry[]} The entries, oldest first.
+   */
+  find(matcher: RequestMatcher = {}): JournalEntry[] {
+    return this.entries.filter(entry => matchesRequest(entry, matcher));
+  }
+
+  /**
+   * Count the recorded entries matching.
+   * @param {RequestMatcher} [matcher] - The criteria.
+   * @returns {number} The number of matching entries.
+   */
+  count(matcher: RequestMatcher = {}): number {
+    return this.find(matcher).length;
+  }
+
+  /**
+   * Forget every entry kept in memory (the file sink is left alone).
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Wait until every entry has been written to the file sink.
+   * @returns {Promise<void>} Resolves once pending writes are done.
+   */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  /**
+   * Express middleware recording the request, and its response once it is sent. The operation is
+   * read from `res.locals.openapi` when the response finishes.
+   * @returns Express middleware
+   */
+  middleware(): express.RequestHandler {
+    return (req, res, next) => {
+      const started = Date.now();
+      const url = req.url;
+      const originalSend = res.send.bind(res);
+      let sent: any;
+      res.send = (body?: any) => {
+        sent = body;
+        return originalSend(body);
+      };
+
+      res.on('finish', () => {
+        const ctx = res.locals.openapi as OperationContext | undefined;
+        const headers = flattenHeaders(res.getHeaders());
+        let body = Buffer.isBuffer(sent) ? sent.toString('utf-8') : sent;
+        if (typeof body === 'string' && /[/+]json/.test(headers['content-type'] || '')) {
+          try { body = JSON.parse(body); } catch { /* keep the raw string */ }
+        }
+        this.record({
+          timestamp: new Date(started).toISOString(),
+          spec: ctx?.specName,
+          method: req.method.toUpperCase(),
+          url,
+          path: ctx?.path,
+          // Same fallback as the generated routes, for operations without an operationId
+          operationId: ctx?.operation ? ctx.operation.operationId || generateOperationId(ctx.method, ctx.path) : undefined,
+          request: {
+            headers: flattenHeaders(req.headers),
+            query: { ...req.query },
+            body: req.body && !(typeof req.body === 'object' && Object.keys(req.body).length === 0) ? req.body : undefined,
+          },
+          response: { status: res.statusCode, headers, body },
+          durationMs: Date.now() - started,
+        });
+      });
+      next();
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { Database, Server } from './server.js';
+import type { ServerOptions } from './types.js';
+
+export { Logger, type LogFormat, type LogLevel } from './utils/logger.js';
+
+/**
+ * Options of {@link createMockServer}. Every other {@link ServerOptions} setting (chaos, security,
+ * scenarios, ...) is passed through to the server.
+ */
+export interface MockServerOptions extends Omit<ServerOptions, 'specs' | 'inMemory'> {
+  /** A directory of spec files, or OpenAPI documents keyed by spec name. */
+  specs: string | Record<string, any>;
+  /** Port to listen on; 0 (the default) picks a free one. */
+  port?: number;
+  /** Directory for uploaded files and recordings; defaults to a temporary directory removed on close. */
+  outDir?: string;
+}
+
+/**
+ * A running mock server, e.g. started by a test suite.
+ */
+export interface MockServer {
+  /** Base URL of the server; spec `<name>` is served under `<url>/api/<name>`. */
+  url: string;
+  /** The port the server listens on. */
+  port: number;
+  /** The in-memory database of the server. */
+  db: Database;
+  /** Restore the seed data, and reset scenarios, recordings, the journal and idempotency keys. */
+  reset(): Promise<void>;
+  /** Stop the server and remove its temporary files. */
+  close(): Promise<void>;
+}
+
+/**
+ * Start a mock server for use from code. The database is kept in memory, seeded with `seed` or with
+ * generated mock data, and routes are built from the specs at runtime, so any number of servers can
+ * run side by side in one process without touching `generated/`.
+ * @param options - The specs, seed data, port and server settings
+ * @returns The running server
+ */
+export async function createMockServer(options: MockServerOptions): Promise<MockServer> {
+  const { specs, port = 0, outDir, ...serverOptions } = options;
+  const tempDir = outDir ? undefined : fs.mkdtempSync(path.join(os.tmpdir(), 'fake-api-'));
+  const server = new Server(typeof specs === 'string' ? specs : '', outDir || tempDir!, port, {
+    runtime: true,
+    ...serverOptions,
+    specs: typeof specs === 'string' ? undefined : specs,
+    inMemory: true,
+  });
+  const removeTempDir = () => {
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+  };
+
+  let httpServer;
+  try {
+    httpServer = await server.start();
+  } catch (error) {
+    await server.stop();
+    removeTempDir();
+    throw error;
+  }
+
+  const address = httpServer.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    port: address.port,
+    db: server.getDatabase(),
+    reset: () => server.reset(),
+    close: async () => {
+      await server.stop();
+      removeTempDir();
+    },
+  };
+}
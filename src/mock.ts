@@ -8,6 +8,8 @@ import type { CLIOptions } from './types.js';
 import { Logger } from './utils/logger.js';
 import { ensureDirs, writeJsonFile } from './utils/file.js';
 import { getSwaggerFiles } from './utils/swagger.js';  
+import { resolveRef } from './utils/openapi.js';
+import { BlobStore, guessContentType, type FileMetadata } from './blobs.js';
 
 /**
  * MockGenerator class for generating mock data from OpenAPI specs and schemas.
@@ -15,6 +17,7 @@ import { getSwaggerFiles } from './utils/swagger.js';
 export class MockGenerator {
   private specDir: string;
   private outDir: string;
+  private blobs?: BlobStore;
 
   constructor(specDir: string, outDir: string) {
     this.specDir = specDir;
@@ -25,20 +28,49 @@ export class MockGenerator {
    * Generate mock data for all specs in the specDir and write to db.json.
    */
   async generate(): Promise<void> {
+    const mockData = await this.buildMockData();
+
+    ensureDirs(this.outDir);
+    writeJsonFile(path.join(this.outDir, 'db.json'), mockData);
+    Logger.success(`Wrote mock DB to ${path.join(this.outDir, 'db.json')}`);
+  }
+
+  /**
+   * Generate mock data for all specs in the specDir without writing it to disk.
+   * @returns {Promise<Record<string, any>>} The mock data keyed by spec name.
+   */
+  async buildMockData(): Promise<Record<string, any>> {
     const specs = getSwaggerFiles(this.specDir);
     const mockData: Record<string, any> = {};
 
     for (const spec of specs) {
       const api = await SwaggerParser.parse(path.join(this.specDir, spec)) as OpenAPIV3.Document;
       const specName = path.basename(spec, path.extname(spec));
-      const schemas = (api.components && api.components.schemas) ? api.components.schemas : {};
       Logger.info(`Generating mock data for spec: ${spec}`);
-      mockData[specName] = await this.generateMockData(api, schemas);
+      mockData[specName] = await this.generateSpecData(api);
     }
+    return mockData;
+  }
 
-    ensureDirs(this.outDir);
-    writeJsonFile(path.join(this.outDir, 'db.json'), mockData);
-    Logger.success(`Wrote mock DB to ${path.join(this.outDir, 'db.json')}`);
+  /**
+   * Generate mock data for a single parsed OpenAPI document.
+   * @param {OpenAPIV3.Document} api - The OpenAPI document.
+   * @returns {Promise<Record<string, any[]>>} The generated collections keyed by schema/resource name.
+   */
+  async generateSpecData(api: OpenAPIV3.Document): Promise<Record<string, any[]>> {
+    const schemas = (api.components && api.components.schemas) ? api.components.schemas : {};
+    return this.generateMockData(api, schemas);
+  }
+
+  /**
+   * Synthesise a single value matching a schema, e.g. for a response body that is not stored in the database.
+   * @param {OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject} schema - The schema or reference.
+   * @param {Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>} schemas - All schemas in the spec.
+   * @param {string} [resourceName] - Name used for ID detection on objects.
+   * @returns {any} The generated value.
+   */
+  generateFromSchema(schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, schemas: Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>, resourceName = 'Item'): any {
+    return this.generateMockValue(schema, schemas, resourceName);
   }
 
   /**
@@ -50,14 +82,24 @@ export class MockGenerator {
   private async generateMockData(api: OpenAPIV3.Document, schemas: Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>): Promise<Record<string, any[]>> {
     const mockData: Record<string, any[]> = {};
     const usedResources = new Set<string>();
+    const examples = this.collectExamples(api, schemas);
 
-    // First, generate mock data for each schema in components.schemas
+    // First, generate mock data for each schema in components.schemas, starting from the spec's examples
     for (const [resourceName, schema] of Object.entries(schemas)) {
       // Only generate for object schemas
       const resolvedSchema = this.resolveSchema(schema, schemas);
       if (resolvedSchema && resolvedSchema.type === 'object') {
         mockData[resourceName] = [];
-        for (let i = 0; i < 5; i++) {
+        const idField = this.detectIdField(resourceName, resolvedSchema, schemas);
+        for (const example of examples[resourceName] || []) {
+          if (example[idField] !== undefined && mockData[resourceName].find(item => item[idField] === example[idField])) continue;
+          mockData[resourceName].push(example);
+          if (example[idField] !== undefined) {
+            if (!this.generatedIds[resourceName]) this.generatedIds[resourceName] = [];
+            this.generatedIds[resourceName].push(example[idField]);
+          }
+        }
+        for (let i = mockData[resourceName].length; i < 5; i++) {
           const mockItem = this.generateMockItem(resolvedSchema, schemas, resourceName);
           if (!mockData[resourceName].find(item => item.id === mockItem.id)) {
             mockData[resourceName].push(mockItem);
@@ -105,6 +147,69 @@ export class MockGenerator {
     return mockData;
   }
 
+  /**
+   * Collect example instances of component schemas: the schema's own `example`, plus the `example`/`examples`
+   * of JSON responses whose schema is that component or an array of it.
+   * @param {OpenAPIV3.Document} api - The OpenAPI document.
+   * @param {Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>} schemas - The schemas from the spec.
+   * @returns {Record<string, any[]>} Example items keyed by schema name.
+   */
+  private collectExamples(api: OpenAPIV3.Document, schemas: Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>): Record<string, any[]> {
+    const examples: Record<string, any[]> = {};
+    const add = (schemaName: string | undefined, value: any) => {
+      if (!schemaName || !schemas[schemaName] || !value || typeof value !== 'object' || Array.isArray(value)) return;
+      (examples[schemaName] = examples[schemaName] || []).push(this.clone(value));
+    };
+    const refName = (schema: any): string | undefined =>
+      schema && typeof schema.$ref === 'string' ? schema.$ref.split('/').pop() : undefined;
+
+    for (const [name, schema] of Object.entries(schemas)) {
+      if (!('$ref' in schema) && schema.example !== undefined) add(name, schema.example);
+    }
+
+    for (const pathItem of Object.values(api.paths || {})) {
+      for (const [method, operation] of Object.entries(pathItem || {})) {
+        if (method === 'parameters' || !operation || typeof operation !== 'object') continue;
+        for (const responseOrRef of Object.values((operation as OpenAPIV3.OperationObject).responses || {})) {
+          const response = resolveRef<OpenAPIV3.ResponseObject>(api, responseOrRef);
+          const media = response && response.content && response.content['application/json'];
+          if (!media || !media.schema) continue;
+          const values = [
+            ...(media.example !== undefined ? [media.example] : []),
+            ...Object.values(media.examples || {})
+              .map(example => resolveRef<OpenAPIV3.ExampleObject>(api, example))
+              .filter(example => example && 'value' in example)
+              .map(example => example.value),
+          ];
+          const schema = resolveRef<OpenAPIV3.SchemaObject>(api, media.schema);
+          const itemName = schema && schema.type === 'array' ? refName((schema as OpenAPIV3.ArraySchemaObject).items) : undefined;
+          for (const value of values) {
+            if (itemName && Array.isArray(value)) value.forEach(item => add(itemName, item));
+            else add(refName(media.schema), value);
+          }
+        }
+      }
+    }
+    return examples;
+  }
+
+  /**
+   * Get a copy of the example declared on a schema (`example`, or one of the OpenAPI 3.1 `examples`), if any.
+   */
+  private schemaExample(schema: OpenAPIV3.SchemaObject): any {
+    if (schema.example !== undefined) return this.clone(schema.example);
+    const examples = (schema as any).examples;
+    if (Array.isArray(examples) && examples.length > 0) return this.clone(faker.helpers.arrayElement(examples));
+    return undefined;
+  }
+
+  /**
+   * Deep-copy an example so generated items never share (and mutate) the spec's objects.
+   */
+  private clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+  }
+
   /**
    * Get the top-level resource name from a path string (e.g., '/users/{id}' -> 'users').
    * @param {string} path - The OpenAPI path string.
@@ -123,9 +228,21 @@ export class MockGenerator {
   private getRequestBodySchema(requestBody: OpenAPIV3.RequestBodyObject): OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | null {
     const content = requestBody.content;
     if (!content) return null;
-    const jsonContent = content['application/json'];
-    if (!jsonContent || !jsonContent.schema) return null;
-    return jsonContent.schema as OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+    // JSON wins; other media types (e.g. multipart/form-data) describe the resource just as well
+    const mediaType = content['application/json'] || Object.values(content).find(media => media.schema);
+    if (!mediaType || !mediaType.schema) return null;
+    return mediaType.schema as OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+  }
+
+  /**
+   * Get the metadata of a placeholder file for a `format: binary` property, writing the file to the blob store if needed.
+   * @param {string} name - The property name, used to guess the media type.
+   * @param {OpenAPIV3.SchemaObject} schema - The property schema.
+   * @returns {FileMetadata} The placeholder file metadata.
+   */
+  private placeholderFile(name: string, schema: OpenAPIV3.SchemaObject): FileMetadata {
+    if (!this.blobs) this.blobs = new BlobStore(path.join(this.outDir, 'blobs'));
+    return this.blobs.placeholder(guessContentType(name, schema), name);
   }
 
   /**
@@ -191,6 +308,12 @@ export class MockGenerator {
     if (resolvedSchema.type === 'object' && resolvedSchema.properties) {
       const result: Record<string, any> = {};
       for (const [prop, propSchema] of Object.entries(resolvedSchema.properties)) {
+        // Values documented in the spec win over generated ones
+        const example = this.schemaExample(this.resolveSchema(propSchema, schemas));
+        if (example !== undefined) {
+          result[prop] = example;
+          continue;
+        }
         // If this is a reference ID (ends with Id, is a foreign key), link to an existing resource
         if (prop !== this.detectIdField(resourceName, resolvedSchema, schemas) && prop.match(/id$/i) && prop.length > 2) {
           const refType = prop.replace(/Id$/i, '');
@@ -200,6 +323,11 @@ export class MockGenerator {
             continue;
           }
         }
+        // Binary properties hold the metadata of a placeholder file
+        if (this.resolveSchema(propSchema, schemas).format === 'binary') {
+          result[prop] = this.placeholderFile(prop, this.resolveSchema(propSchema, schemas));
+          continue;
+        }
         // If this is a nested object or array, recurse (limit depth)
         if (depth < maxDepth && (this.resolveSchema(propSchema, schemas).type === 'object' || this.resolveSchema(propSchema, schemas).type === 'array')) {
           result[prop] = this.generateMockValue(propSchema, schemas, resourceName, depth + 1, maxDepth);
@@ -209,10 +337,10 @@ export class MockGenerator {
       }
       // Ensure the primary ID field exists and is unique
       const idField = this.detectIdField(resourceName, resolvedSchema, schemas);
-      if (!result[idField]) {
+      if (!this.generatedIds[resourceName]) this.generatedIds[resourceName] = [];
+      if (!result[idField] || this.generatedIds[resourceName].includes(result[idField])) {
         result[idField] = faker.string.uuid();
       }
-      if (!this.generatedIds[resourceName]) this.generatedIds[resourceName] = [];
       this.generatedIds[resourceName].push(result[idField]);
       return result;
     }
@@ -230,6 +358,8 @@ export class MockGenerator {
    */
   private generateMockValue(schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, schemas: Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>, resourceName: string, depth = 0, maxDepth = 6): any {
     const resolvedSchema = this.resolveSchema(schema, schemas);
+    const example = this.schemaExample(resolvedSchema);
+    if (example !== undefined) return example;
     switch (resolvedSchema.type) {
       case 'string':
         if (resolvedSchema.format === 'date-time') {
@@ -238,6 +368,8 @@ export class MockGenerator {
           return faker.internet.email();
         } else if (resolvedSchema.format === 'uri') {
           return faker.internet.url();
+        } else if (resolvedSchema.format === 'binary') {
+          return this.placeholderFile('file', resolvedSchema);
         } else if (resolvedSchema.enum) {
           return faker.helpers.arrayElement(resolvedSchema.enum);
         }
@@ -0,0 +1,101 @@
+import type express from 'express';
+import { OpenAPIV3 } from 'openapi-types';
+import type { OperationContext } from './types.js';
+import { Logger } from './utils/logger.js';
+import { findResponseKey, resolveRef } from './utils/openapi.js';
+import { mediaKind, parseBody, preferJson, serializeBody } from './utils/media.js';
+
+/**
+ * List the media types an operation produces on success (2XX and `default` responses).
+ * @param api - The OpenAPI document
+ * @param operation - The operation
+ * @returns The declared media types, JSON first
+ */
+export function producedMediaTypes(api: any, operation: OpenAPIV3.OperationObject): string[] {
+  const types = new Set<string>();
+  for (const [key, responseOrRef] of Object.entries(operation.responses || {})) {
+    if (!/^2/.test(key) && key !== 'default') continue;
+    const response = resolveRef<OpenAPIV3.ResponseObject>(api, responseOrRef);
+    Object.keys(response?.content || {}).forEach(type => types.add(type));
+  }
+  return preferJson([...types]);
+}
+
+/**
+ * Find the declared entry of a content map for a media type, trying wildcards such as `application/*` last.
+ * @param content - The content map of a request body or response
+ * @param mediaType - The media type, possibly with parameters
+ * @returns The declared media type, or undefined
+ */
+export function declaredMediaType(content: Record<string, any>, mediaType: string): string | undefined {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  const declared = Object.keys(content);
+  return declared.find(t => t.toLowerCase() === type)
+    || declared.find(t => t === `${type.split('/')[0]}/*`)
+    || declared.find(t => t === '*/*');
+}
+
+/**
+ * Express middleware run before request validation: answers 406 when the `Accept` header allows none
+ * of the media types the operation produces, and decodes XML, CSV and YAML request bodies (read as text)
+ * into the value described by the declared request body schema, so that they are validated like JSON.
+ * @returns Express middleware
+ */
+export function negotiateRequest(): express.RequestHandler {
+  return (req, res, next) => {
+    const ctx = res.locals.openapi as OperationContext | undefined;
+    if (!ctx || !ctx.operation) return next();
+
+    const produced = producedMediaTypes(ctx.api, ctx.operation);
+    if (req.headers.accept && produced.length > 0 && !req.accepts(produced)) {
+      res.status(406).json({ error: 'Not Acceptable', supported: produced });
+      return;
+    }
+
+    const contentType = req.headers['content-type'];
+    const kind = contentType ? mediaKind(contentType) : undefined;
+    if (typeof req.body === 'string' && contentType && kind && kind !== 'json') {
+      const requestBody = resolveRef<OpenAPIV3.RequestBodyObject>(ctx.api, ctx.operation.requestBody);
+      const content = requestBody?.content || {};
+      const declared = declaredMediaType(content, contentType);
+      try {
+        req.body = parseBody(req.body, contentType, declared ? content[declared].schema : undefined, ctx.api);
+      } catch (error: any) {
+        res.status(400).json({ error: `Invalid ${kind.toUpperCase()} request body: ${error.message}` });
+        return;
+      }
+    }
+    next();
+  };
+}
+
+/**
+ * Express middleware serializing the bodies passed to `res.json` in the media type negotiated from
+ * the `Accept` header among those declared for the response status. JSON is used when the client
+ * accepts anything, when JSON is the best match, and when the response declares no content.
+ * @returns Express middleware
+ */
+export function negotiateResponse(): express.RequestHandler {
+  return (req, res, next) => {
+    const ctx = res.locals.openapi as OperationContext | undefined;
+    if (!ctx || !ctx.operation) return next();
+    const operation = ctx.operation;
+    const originalJson = res.json.bind(res);
+
+    res.json = (body?: any) => {
+      const responses = operation.responses || {};
+      const key = findResponseKey(responses, res.statusCode);
+      const response = key ? resolveRef<OpenAPIV3.ResponseObject>(ctx.api, responses[key]) : undefined;
+      const content = response?.content || {};
+      const types = preferJson(Object.keys(content));
+      if (types.length > 1) res.vary('Accept');
+      const chosen = types.length > 0 ? req.accepts(types) : false;
+      if (!chosen || mediaKind(chosen) === undefined || mediaKind(chosen) === 'json') return originalJson(body);
+
+      Logger.debug(`[Negotiation] ${req.method} ${ctx.path} -> ${chosen}`);
+      res.type(chosen);
+      return res.send(serializeBody(body, chosen, content[chosen].schema, ctx.api));
+    };
+    next();
+  };
+}
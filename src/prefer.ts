@@ -0,0 +1,198 @@
+import type express from 'express';
+import { OpenAPIV3 } from 'openapi-types';
+import type { OperationContext } from './types.js';
+import type { MockGenerator } from './mock.js';
+import { Logger } from './utils/logger.js';
+import { findMediaExample, findResponseKey, pickMediaType, resolveRef } from './utils/openapi.js';
+
+/**
+ * Preferences read from a `Prefer` request header.
+ */
+export interface ResponsePreferences {
+  code?: number;
+  example?: string;
+  dynamic?: boolean;
+}
+
+/**
+ * A response picked from the operation's `responses`, ready to be sent.
+ */
+export interface PreferredResponse {
+  status: number;
+  headers: Record<string, string>;
+  contentType?: string;
+  body?: any;
+}
+
+/**
+ * Parse the `Prefer` header (e.g. `code=404, example=outOfStock` or `dynamic=true`).
+ * Unknown preferences are ignored.
+ * @param header - The raw header value
+ * @returns The recognised preferences
+ */
+export function parsePrefer(header: string | string[] | undefined): ResponsePreferences {
+  const prefs: ResponsePreferences = {};
+  const raw = Array.isArray(header) ? header.join(',') : header || '';
+  for (const token of raw.split(/[,;]/)) {
+    const [key, ...rest] = token.split('=');
+    const name = key.trim().toLowerCase();
+    const value = rest.join('=').trim().replace(/^"(.*)"$/, '$1');
+    if (name === 'code' && /^\d{3}$/.test(value)) prefs.code = Number(value);
+    if (name === 'example' && value) prefs.example = value;
+    if (name === 'dynamic') prefs.dynamic = value === '' || value === 'true';
+  }
+  return prefs;
+}
+
+/**
+ * Turn a response key ('404', '4XX', 'default') into a concrete status code.
+ */
+function statusForKey(key: string): number {
+  if (/^\d{3}$/.test(key)) return Number(key);
+  if (/^[1-5]XX$/i.test(key)) return Number(key[0]) * 100;
+  return 200;
+}
+
+/**
+ * PreferResponder lets clients force any response declared for an operation, using the `Prefer` header:
+ * `code=<status>` selects a response by status, `example=<name>` selects a named example and
+ * `dynamic=true` synthesises the body from the response schema instead of using examples.
+ */
+export class PreferResponder {
+  private mockGenerator: MockGenerator;
+
+  /**
+   * @param {MockGenerator} mockGenerator - Used to synthesise bodies when the spec has no example.
+   */
+  constructor(mockGenerator: MockGenerator) {
+    this.mockGenerator = mockGenerator;
+  }
+
+  /**
+   * Build the response for an operation according to the preferences.
+   * @param {any} api - The OpenAPI document (used to resolve references).
+   * @param {OpenAPIV3.OperationObject} operation - The matched operation.
+   * @param {ResponsePreferences} prefs - The parsed `Prefer` header.
+   * @returns {PreferredResponse | { error: string; allowed: string[] }} The response, or why none matches.
+   */
+  select(api: any, operation: OpenAPIV3.OperationObject, prefs: ResponsePreferences): PreferredResponse | { error: string; allowed: string[] } {
+    const responses = operation.responses || {};
+    const keys = Object.keys(responses);
+    const hasExample = (key: string) => {
+      const response = resolveRef<OpenAPIV3.ResponseObject>(api, responses[key]);
+      return Object.values(response?.content || {}).some(media => findMediaExample(api, media, prefs.example));
+    };
+
+    let key: string | undefined;
+    if (prefs.code !== undefined) {
+      key = findResponseKey(responses, prefs.code);
+      if (!key) return { error: `Response ${prefs.code} is not declared for this operation`, allowed: keys };
+    } else if (prefs.example !== undefined) {
+      key = [...keys].sort().find(hasExample);
+      if (!key) return { error: `Example "${prefs.example}" is not declared for this operation`, allowed: keys };
+    } else {
+      key = [...keys].sort().find(k => /^2/.test(k)) || keys[0];
+      if (!key) return { error: 'No responses are declared for this operation', allowed: keys };
+    }
+
+    const status = prefs.code !== undefined ? prefs.code : statusForKey(key);
+    const response = resolveRef<OpenAPIV3.ResponseObject>(api, responses[key]) || { description: '' };
+    const result: PreferredResponse = { status, headers: this.buildHeaders(api, response) };
+    const content = response.content || {};
+    const contentType = prefs.example !== undefined
+      ? Object.keys(content).find(t => findMediaExample(api, content[t], prefs.example)) || pickMediaType(content)
+      : pickMediaType(content);
+    if (!contentType) return result;
+
+    const media = content[contentType];
+    const example = prefs.dynamic ? undefined : findMediaExample(api, media, prefs.example);
+    if (prefs.example !== undefined && !prefs.dynamic && !example) {
+      return { error: `Example "${prefs.example}" is not declared for response ${key}`, allowed: Object.keys(media.examples || {}) };
+    }
+    result.contentType = contentType;
+    result.body = example ? example.value : this.synthesize(api, media.schema);
+    return result;
+  }
+
+  /**
+   * Build the documented success response of an operation: the lowest 2XX response that declares an example.
+   * @param {any} api - The OpenAPI document (used to resolve references).
+   * @param {OpenAPIV3.OperationObject} operation - The matched operation.
+   * @returns {PreferredResponse | undefined} The response, or undefined when no success response has an example.
+   */
+  documented(api: any, operation: OpenAPIV3.OperationObject): PreferredResponse | undefined {
+    const responses = operation.responses || {};
+    const key = Object.keys(responses).sort().filter(k => /^2/.test(k)).find(k => {
+      const response = resolveRef<OpenAPIV3.ResponseObject>(api, responses[k]);
+      return Object.values(response?.content || {}).some(media => findMediaExample(api, media));
+    });
+    if (!key) return undefined;
+    const selected = this.select(api, operation, { code: statusForKey(key) });
+    return 'error' in selected ? undefined : selected;
+  }
+
+  /**
+   * Generate a value for a schema with MockGenerator.
+   */
+  private synthesize(api: any, schema: any): any {
+    if (!schema) return undefined;
+    const schemas = (api.components && api.components.schemas) || {};
+    const name = typeof schema.$ref === 'string' ? schema.$ref.split('/').pop() : undefined;
+    return this.mockGenerator.generateFromSchema(schema, schemas, name);
+  }
+
+  /**
+   * Fill the declared response headers from their examples, synthesising required ones without an example.
+   */
+  private buildHeaders(api: any, response: OpenAPIV3.ResponseObject): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const [name, headerOrRef] of Object.entries(response.headers || {})) {
+      const header = resolveRef<OpenAPIV3.HeaderObject>(api, headerOrRef);
+      if (!header) continue;
+      const schema = resolveRef<OpenAPIV3.SchemaObject>(api, header.schema);
+      let value = header.example !== undefined ? header.example : schema?.example;
+      if (value === undefined && header.required && header.schema) value = this.synthesize(api, header.schema);
+      if (value !== undefined && value !== null) headers[name] = String(value);
+    }
+    return headers;
+  }
+
+  /**
+   * Express middleware answering requests that carry a `Prefer` header with the selected declared response,
+   * instead of passing them to the route. Requests without preferences are passed through untouched,
+   * unless static mode is on and the operation documents an example response.
+   * @param {boolean} [staticMode] - Answer every operation with its documented example.
+   * @returns Express middleware
+   */
+  middleware(staticMode = false): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      const prefs = parsePrefer(req.headers['prefer']);
+      if (!ctx || !ctx.operation) return next();
+
+      let selected: PreferredResponse | { error: string; allowed: string[] } | undefined;
+      if (prefs.code !== undefined || prefs.example !== undefined || prefs.dynamic) {
+        selected = this.select(ctx.api, ctx.operation, prefs);
+        res.set('Preference-Applied', String(req.headers['prefer']));
+      } else if (staticMode) {
+        selected = this.documented(ctx.api, ctx.operation);
+      }
+      if (!selected) return next();
+      if ('error' in selected) {
+        res.status(400).json(selected);
+        return;
+      }
+      Logger.debug(`[Prefer] ${req.method} ${ctx.path} -> ${selected.status}`);
+      res.status(selected.status);
+      res.set(selected.headers);
+      if (selected.body === undefined) {
+        res.end();
+      } else if (!selected.contentType || /[/+]json/.test(selected.contentType) || typeof selected.body !== 'string') {
+        // Structured bodies are serialized by content negotiation, in XML, CSV or YAML if declared
+        res.json(selected.body);
+      } else {
+        res.type(selected.contentType).send(selected.body);
+      }
+    };
+  }
+}
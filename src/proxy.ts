@@ -0,0 +1,176 @@
+import type express from 'express';
+import type { IncomingMessage } from 'http';
+import type { OperationContext } from './types.js';
+import type { Recordings } from './recordings.js';
+import { Logger } from './utils/logger.js';
+
+/**
+ * Headers that describe a single connection or the transfer encoding, and are not forwarded.
+ */
+const HOP_BY_HOP_HEADERS = [
+  'connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'te', 'trailer',
+  'transfer-encoding', 'upgrade', 'host', 'content-length', 'content-encoding', 'accept-encoding',
+];
+
+/**
+ * Request headers carrying credentials, masked in recordings.
+ */
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-api-key'];
+
+/**
+ * Response headers setting credentials, left out of recordings.
+ */
+const SET_CREDENTIAL_HEADERS = ['set-cookie', 'set-cookie2'];
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Copy headers, leaving out hop-by-hop ones.
+ */
+function forwardableHeaders(headers: Record<string, any>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || HOP_BY_HOP_HEADERS.includes(name.toLowerCase())) continue;
+    result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return result;
+}
+
+// Request bodies as received, before they are decoded for validation and the mocked routes
+const rawBodies = new WeakMap<IncomingMessage, Buffer>();
+
+/**
+ * Keep the bytes of a request body, so it can be forwarded as sent; pass it as the `verify`
+ * option of the Express body parsers.
+ * @param req - The request
+ * @param _res - The response
+ * @param body - The raw body
+ */
+export function captureRawBody(req: IncomingMessage, _res: unknown, body: Buffer): void {
+  rawBodies.set(req, body);
+}
+
+/**
+ * Get the request body for the upstream: the bytes received, else the parsed body serialised again.
+ */
+function encodeBody(req: express.Request): Buffer | string | undefined {
+  if (['GET', 'HEAD'].includes(req.method)) return undefined;
+  const raw = rawBodies.get(req);
+  if (raw) return raw.length > 0 ? raw : undefined;
+  if (req.body === undefined) return undefined;
+  if (typeof req.body === 'string') return req.body;
+  if (typeof req.body === 'object' && Object.keys(req.body).length === 0 && !req.is('json')) return undefined;
+  return req.is('application/x-www-form-urlencoded')
+    ? new URLSearchParams(req.body).toString()
+    : JSON.stringify(req.body);
+}
+
+/**
+ * Mask the credentials of recorded request headers, including the API key headers the spec declares.
+ */
+function redactRequestHeaders(headers: Record<string, string>, api: any): Record<string, string> {
+  const apiKeyHeaders = Object.values((api && api.components && api.components.securitySchemes) || {})
+    .filter((scheme: any) => scheme && scheme.type === 'apiKey' && scheme.in === 'header')
+    .map((scheme: any) => String(scheme.name).toLowerCase());
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [
+    name,
+    CREDENTIAL_HEADERS.includes(name) || apiKeyHeaders.includes(name) ? REDACTED : value,
+  ]));
+}
+
+/**
+ * UpstreamProxy forwards requests to a real service and records the exchanges. Requests and responses
+ * go through the same validation as mocked ones, since forwarding happens inside the spec mount.
+ */
+export class UpstreamProxy {
+  private upstream: string;
+  private recordings?: Recordings;
+  private all: boolean;
+
+  /**
+   * @param {string} upstream - Base URL the spec paths are appended to.
+   * @param {Recordings} [recordings] - Where exchanges are recorded.
+   * @param {boolean} [all] - Forward every operation, not only the ones without a mocked route.
+   */
+  constructor(upstream: string, recordings?: Recordings, all = false) {
+    this.upstream = upstream.replace(/\/+$/, '');
+    this.recordings = recordings;
+    this.all = all;
+  }
+
+  /**
+   * Forward a request to the upstream and send its response back.
+   * @param {express.Request} req - The request, with its URL relative to the spec mount.
+   * @param {express.Response} res - The response.
+   */
+  async forward(req: express.Request, res: express.Response): Promise<void> {
+    const ctx = res.locals.openapi as OperationContext | undefined;
+    const target = this.upstream + req.url;
+    Logger.info(`[Proxy] ${req.method} ${req.url} -> ${target}`);
+
+    const requestHeaders = forwardableHeaders(req.headers);
+    const requestBody = encodeBody(req);
+    let upstreamRes: Response;
+    try {
+      upstreamRes = await fetch(target, { method: req.method, headers: requestHeaders, body: requestBody });
+    } catch (error: any) {
+      Logger.error(`[Proxy] ${req.method} ${target} failed: ${error.message}`);
+      res.status(502).json({ error: 'Bad gateway', message: `Upstream request failed: ${error.message}` });
+      return;
+    }
+
+    const headers = forwardableHeaders(Object.fromEntries(upstreamRes.headers.entries()));
+    const text = await upstreamRes.text();
+    let body: any = text === '' ? undefined : text;
+    if (body !== undefined && /[/+]json/.test(headers['content-type'] || '')) {
+      try { body = JSON.parse(text); } catch { /* forward the raw text */ }
+    }
+
+    if (this.recordings && ctx) {
+      await this.recordings.add({
+        spec: ctx.specName,
+        method: req.method.toUpperCase(),
+        path: ctx.path,
+        url: req.url,
+        operationId: ctx.operation?.operationId,
+        request: { headers: redactRequestHeaders(requestHeaders, ctx.api), body: req.body && Object.keys(req.body).length > 0 ? req.body : undefined },
+        response: {
+          status: upstreamRes.status,
+          headers: Object.fromEntries(Object.entries(headers).filter(([name]) => !SET_CREDENTIAL_HEADERS.includes(name))),
+          body,
+        },
+        recordedAt: new Date().toISOString(),
+      });
+    }
+
+    res.status(upstreamRes.status);
+    res.set(headers);
+    if (body === undefined) res.end();
+    else if (typeof body === 'string') res.send(body);
+    else res.json(body);
+  }
+
+  /**
+   * Express middleware forwarding the operations that are not mocked, or every operation when the
+   * proxy covers all operations.
+   * @param {(ctx: OperationContext) => boolean} [isMocked] - Whether the server mocks an operation.
+   * @returns Express middleware
+   */
+  middleware(isMocked: (ctx: OperationContext) => boolean = () => true): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      if (!this.all && !(ctx && ctx.operation && !isMocked(ctx))) return next();
+      this.forward(req, res).catch(next);
+    };
+  }
+
+  /**
+   * Express middleware forwarding the requests no mocked route answered; mount it after the routes.
+   * @returns Express middleware
+   */
+  fallback(): express.RequestHandler {
+    return (req, res, next) => {
+      this.forward(req, res).catch(next);
+    };
+  }
+}
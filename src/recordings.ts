@@ -0,0 +1,191 @@
+import type express from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { OpenAPIV3 } from 'openapi-types';
+import type { OperationContext } from './types.js';
+import { buildRouteModel, detectIdField } from './generator.js';
+import { resolveSchemaKey, toExpressPath } from './runtime.js';
+import { Logger } from './utils/logger.js';
+import { ensureDirs, writeJsonFile } from './utils/file.js';
+import { getSwaggerFiles } from './utils/swagger.js';
+
+/**
+ * A request/response exchange captured in proxy mode.
+ */
+export interface Recording {
+  spec: string;
+  method: string;
+  /** The OpenAPI path template of the operation. */
+  path: string;
+  /** The request URL relative to the spec mount, including the query string. */
+  url: string;
+  operationId?: string;
+  request: { headers: Record<string, string>; body?: any };
+  response: { status: number; headers: Record<string, string>; body?: any };
+  recordedAt: string;
+}
+
+/**
+ * Recordings stores the exchanges captured in proxy mode, one JSON file per spec in its directory,
+ * replays them deterministically and imports their payloads into the mock data.
+ */
+export class Recordings {
+  private dir: string;
+  private cache = new Map<string, Recording[]>();
+  private cursors = new Map<string, number>();
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param {string} dir - Directory holding `<specName>.json` recording files.
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Get the recordings of a spec.
+   * @param {string} specName - The spec name.
+   * @returns {Recording[]} The recordings, oldest first.
+   */
+  load(specName: string): Recording[] {
+    let recordings = this.cache.get(specName);
+    if (!recordings) {
+      const file = path.join(this.dir, `${specName}.json`);
+      recordings = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) as Recording[] : [];
+      this.cache.set(specName, recordings);
+    }
+    return recordings;
+  }
+
+  /**
+   * Add a recording and persist the recordings of its spec.
+   * @param {Recording} recording - The exchange.
+   * @returns {Promise<void>} Resolves once the file is written.
+   */
+  add(recording: Recording): Promise<void> {
+    const recordings = this.load(recording.spec);
+    recordings.push(recording);
+    const file = path.join(this.dir, `${recording.spec}.json`);
+    this.writing = this.writing.then(async () => {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(file, JSON.stringify(recordings, null, 2));
+    }).catch(error => Logger.error(`[Recordings] Could not write ${file}: ${error}`));
+    return this.writing;
+  }
+
+  /**
+   * Find the recording answering a request. Repeated identical requests get the matching recordings in
+   * the order they were captured; once they run out, the last one is repeated.
+   * @param {string} specName - The spec name.
+   * @param {string} method - The HTTP method.
+   * @param {string} url - The URL relative to the spec mount, including the query string.
+   * @returns {Recording | undefined} The recording, or undefined if the request was never recorded.
+   */
+  find(specName: string, method: string, url: string): Recording | undefined {
+    const matches = this.load(specName).filter(r => r.method === method.toUpperCase() && r.url === url);
+    if (matches.length === 0) return undefined;
+    const key = `${specName} ${method.toUpperCase()} ${url}`;
+    const cursor = this.cursors.get(key) || 0;
+    this.cursors.set(key, cursor + 1);
+    return matches[Math.min(cursor, matches.length - 1)];
+  }
+
+  /**
+   * Restart every replay sequence from the first recording.
+   */
+  rewind(): void {
+    this.cursors.clear();
+  }
+
+  /**
+   * Merge the successful JSON payloads recorded for a spec into its mock data, in the collection of the
+   * schema key each route maps to. Items are matched on their ID field, so importing twice is harmless.
+   * @param {string} specName - The spec name.
+   * @param {OpenAPIV3.Document} api - The parsed OpenAPI document.
+   * @param {Record<string, any>} data - The spec's data (collections keyed by schema key), updated in place.
+   * @returns {number} The number of items imported.
+   */
+  importInto(specName: string, api: OpenAPIV3.Document, data: Record<string, any>): number {
+    const model = buildRouteModel(api);
+    const schemas: Record<string, any> = (api.components && api.components.schemas) || {};
+    let count = 0;
+    for (const recording of this.load(specName)) {
+      if (recording.method === 'DELETE' || recording.response.status < 200 || recording.response.status >= 300) continue;
+      const schemaKey = resolveSchemaKey(toExpressPath(recording.path), model.pathToSchemaKey);
+      if (schemaKey === 'Unknown') continue;
+      const idField = detectIdField(schemaKey, schemas[schemaKey]);
+      const items = payloadItems(recording.response.body, idField);
+      if (items.length === 0) continue;
+
+      const collection: any[] = Array.isArray(data[schemaKey]) ? data[schemaKey] : (data[schemaKey] = []);
+      for (const item of items) {
+        const index = item[idField] === undefined ? -1 : collection.findIndex(existing => existing[idField] === item[idField]);
+        if (index === -1) collection.push(item);
+        else collection[index] = item;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Express middleware answering requests with their recorded response, in replay mode.
+   * Requests that were never recorded are passed on to the route.
+   * @returns Express middleware
+   */
+  replay(): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      if (!ctx || !ctx.operation) return next();
+      const recording = this.find(ctx.specName, req.method, req.url);
+      if (!recording) return next();
+
+      Logger.debug(`[Replay] ${req.method} ${req.url} -> ${recording.response.status}`);
+      res.status(recording.response.status);
+      res.set(recording.response.headers);
+      const { body } = recording.response;
+      if (body === undefined) res.end();
+      else if (typeof body === 'string') res.send(body);
+      else res.json(body);
+    };
+  }
+}
+
+/**
+ * Import the payloads recorded for every spec into `db.json`, creating it if needed.
+ * @param specDir - Directory containing the specs
+ * @param outDir - Directory containing db.json
+ * @param recordingsDir - Directory containing the recordings
+ * @returns The number of items imported per spec
+ */
+export async function importRecordings(specDir: string, outDir: string, recordingsDir: string): Promise<Record<string, number>> {
+  const recordings = new Recordings(recordingsDir);
+  const dbPath = path.join(outDir, 'db.json');
+  const data: Record<string, any> = fs.existsSync(dbPath) ? JSON.parse(fs.readFileSync(dbPath, 'utf-8')) : {};
+  const counts: Record<string, number> = {};
+  for (const spec of getSwaggerFiles(specDir)) {
+    const specName = path.basename(spec, path.extname(spec));
+    if (recordings.load(specName).length === 0) continue;
+    const api = await SwaggerParser.parse(path.join(specDir, spec)) as OpenAPIV3.Document;
+    data[specName] = data[specName] || {};
+    counts[specName] = recordings.importInto(specName, api, data[specName]);
+    Logger.info(`Imported ${counts[specName]} recorded item(s) into ${specName}`);
+  }
+  ensureDirs(outDir);
+  writeJsonFile(dbPath, data);
+  return counts;
+}
+
+/**
+ * Get the resource items of a response payload: an array, an object carrying the ID field,
+ * or the array of objects wrapped in a pagination envelope.
+ */
+function payloadItems(body: any, idField: string): any[] {
+  const isObject = (value: any) => value && typeof value === 'object' && !Array.isArray(value);
+  if (Array.isArray(body)) return body.filter(isObject);
+  if (!isObject(body)) return [];
+  if (body[idField] !== undefined) return [body];
+  const wrapped = Object.values(body).find(value => Array.isArray(value) && value.length > 0 && value.every(isObject));
+  return (wrapped as any[]) || [];
+}
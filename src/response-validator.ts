@@ -0,0 +1,231 @@
+import type express from 'express';
+import { Ajv, type ValidateFunction } from 'ajv';
+import addFormatsModule from 'ajv-formats';
+import { OpenAPIV3 } from 'openapi-types';
+import type { OperationContext, ResponseValidationMode } from './types.js';
+import { Logger } from './utils/logger.js';
+import { findResponseKey, relaxBinary, resolveRef } from './utils/openapi.js';
+import { mediaKind, parseBody } from './utils/media.js';
+
+const addFormats = addFormatsModule as unknown as typeof addFormatsModule.default;
+
+/**
+ * A single mismatch between an actual response and the spec.
+ */
+export interface ResponseValidationIssue {
+  path: string;
+  message: string;
+  keyword?: string;
+  params?: Record<string, any>;
+  actual?: any;
+}
+
+/**
+ * Get a value from a JSON document by its JSON pointer (as reported by ajv's instancePath).
+ */
+function valueAtPointer(doc: any, pointer: string): any {
+  if (!pointer) return doc;
+  return pointer.slice(1).split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((obj, key) => (obj === undefined || obj === null ? undefined : obj[key]), doc);
+}
+
+/**
+ * Convert a header string to the type declared by its schema, so it can be schema-validated.
+ */
+function coerceHeaderValue(value: string, schema: any): any {
+  const type = schema && schema.type;
+  if (type === 'integer' || type === 'number') {
+    const num = Number(value);
+    return isNaN(num) ? value : num;
+  }
+  if (type === 'boolean') return value === 'true' ? true : value === 'false' ? false : value;
+  return value;
+}
+
+/**
+ * ResponseValidator checks outgoing responses against the `responses` section of the matched operation:
+ * the status code must be declared, the body must match the media type schema, and required headers must be set.
+ */
+export class ResponseValidator {
+  private api: OpenAPIV3.Document;
+  private rootId: string;
+  private ajv: Ajv;
+  private cache = new Map<any, ValidateFunction>();
+
+  constructor(specName: string, api: OpenAPIV3.Document) {
+    this.api = api;
+    this.rootId = `openapi://${specName}`;
+    this.ajv = new Ajv({ strict: false, allErrors: true, validateFormats: true });
+    addFormats(this.ajv);
+    this.ajv.addSchema({ components: relaxBinary(api.components || {}) }, this.rootId);
+  }
+
+  /**
+   * Validate a response for an operation.
+   * @param operation - The matched OpenAPI operation
+   * @param status - Response status code
+   * @param headers - Response headers (as returned by `res.getHeaders()`)
+   * @param body - Response body (undefined when the response has no body)
+   * @param contentType - Response media type, defaults to application/json
+   * @returns The list of mismatches (empty when the response conforms)
+   */
+  validate(operation: OpenAPIV3.OperationObject, status: number, headers: Record<string, any>, body: any, contentType = 'application/json'): ResponseValidationIssue[] {
+    const responses = operation.responses || {};
+    const key = findResponseKey(responses, status);
+    if (!key) {
+      return [{
+        path: 'status',
+        message: `${status} is not a declared response for this operation`,
+        params: { allowed: Object.keys(responses) },
+        actual: status,
+      }];
+    }
+
+    const response = resolveRef<OpenAPIV3.ResponseObject>(this.api, responses[key]);
+    if (!response) return [];
+    return [
+      ...this.validateHeaders(response, headers),
+      ...this.validateBody(response, body, contentType),
+    ];
+  }
+
+  private validateHeaders(response: OpenAPIV3.ResponseObject, headers: Record<string, any>): ResponseValidationIssue[] {
+    const issues: ResponseValidationIssue[] = [];
+    const actual: Record<string, any> = {};
+    Object.entries(headers || {}).forEach(([k, v]) => { actual[k.toLowerCase()] = v; });
+
+    for (const [name, headerOrRef] of Object.entries(response.headers || {})) {
+      const header = resolveRef<OpenAPIV3.HeaderObject>(this.api, headerOrRef);
+      if (!header) continue;
+      const value = actual[name.toLowerCase()];
+      if (value === undefined) {
+        if (header.required) issues.push({ path: `headers.${name}`, message: 'required header is missing', keyword: 'required' });
+        continue;
+      }
+      if (!header.schema) continue;
+      const raw = Array.isArray(value) ? value[0] : String(value);
+      const coerced = coerceHeaderValue(raw, resolveRef(this.api, header.schema));
+      issues.push(...this.runSchema(header.schema, coerced, `headers.${name}`));
+    }
+    return issues;
+  }
+
+  private validateBody(response: OpenAPIV3.ResponseObject, body: any, contentType: string): ResponseValidationIssue[] {
+    const hasBody = body !== undefined && body !== null && body !== '';
+    const content = response.content || {};
+    const mediaTypes = Object.keys(content);
+    if (mediaTypes.length === 0) {
+      return hasBody ? [{ path: 'body', message: 'response declares no body', actual: body }] : [];
+    }
+    if (!hasBody) return [];
+
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    const [type] = mediaType.split('/');
+    const declared = content[mediaType] ? mediaType
+      : mediaTypes.find(m => m === `${type}/*`) || mediaTypes.find(m => m === '*/*');
+    if (!declared) {
+      return [{ path: 'content-type', message: `media type ${mediaType} is not declared`, params: { allowed: mediaTypes }, actual: mediaType }];
+    }
+    const schema = content[declared].schema;
+    return schema ? this.runSchema(schema, body, 'body') : [];
+  }
+
+  /**
+   * Decode a serialized JSON, XML, CSV or YAML body into the value its declared schema describes.
+   */
+  private decodeBody(operation: OpenAPIV3.OperationObject, status: number, text: string, contentType: string): any {
+    const key = findResponseKey(operation.responses || {}, status);
+    const response = key ? resolveRef<OpenAPIV3.ResponseObject>(this.api, (operation.responses || {})[key]) : undefined;
+    const content = response?.content || {};
+    const media = content[contentType.split(';')[0].trim().toLowerCase()];
+    return parseBody(text, contentType, media?.schema, this.api);
+  }
+
+  private runSchema(schema: any, value: any, prefix: string): ResponseValidationIssue[] {
+    let validate = this.cache.get(schema);
+    if (!validate) {
+      validate = this.ajv.compile(this.rewriteRefs(relaxBinary(schema)));
+      this.cache.set(schema, validate);
+    }
+    if (validate(value)) return [];
+    return (validate.errors || []).map(err => ({
+      path: `${prefix}${err.instancePath}`,
+      message: err.message || 'is invalid',
+      keyword: err.keyword,
+      params: err.params,
+      actual: valueAtPointer(value, err.instancePath),
+    }));
+  }
+
+  /**
+   * Point local `#/...` references at the spec root registered with ajv.
+   */
+  private rewriteRefs(schema: any): any {
+    if (Array.isArray(schema)) return schema.map(s => this.rewriteRefs(s));
+    if (!schema || typeof schema !== 'object') return schema;
+    const result: Record<string, any> = {};
+    for (const [k, v] of Object.entries(schema)) {
+      result[k] = k === '$ref' && typeof v === 'string' && v.startsWith('#/') ? `${this.rootId}${v}` : this.rewriteRefs(v);
+    }
+    return result;
+  }
+
+  /**
+   * Express middleware that intercepts `res.json`/`res.send` and validates the response
+   * for the operation stored in `res.locals.openapi`.
+   * In `strict` mode a mismatch is replaced by a 500 listing the differences; in `warn` mode it is only logged.
+   * @param mode - Validation mode
+   * @returns Express middleware
+   */
+  middleware(mode: ResponseValidationMode): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      if (mode === 'off' || !ctx || !ctx.operation) return next();
+      const operation = ctx.operation;
+      const originalJson = res.json.bind(res);
+      const originalSend = res.send.bind(res);
+      let checked = false;
+
+      const check = (body: any, contentType?: string): ResponseValidationIssue[] => {
+        checked = true;
+        const issues = this.validate(operation, res.statusCode, res.getHeaders(), body, contentType);
+        if (issues.length > 0) {
+          const summary = issues.map(i => `${i.path} ${i.message}`).join('; ');
+          Logger.warn(`[ResponseValidator] ${req.method} ${ctx.path} -> ${res.statusCode} does not match the spec: ${summary}`);
+        }
+        return issues;
+      };
+
+      const fail = (issues: ResponseValidationIssue[]) => {
+        const status = res.statusCode;
+        res.status(500);
+        return originalJson({
+          error: 'Response does not match the OpenAPI spec',
+          operation: operation.operationId || `${ctx.method.toUpperCase()} ${ctx.path}`,
+          status,
+          diff: issues,
+        });
+      };
+
+      res.json = (body?: any) => {
+        if (checked) return originalJson(body);
+        const issues = check(body);
+        return issues.length > 0 && mode === 'strict' ? fail(issues) : originalJson(body);
+      };
+
+      res.send = (body?: any) => {
+        if (checked) return originalSend(body);
+        const contentType = String(res.getHeader('Content-Type') || 'text/plain');
+        let payload = Buffer.isBuffer(body) ? body.toString('utf-8') : body;
+        if (typeof payload === 'string' && mediaKind(contentType)) {
+          try { payload = this.decodeBody(operation, res.statusCode, payload, contentType); } catch { /* validate the raw string */ }
+        }
+        const issues = check(payload, contentType);
+        return issues.length > 0 && mode === 'strict' ? fail(issues) : originalSend(body);
+      };
+
+      next();
+    };
+  }
+}
@@ -0,0 +1,219 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import pluralize from 'pluralize';
+import { OpenAPIV3 } from 'openapi-types';
+import type { ControllerConfig, RouteModel } from './types.js';
+import type { Database } from './server.js';
+import { buildRouteModel, detectIdField } from './generator.js';
+import { Logger } from './utils/logger.js';
+import { applyQueryFilters, buildQueryFilters } from './utils/query.js';
+import { buildPaginationOptions, sendPage } from './utils/pagination.js';
+import { checkPreconditions, sendItem, setValidators } from './utils/conditional.js';
+import { PatchError, patchMediaType, resourceValidator } from './utils/patch.js';
+import { isFileMetadata } from './blobs.js';
+
+/**
+ * Resolves the database a request should read from and write to.
+ */
+export type DatabaseResolver = (req: express.Request) => Database;
+
+type Handler = (req: express.Request, res: express.Response) => Promise<void>;
+
+/**
+ * Convert an OpenAPI path template to an Express route path ('products/{id}' -> '/products/:id').
+ */
+export function toExpressPath(openapiPath: string): string {
+  const withSlash = openapiPath.startsWith('/') ? openapiPath : '/' + openapiPath;
+  return withSlash.replace(/\{([^}]+)\}/g, ':$1');
+}
+
+/**
+ * Resolve the schema key for a route exactly as the generated controllers do at request time.
+ * @param routePath - Express route path (e.g. '/products/:productId')
+ * @param pathToSchemaKey - Mapping built by {@link buildRouteModel}
+ * @returns The schema key, or 'Unknown'
+ */
+export function resolveSchemaKey(routePath: string, pathToSchemaKey: Record<string, string>): string {
+  const key = Object.keys(pathToSchemaKey).find(k => routePath.includes(k.replace(/\{[^}]+\}/g, '')))
+    || pluralize.singular(routePath.split('/')[1])
+    || pluralize.plural(routePath.split('/')[1]);
+  return key && pathToSchemaKey[key] ? pathToSchemaKey[key] : 'Unknown';
+}
+
+/**
+ * Build an Express router in memory from a parsed OpenAPI document, with the same CRUD semantics as the
+ * controllers produced by `Generator`. No code generation or TypeScript build is required.
+ * @param specName - Name of the spec (used as the top-level DB key)
+ * @param api - The parsed OpenAPI document
+ * @param database - The database, or a resolver picking one per request
+ * @param model - Precomputed route model (built from `api` when omitted)
+ * @returns The Express router
+ */
+export function createRuntimeRouter(specName: string, api: OpenAPIV3.Document, database: Database | DatabaseResolver, model: RouteModel = buildRouteModel(api)): express.Router {
+  const router = express.Router();
+  const resolveDb: DatabaseResolver = typeof database === 'function' ? database : () => database;
+
+  for (const route of model.routes) {
+    const controller = model.controllers.find(c => c.operationId === route.operationId && c.method === route.method) || route;
+    const routePath = toExpressPath(route.path);
+    const handler = createHandler(controller, routePath, specName, api, model.pathToSchemaKey, resolveDb);
+    const method = route.method.toLowerCase() as 'get' | 'post' | 'put' | 'patch' | 'delete';
+    if (typeof (router as any)[method] !== 'function') continue;
+    router[method](routePath, (req, res, next) => {
+      Logger.debug(`[Runtime] ROUTE HIT: ${route.operationId} ${req.method} ${req.originalUrl}`);
+      handler(req, res).catch(next);
+    });
+  }
+  return router;
+}
+
+function createHandler(
+  controller: ControllerConfig,
+  routePath: string,
+  specName: string,
+  api: OpenAPIV3.Document,
+  pathToSchemaKey: Record<string, string>,
+  resolveDb: DatabaseResolver
+): Handler {
+  const schemas: Record<string, any> = (api.components && api.components.schemas) || {};
+  const schemaKey = resolveSchemaKey(routePath, pathToSchemaKey);
+  const schema = schemas[schemaKey];
+  const idField = schema ? detectIdField(schemaKey, schema) : 'id';
+  const dbPath = `${specName}/${schemaKey}`;
+  const controllerPath = controller.path || '';
+  const firstParam = (req: express.Request) => req.params[Object.keys(req.params)[0]];
+  const findItem = async (req: express.Request, id: string) => {
+    const dataArr = await resolveDb(req).get(dbPath);
+    return Array.isArray(dataArr) ? dataArr.find((item: any) => item[idField] === id) : null;
+  };
+
+  // File uploaded to a property of a resource (/resource/{id}/property): stored in the parent record
+  const isPropertyPath = /\{[^}]+\}\/[^/]+$/.test(controllerPath);
+  const uploadToProperty = (status: number): Handler => async (req, res) => {
+    const id = firstParam(req);
+    if (!await findItem(req, id)) {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+    const file = isFileMetadata(req.body) ? req.body : Object.values(req.body || {}).find(isFileMetadata);
+    if (!file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+    const property = routePath.split('/').pop() as string;
+    await resolveDb(req).patch(`${dbPath}/${id}`, { [property]: file }, idField);
+    res.status(status).json(file);
+  };
+
+  switch (controller.method.toLowerCase()) {
+    case 'get': {
+      // Property or related resource (/resource/{id}/property)
+      if (/\{[^}]+\}\/[^/]+$/.test(controllerPath)) {
+        const property = routePath.split('/').pop() as string;
+        return async (req, res) => {
+          const parent = await findItem(req, firstParam(req));
+          if (parent && Object.prototype.hasOwnProperty.call(parent, property)) {
+            res.json(parent[property]);
+            return;
+          }
+          // Fallback: look the subresource up as a top-level collection
+          const subKey = pathToSchemaKey[property] || pluralize.singular(property);
+          if (subKey && schemas[subKey]) {
+            const subArr = await resolveDb(req).get(`${specName}/${subKey}`);
+            const subId = req.params[Object.keys(req.params)[1]] || req.params[property + 'Id'] || req.params.id;
+            const subIdField = detectIdField(subKey, schemas[subKey]);
+            const subData = Array.isArray(subArr) ? subArr.find((item: any) => item[subIdField] === subId) : null;
+            if (subData) {
+              res.json(subData);
+              return;
+            }
+          }
+          res.status(404).json({ error: 'Not found' });
+        };
+      }
+      // Single resource
+      if (/\{[^}]+\}$/.test(controllerPath) || (controller.parameters || []).some(p => p.in === 'path')) {
+        return async (req, res) => {
+          const id = firstParam(req);
+          const data = await findItem(req, id);
+          if (!data) {
+            res.status(404).json({ error: 'Not found' });
+            return;
+          }
+          sendItem(req, res, data, resolveDb(req).lastModified(`${dbPath}/${id}`));
+        };
+      }
+      // Collection
+      const filters = buildQueryFilters(controller.parameters || []);
+      const pagination = buildPaginationOptions(controller.parameters || [], controller.responses, schemas);
+      return async (req, res) => {
+        const data = applyQueryFilters(await resolveDb(req).get(dbPath) || [], req.query, filters, schema);
+        sendPage(req, res, data, pagination);
+      };
+    }
+    case 'post':
+      if (isPropertyPath) return uploadToProperty(201);
+      return async (req, res) => {
+        const item = { ...req.body };
+        if (item[idField] === undefined) item[idField] = randomUUID();
+        const data = await resolveDb(req).create(dbPath, item, idField);
+        setValidators(res, data, resolveDb(req).lastModified(`${dbPath}/${data[idField]}`));
+        res.status(201).json(data);
+      };
+    case 'put':
+      if (isPropertyPath) return uploadToProperty(200);
+      return async (req, res) => {
+        const id = firstParam(req);
+        const current = await findItem(req, id);
+        if (!current) {
+          res.status(404).json({ error: 'Not found' });
+          return;
+        }
+        if (!checkPreconditions(req, res, current, resolveDb(req).lastModified(`${dbPath}/${id}`))) return;
+        const data = await resolveDb(req).update(`${dbPath}/${id}`, { ...req.body, [idField]: id }, idField);
+        setValidators(res, data, resolveDb(req).lastModified(`${dbPath}/${id}`));
+        res.json(data);
+      };
+    case 'patch': {
+      // Patch documents are not validated as request bodies, so their result is checked against the resource schema
+      const validateResource = schema ? resourceValidator(schema, api) : undefined;
+      return async (req, res) => {
+        const id = firstParam(req);
+        const current = await findItem(req, id);
+        if (!current) {
+          res.status(404).json({ error: 'Not found' });
+          return;
+        }
+        if (!checkPreconditions(req, res, current, resolveDb(req).lastModified(`${dbPath}/${id}`))) return;
+        let data;
+        try {
+          const contentType = req.headers['content-type'];
+          const validate = patchMediaType(contentType) ? validateResource : undefined;
+          data = await resolveDb(req).patch(`${dbPath}/${id}`, req.body, idField, { contentType, validate });
+        } catch (error) {
+          if (!(error instanceof PatchError)) throw error;
+          res.status(error.status).json({ error: error.message, details: error.details });
+          return;
+        }
+        setValidators(res, data, resolveDb(req).lastModified(`${dbPath}/${id}`));
+        res.json(data);
+      };
+    }
+    case 'delete':
+      return async (req, res) => {
+        const id = firstParam(req);
+        const current = await findItem(req, id);
+        if (!current) {
+          res.status(404).json({ error: 'Not found' });
+          return;
+        }
+        if (!checkPreconditions(req, res, current, resolveDb(req).lastModified(`${dbPath}/${id}`))) return;
+        await resolveDb(req).delete(`${dbPath}/${id}`, idField);
+        res.status(204).send();
+      };
+    default:
+      return async (_req, res) => {
+        res.status(501).json({ error: 'Not implemented' });
+      };
+  }
+}
@@ -0,0 +1,204 @@
+import type express from 'express';
+import type { OperationContext, ScenarioConfig, ScenarioResponse, ScenarioStep, ScenariosFileConfig } from './types.js';
+import { Logger } from './utils/logger.js';
+
+/**
+ * Operation extension declaring the steps an operation plays in one or more scenarios.
+ */
+export const SCENARIO_EXTENSION = 'x-mock-scenario';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'options', 'head', 'trace'];
+
+/**
+ * A scenario as reported by the admin API.
+ */
+export interface ScenarioInfo {
+  name: string;
+  state: string;
+  initialState: string;
+  states: string[];
+}
+
+/**
+ * Check whether a step applies to an operation, by operationId or `METHOD /path`.
+ */
+function stepMatches(step: ScenarioStep, ctx: OperationContext): boolean {
+  if (step.spec && step.spec !== ctx.specName) return false;
+  if (!step.operation) return false;
+  if (step.operation === ctx.operation?.operationId) return true;
+  const [method, ...rest] = step.operation.trim().split(/\s+/);
+  return method.toUpperCase() === ctx.method.toUpperCase() && rest.join(' ') === ctx.path;
+}
+
+/**
+ * Scenarios model multi-step flows as state machines: each scenario has a current state, and the
+ * steps matching the called operation in that state pick the response and the next state.
+ * Scenarios come from the `--scenarios` file and from `x-mock-scenario` on operations
+ * (`{ name, initialState?, steps: [{ state?, transition?, response? }] }`, or an array of those).
+ */
+export class Scenarios {
+  private config: ScenariosFileConfig;
+  private declared = new Map<string, ScenariosFileConfig>();
+  private states = new Map<string, string>();
+
+  /**
+   * @param {ScenariosFileConfig} [config] - Scenarios keyed by name.
+   */
+  constructor(config: ScenariosFileConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Collect the scenarios declared with `x-mock-scenario` in a spec, replacing those it declared before.
+   * @param {string} specName - The spec the operations belong to.
+   * @param {any} api - The OpenAPI document.
+   */
+  register(specName: string, api: any): void {
+    const declared: ScenariosFileConfig = {};
+    for (const [apiPath, pathItem] of Object.entries<any>(api.paths || {})) {
+      for (const method of HTTP_METHODS) {
+        const extension = pathItem?.[method]?.[SCENARIO_EXTENSION];
+        if (!extension) continue;
+        for (const { name, initialState, steps } of [].concat(extension) as (ScenarioConfig & { name: string })[]) {
+          if (!name) continue;
+          const scenario = declared[name] = declared[name] || { steps: [] };
+          if (initialState) scenario.initialState = initialState;
+          (steps || []).forEach(step => scenario.steps.push({ ...step, spec: specName, operation: `${method.toUpperCase()} ${apiPath}` }));
+        }
+      }
+    }
+    this.declared.set(specName, declared);
+  }
+
+  /**
+   * Forget the scenarios declared in a spec.
+   * @param {string} specName - The spec name.
+   */
+  unregister(specName: string): void {
+    this.declared.delete(specName);
+  }
+
+  /**
+   * List every scenario with its current state.
+   * @returns {ScenarioInfo[]} The scenarios.
+   */
+  list(): ScenarioInfo[] {
+    return Object.keys(this.definitions()).map(name => this.get(name)!);
+  }
+
+  /**
+   * Get a scenario with its current state.
+   * @param {string} name - The scenario name.
+   * @returns {ScenarioInfo | undefined} The scenario, or undefined if it is not declared.
+   */
+  get(name: string): ScenarioInfo | undefined {
+    const scenario = this.definitions()[name];
+    if (!scenario) return undefined;
+    const initialState = this.initialState(scenario);
+    const states = new Set([initialState]);
+    scenario.steps.forEach(step => [step.state, step.transition].forEach(state => state && states.add(state)));
+    return { name, state: this.states.get(name) || initialState, initialState, states: [...states] };
+  }
+
+  /**
+   * Move a scenario to a state.
+   * @param {string} name - The scenario name.
+   * @param {string} state - The new state.
+   * @returns {boolean} False if the scenario is not declared.
+   */
+  setState(name: string, state: string): boolean {
+    if (!this.definitions()[name]) return false;
+    this.states.set(name, state);
+    return true;
+  }
+
+  /**
+   * Move a scenario, or every scenario, back to its initial state.
+   * @param {string} [name] - The scenario name; all scenarios when omitted.
+   * @returns {boolean} False if the scenario is not declared.
+   */
+  reset(name?: string): boolean {
+    if (name === undefined) {
+      this.states.clear();
+      return true;
+    }
+    if (!this.definitions()[name]) return false;
+    this.states.delete(name);
+    return true;
+  }
+
+  /**
+   * Play the steps matching an operation in the current state of each scenario: apply their transitions
+   * and return the response of the first step that declares one.
+   * @param {OperationContext} ctx - The called operation.
+   * @returns {ScenarioResponse | undefined} The response to send, if any.
+   */
+  play(ctx: OperationContext): ScenarioResponse | undefined {
+    let response: ScenarioResponse | undefined;
+    for (const [name, scenario] of Object.entries(this.definitions())) {
+      const state = this.states.get(name) || this.initialState(scenario);
+      const step = scenario.steps.find(s => stepMatches(s, ctx) && (!s.state || s.state === state));
+      if (!step) continue;
+      if (step.transition && step.transition !== state) {
+        Logger.info(`[Scenario] ${name}: ${state} -> ${step.transition}`);
+        this.states.set(name, step.transition);
+      }
+      response = response || step.response;
+    }
+    return response;
+  }
+
+  /**
+   * Merge the configured scenarios with those declared in the specs.
+   */
+  private definitions(): ScenariosFileConfig {
+    const definitions: ScenariosFileConfig = {};
+    const add = (name: string, scenario: ScenarioConfig) => {
+      const target = definitions[name] = definitions[name] || { steps: [] };
+      target.initialState = target.initialState || scenario.initialState;
+      target.steps.push(...(scenario.steps || []));
+    };
+    Object.entries(this.config).forEach(([name, scenario]) => add(name, scenario));
+    for (const declared of this.declared.values()) {
+      Object.entries(declared).forEach(([name, scenario]) => add(name, scenario));
+    }
+    return definitions;
+  }
+
+  private initialState(scenario: ScenarioConfig): string {
+    return scenario.initialState || scenario.steps.find(step => step.state)?.state || 'Started';
+  }
+
+  /**
+   * Express middleware playing the scenarios for the operation in `res.locals.openapi`. A step response
+   * with a body answers the request; one with `merge` lets the route answer and patches its JSON body.
+   * @returns Express middleware
+   */
+  middleware(): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      if (!ctx || !ctx.operation) return next();
+      const response = this.play(ctx);
+      if (!response) return next();
+
+      Logger.debug(`[Scenario] ${req.method} ${ctx.path} answered by a scenario step`);
+      if (response.headers) res.set(response.headers);
+      if (response.body !== undefined) {
+        res.status(response.status || 200).json(response.body);
+        return;
+      }
+      if (response.status && !response.merge) {
+        res.status(response.status).end();
+        return;
+      }
+      if (response.status) res.status(response.status);
+      if (response.merge) {
+        const originalJson = res.json.bind(res);
+        res.json = (body?: any) => originalJson(
+          body && typeof body === 'object' && !Array.isArray(body) ? { ...body, ...response.merge } : body
+        );
+      }
+      next();
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import type express from 'express';
+import { randomBytes } from 'crypto';
+import { OpenAPIV3 } from 'openapi-types';
+import type { OperationContext, SecurityConfig } from './types.js';
+import { Logger } from './utils/logger.js';
+import { resolveRef } from './utils/openapi.js';
+import { isJwt, signJwt, verifyJwt } from './utils/jwt.js';
+import { parseCookies } from './utils/http.js';
+
+/**
+ * Path of the local stand-in OAuth2 token endpoint.
+ */
+export const TOKEN_ENDPOINT = '/__auth/token';
+
+/**
+ * Outcome of checking a request against an operation's security requirements.
+ */
+export type SecurityResult =
+  | { ok: true }
+  | { ok: false; status: 401 | 403; message: string; challenge?: string; requiredScopes?: string[] };
+
+/**
+ * Outcome of checking a single scheme of a requirement.
+ */
+interface SchemeCheck {
+  authenticated: boolean;
+  message?: string;
+  challenge?: string;
+  missingScopes?: string[];
+}
+
+/**
+ * Get the credentials of an Authorization header for a given scheme (e.g. 'Bearer').
+ */
+function authorizationCredentials(req: express.Request, scheme: string): string | undefined {
+  const header = req.headers.authorization || '';
+  const [type, ...rest] = header.split(' ');
+  if (!type || type.toLowerCase() !== scheme.toLowerCase()) return undefined;
+  const credentials = rest.join(' ').trim();
+  return credentials || undefined;
+}
+
+/**
+ * Security enforces the `security` requirements of each operation (falling back to the document's),
+ * using the declared `components.securitySchemes`. Missing or rejected credentials yield a 401,
+ * valid OAuth2/OpenID Connect tokens lacking required scopes yield a 403.
+ */
+export class Security {
+  private config: SecurityConfig;
+  private secret: string;
+
+  /**
+   * @param {SecurityConfig} [config] - Accepted credentials and token settings.
+   */
+  constructor(config: SecurityConfig = {}) {
+    this.config = config;
+    this.secret = config.jwtSecret || randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Issue a signed JWT granting the given scopes.
+   * @param {string[]} scopes - The granted scopes.
+   * @param {string} [subject] - The `sub` claim.
+   * @param {number} [ttl] - Lifetime in seconds.
+   * @returns {string} The token.
+   */
+  issueToken(scopes: string[], subject = 'fake-api-client', ttl = this.config.tokenTtl || 3600): string {
+    const now = Math.floor(Date.now() / 1000);
+    return signJwt({ sub: subject, scope: scopes.join(' '), iat: now, exp: now + ttl }, this.secret);
+  }
+
+  /**
+   * Check a request against the security requirements of an operation.
+   * @param {any} api - The OpenAPI document.
+   * @param {OpenAPIV3.OperationObject} operation - The matched operation.
+   * @param {express.Request} req - The request.
+   * @returns {SecurityResult} Whether the request may proceed, and why not.
+   */
+  check(api: any, operation: OpenAPIV3.OperationObject, req: express.Request): SecurityResult {
+    const requirements: OpenAPIV3.SecurityRequirementObject[] = operation.security || api.security || [];
+    if (requirements.length === 0) return { ok: true };
+    const schemes = (api.components && api.components.securitySchemes) || {};
+
+    let forbidden: SecurityResult | undefined;
+    const failures: SchemeCheck[] = [];
+    // Requirements are alternatives; the schemes within one requirement must all be satisfied
+    for (const requirement of requirements) {
+      const entries = Object.entries(requirement);
+      if (entries.length === 0) return { ok: true };
+
+      const checks = entries.map(([name, scopes]) => {
+        const scheme = resolveRef<OpenAPIV3.SecuritySchemeObject>(api, schemes[name]);
+        if (!scheme) return { authenticated: false, message: `Unknown security scheme "${name}"` };
+        return this.checkScheme(scheme, scopes || [], req);
+      });
+
+      const failed = checks.find(c => !c.authenticated);
+      if (failed) {
+        failures.push(failed);
+        continue;
+      }
+      const missing = checks.flatMap(c => c.missingScopes || []);
+      if (missing.length > 0) {
+        forbidden = forbidden || {
+          ok: false,
+          status: 403,
+          message: `Insufficient scope, missing: ${missing.join(' ')}`,
+          challenge: `Bearer error="insufficient_scope", scope="${missing.join(' ')}"`,
+          requiredScopes: missing,
+        };
+        continue;
+      }
+      return { ok: true };
+    }
+    if (forbidden) return forbidden;
+    const messages = [...new Set(failures.map(f => f.message || 'Unauthorized'))];
+    const challenge = failures.find(f => f.challenge)?.challenge;
+    return { ok: false, status: 401, message: messages.join('; ') || 'Unauthorized', challenge };
+  }
+
+  private checkScheme(scheme: OpenAPIV3.SecuritySchemeObject, scopes: string[], req: express.Request): SchemeCheck {
+    switch (scheme.type) {
+      case 'apiKey': {
+        const value = scheme.in === 'header' ? req.get(scheme.name)
+          : scheme.in === 'query' ? (req.query[scheme.name] as string | undefined)
+          : parseCookies(req.headers.cookie)[scheme.name];
+        if (!value) return { authenticated: false, message: `Missing API key "${scheme.name}" in ${scheme.in}` };
+        if (this.config.apiKeys && !this.config.apiKeys.includes(String(value))) {
+          return { authenticated: false, message: 'Invalid API key' };
+        }
+        return { authenticated: true };
+      }
+      case 'http': {
+        const type = scheme.scheme.toLowerCase();
+        if (type === 'bearer') return this.checkBearer(scopes, req);
+        const challenge = `${type === 'basic' ? 'Basic' : scheme.scheme} realm="fake-api"`;
+        const credentials = authorizationCredentials(req, scheme.scheme);
+        if (!credentials) return { authenticated: false, message: `Missing ${scheme.scheme} credentials`, challenge };
+        if (type === 'basic' && this.config.users) {
+          const decoded = Buffer.from(credentials, 'base64').toString('utf-8');
+          if (!this.config.users.includes(decoded)) return { authenticated: false, message: 'Invalid credentials', challenge };
+        }
+        return { authenticated: true };
+      }
+      case 'oauth2':
+      case 'openIdConnect':
+        return this.checkBearer(scopes, req);
+      default:
+        return { authenticated: true };
+    }
+  }
+
+  /**
+   * Check a bearer token: issued JWTs carry their scopes, configured tokens carry the scopes they are mapped to.
+   */
+  private checkBearer(scopes: string[], req: express.Request): SchemeCheck {
+    const challenge = 'Bearer realm="fake-api"';
+    const token = authorizationCredentials(req, 'Bearer');
+    if (!token) return { authenticated: false, message: 'Missing bearer token', challenge };
+
+    const invalid: SchemeCheck = { authenticated: false, message: 'Invalid token', challenge: `Bearer error="invalid_token"` };
+    let granted: string[] | '*';
+    if (isJwt(token) && verifyJwt(token, this.secret, 0)) {
+      const claims = verifyJwt(token, this.secret);
+      if (!claims) return { authenticated: false, message: 'Token has expired', challenge: `Bearer error="invalid_token"` };
+      granted = String(claims.scope || '').split(' ').filter(Boolean);
+    } else if (!this.config.tokens) {
+      // Any opaque token is accepted, but a JWT this server cannot verify was tampered with or issued elsewhere
+      if (isJwt(token)) return invalid;
+      granted = '*';
+    } else if (Array.isArray(this.config.tokens)) {
+      if (!this.config.tokens.includes(token)) return invalid;
+      granted = '*';
+    } else {
+      const tokenScopes = Object.prototype.hasOwnProperty.call(this.config.tokens, token) ? this.config.tokens[token] : undefined;
+      if (!Array.isArray(tokenScopes)) return invalid;
+      granted = tokenScopes;
+    }
+
+    const missingScopes = granted === '*' ? [] : scopes.filter(scope => !granted.includes(scope));
+    return { authenticated: true, missingScopes };
+  }
+
+  /**
+   * Express middleware enforcing the security requirements of the operation in `res.locals.openapi`.
+   * @returns Express middleware
+   */
+  middleware(): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      if (!ctx || !ctx.operation) return next();
+      const result = this.check(ctx.api, ctx.operation, req);
+      if (result.ok) return next();
+
+      Logger.warn(`[Security] ${req.method} ${ctx.path} -> ${result.status}: ${result.message}`);
+      if (result.challenge) res.set('WWW-Authenticate', result.challenge);
+      res.status(result.status).json({
+        error: result.status === 401 ? 'Unauthorized' : 'Forbidden',
+        message: result.message,
+        ...(result.requiredScopes ? { requiredScopes: result.requiredScopes } : {}),
+      });
+    };
+  }
+
+  /**
+   * Express handler for a stand-in OAuth2 token endpoint. Any grant is accepted; the response is a JWT
+   * granting the requested `scope` (space-separated), valid for `expires_in` seconds when given.
+   * @returns Express request handler
+   */
+  tokenEndpoint(): express.RequestHandler {
+    return (req, res) => {
+      const body = req.body || {};
+      const scopes = String(body.scope || '').split(/\s+/).filter(Boolean);
+      const ttl = Number(body.expires_in) > 0 ? Number(body.expires_in) : this.config.tokenTtl || 3600;
+      const subject = body.username || body.client_id || 'fake-api-client';
+      Logger.info(`[Security] Issuing token for ${subject} with scopes: ${scopes.join(' ') || '(none)'}`);
+      res.set('Cache-Control', 'no-store');
+      res.json({
+        access_token: this.issueToken(scopes, subject, ttl),
+        token_type: 'Bearer',
+        expires_in: ttl,
+        scope: scopes.join(' '),
+      });
+    };
+  }
+}
@@ -10,29 +10,48 @@ import * as jsYaml from 'js-yaml';
 import { Low } from 'lowdb';
 import { JSONFile } from 'lowdb/node';
 import type { Server as HttpServer } from 'http';
-import { Logger } from './utils/logger.js';
-import { findOpenApiPath, castQueryToString, castHeadersToString } from './utils/openapi.js';
-import { getNestedValue, setNestedValue, findItemById } from './utils/db.js';
+import type { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import type { AdminRoute, ChangeEvent, ChangeOperation, OperationContext, PatchOptions, RouteModel, ServerOptions } from './types.js';
+import { ResponseValidator } from './response-validator.js';
+import { Chaos } from './chaos.js';
+import { PreferResponder } from './prefer.js';
+import { Security, TOKEN_ENDPOINT } from './security.js';
+import { createRuntimeRouter, resolveSchemaKey, toExpressPath } from './runtime.js';
+import { buildRouteModel } from './generator.js';
+import { ADMIN_PATH, createAdminRouter } from './admin.js';
+import { landingPage, specDocs, type SpecSummary } from './docs.js';
+import { SessionStore, sessionScoped } from './sessions.js';
+import { Scenarios } from './scenarios.js';
+import { Recordings } from './recordings.js';
+import { UpstreamProxy, captureRawBody } from './proxy.js';
+import { RequestJournal } from './journal.js';
+import { Webhooks } from './webhooks.js';
+import { ChangeFeed, EVENTS_PATH } from './events.js';
+import { negotiateRequest, negotiateResponse } from './negotiation.js';
+import { BINARY_MEDIA_TYPES, Uploads } from './uploads.js';
+import { Idempotency } from './idempotency.js';
+import { BlobStore, FILES_PATH } from './blobs.js';
+import { MockGenerator } from './mock.js';
+import { bindDatabase } from './db.js';
+import { Logger, requestIds } from './utils/logger.js';
+import { findOpenApiPath, extractPathParams, castQueryToString, castHeadersToString, getDeclaredParameterNames, resolveRef, withoutXmlObjects } from './utils/openapi.js';
+import { RESERVED_QUERY_PARAMS } from './utils/pagination.js';
+import { TEXT_MEDIA_TYPES } from './utils/media.js';
+import { applyPatch, JSON_PATCH_TYPE, MERGE_PATCH_TYPE, patchMediaType, PatchError } from './utils/patch.js';
+import { getNestedValue, setNestedValue, findItemById, normalizePath } from './utils/db.js';
+import { ensureDirs, watchDirectory } from './utils/file.js';
+import { getSwaggerFiles, isSwaggerFile } from './utils/swagger.js';
+import { isUnderBasePath, mountPoints, type MountPoint } from './utils/servers.js';
 
 /**
- * Extract path parameters from URL based on OpenAPI path template.
- * @param requestPath - Express request path
- * @param openapiPath - OpenAPI path template
- * @returns Record of path parameters
+ * A spec mounted under `/api/<specName>` and at the mount points derived from its `servers`.
  */
-function extractPathParams(requestPath: string, openapiPath: string): Record<string, string> {
-  const params: Record<string, string> = {};
-  const requestParts = requestPath.split('/');
-  const templateParts = openapiPath.split('/');
-
-  templateParts.forEach((part, i) => {
-    if (part.startsWith('{') && part.endsWith('}')) {
-      const paramName = part.slice(1, -1);
-      params[paramName] = requestParts[i];
-    }
-  });
-
-  return params;
+interface SpecMount {
+  api: OpenAPIV3.Document;
+  model: RouteModel;
+  router: express.Router;
+  points: MountPoint[];
 }
 
 /**
@@ -43,13 +62,47 @@ export class Server {
   private specDir: string;
   private outDir: string;
   private port: number;
+  private options: ServerOptions;
   private db: Low<any>;
+  private database!: Database;
+  private chaos: Chaos;
+  private preferResponder: PreferResponder;
+  private security?: Security;
+  private sessions: SessionStore;
+  private scenarios: Scenarios;
+  private recordings: Recordings;
+  private proxy?: UpstreamProxy;
+  private journal: RequestJournal;
+  private webhooks: Webhooks;
+  private feed = new ChangeFeed();
+  private uploads: Uploads;
+  private idempotency: Idempotency;
+  private mounts = new Map<string, SpecMount>();
+  private seed: Record<string, any> = {};
+  private watchers: fs.FSWatcher[] = [];
+  private httpServer?: HttpServer;
+  private reloading: Promise<void> = Promise.resolve();
 
-  constructor(specDir: string, outDir: string, port: number) {
+  constructor(specDir: string, outDir: string, port: number, options: ServerOptions = {}) {
     this.app = express();
     this.specDir = specDir;
     this.outDir = outDir;
     this.port = port;
+    this.options = options;
+    this.chaos = new Chaos(options.chaos);
+    const mockGenerator = new MockGenerator(specDir, outDir);
+    this.preferResponder = new PreferResponder(mockGenerator);
+    this.webhooks = new Webhooks(options.webhooks, mockGenerator);
+    this.security = options.security === false ? undefined : new Security(options.security || {});
+    this.sessions = new SessionStore(() => this.seed, options.sessionTtl, (id, database) => {
+      database.on('change', (change: ChangeEvent) => this.feed.publish(change, id));
+    });
+    this.scenarios = new Scenarios(options.scenarios);
+    this.recordings = new Recordings(options.recordingsDir || path.join(outDir, 'recordings'));
+    this.journal = new RequestJournal(options.journalFile, options.journalLimit);
+    this.proxy = options.proxy ? new UpstreamProxy(options.proxy, this.recordings, !!options.proxyAll) : undefined;
+    this.uploads = new Uploads(new BlobStore(path.join(outDir, 'blobs')));
+    this.idempotency = new Idempotency(options.idempotencyTtl, req => this.sessions.idFor(req));
     const dbFile = new JSONFile(path.join(outDir, 'db.json'));
     this.db = new Low(dbFile, {});
   }
@@ -60,118 +113,125 @@ export class Server {
    */
   async start(): Promise<HttpServer> {
     await this.db.read();
+    await this.loadDatabase();
+    this.seed = this.database.dump();
+    this.database.on('change', (change: ChangeEvent) => this.feed.publish(change));
     
     this.setupMiddleware();
     await this.setupRoutes();
+    if (this.options.watch) this.startWatching();
     
-    return this.app.listen(this.port, () => {
-      Logger.success(`Server is running on http://localhost:${this.port}`);
+    const server = this.app.listen(this.port);
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+    Logger.success(`Server is running on http://localhost:${(server.address() as AddressInfo).port}`);
+    this.feed.attach(server);
+    server.on('close', () => this.stopWatching());
+    this.httpServer = server;
+    return server;
+  }
+
+  /**
+   * Stop listening, close open connections (including change feed subscribers) and file watchers, and
+   * cancel the webhook and callback deliveries in progress.
+   */
+  async stop(): Promise<void> {
+    this.stopWatching();
+    const server = this.httpServer;
+    if (!server) return;
+    this.httpServer = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      server.closeAllConnections();
+      this.feed.close();
     });
+    await this.webhooks.close();
+  }
+
+  /**
+   * Restore the data the server started with, and reset scenarios, recordings, the journal and idempotency keys.
+   */
+  async reset(): Promise<void> {
+    this.scenarios.reset();
+    this.recordings.rewind();
+    this.journal.clear();
+    this.idempotency.clear();
+    await this.database.replace(JSON.parse(JSON.stringify(this.seed)));
+  }
+
+  /**
+   * Get the database the server reads and writes, available once started.
+   * @returns {Database} The database.
+   */
+  getDatabase(): Database {
+    return this.database;
   }
 
   /**
    * Setup Express middleware for JSON and URL-encoded parsing.
    */
   private setupMiddleware(): void {
-    this.app.use(express.json());
-    this.app.use(express.urlencoded({ extended: true }));
+    this.app.use(requestIds());
+    // Large enough for the admin API to replace the whole database
+    // The bytes received are kept as well, for the proxy to forward bodies unchanged
+    this.app.use(express.json({ limit: '50mb', type: ['application/json', JSON_PATCH_TYPE, MERGE_PATCH_TYPE], verify: captureRawBody }));
+    this.app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
+    // XML, CSV and YAML bodies are decoded per operation, once the request body schema is known
+    this.app.use(express.text({ type: TEXT_MEDIA_TYPES, limit: '50mb', verify: captureRawBody }));
+    // Multipart forms and file uploads are read as bytes and split by the Uploads middleware
+    this.app.use(express.raw({ type: BINARY_MEDIA_TYPES, limit: '50mb', verify: captureRawBody }));
+    // Generated controllers import a shared `db`, pointed at this server's database for its requests
+    this.app.use(bindDatabase(() => this.database));
   }
 
   /**
-   * Dynamically load OpenAPI specs, set up validation, and mount generated routes.
+   * Dynamically load OpenAPI specs, set up validation, and mount generated (or in-memory) routes.
+   * Each spec is served from its own router under `/api/<specName>` and the paths (or hosts) of its
+   * `servers`, so it can be swapped while running.
    */
   private async setupRoutes(): Promise<void> {
-    const specs = fs.readdirSync(this.specDir)
-      .filter(file => file.endsWith('.yaml') || file.endsWith('.json'));
-
-    for (const spec of specs) {
-      Logger.info(`Loading spec: ${spec}`);
-      const api = await SwaggerParser.parse(path.join(this.specDir, spec)) as OpenAPIV3.Document;
-      const specName = path.basename(spec, path.extname(spec));
-      Logger.info(`Mounting routes for: /api/${specName}`);
-
-      // Patch for OpenAPI 3.1 compatibility: ensure webhooks exists only for 3.1.x
-      if (api.openapi && api.openapi.startsWith('3.1') && !('webhooks' in api)) {
-        (api as any).webhooks = {};
-      }
+    for (const spec of getSwaggerFiles(this.specDir)) {
+      await this.mountSpec(spec);
+    }
+    for (const [specName, document] of Object.entries(this.options.specs || {})) {
+      await this.mountDocument(specName, document);
+    }
 
-      // Setup OpenAPI validation using openapi-data-validator
-      Logger.info(`Enabling OpenAPI data validator for: ${spec}`);
-      const specPath = path.join(this.specDir, spec);
-      const rawSpec = jsYaml.load(fs.readFileSync(specPath, 'utf8')) as any;
-      Object.keys(rawSpec.paths).forEach(
-        (k) => rawSpec.paths[k] === undefined && delete rawSpec.paths[k]
-      );
-      const apiSpec = rawSpec as any;
-      const openApiValidator = new OpenApiValidator({ apiSpec });
-      const validator = openApiValidator.createValidator();
-      Logger.debug('OpenAPI paths: ' + JSON.stringify(Object.keys(apiSpec.paths || {})));
-
-      // Load routes
-      const routePath = path.join(process.cwd(), 'dist', 'generated', specName, 'routes');
-      if (fs.existsSync(routePath)) {
-        try {
-          Logger.info(`Importing route module: ${routePath}/index.js`);
-          const routeModule = await import(`file://${path.resolve(routePath, 'index.js')}`);
-          const router = routeModule.default;
-          // BEGIN PATCH: strip base path before the validator so that
-          // the OpenAPI validator sees the exact paths declared in the spec
-          const basePath = `/api/${specName}`;
-          const stripBasePath: express.RequestHandler = (req, _res, next) => {
-            if (req.originalUrl.startsWith(basePath)) {
-              const stripped = req.originalUrl.slice(basePath.length) || '/';
-              Logger.debug(`[StripBasePath] originalUrl: ${req.originalUrl} -> ${stripped}`);
-              // mutate both properties the validator uses
-              (req as any).originalUrl = stripped;
-              req.url = stripped;
-            }
-            next();
-          };
-          // END PATCH
-          // Mount validator and router at the same prefix
-          this.app.use(`/api/${specName}`,
-            (req: express.Request, res: express.Response, next: express.NextFunction) => {
-              Logger.info(`[Validator] Incoming request: ${req.method} ${req.originalUrl}`);
-              next();
-            },
-            stripBasePath,
-            async (req: express.Request, res: express.Response, next: express.NextFunction) => {
-              try {
-                const openapiPath = findOpenApiPath(req.path, apiSpec.paths);
-                Logger.debug(`[OpenAPI Validator] Validating: method=${req.method}, path=${openapiPath}`);
-                
-                // Extract path parameters
-                const pathParams = extractPathParams(req.path, openapiPath);
-                Logger.debug(`[OpenAPI Validator] Path params:`, pathParams);
-
-                await validator({
-                  method: req.method,
-                  route: openapiPath,
-                  query: castQueryToString(req.query),
-                  headers: castHeadersToString(req.headers),
-                  path: pathParams,
-                  body: req.body,
-                });
-                next();
-              } catch (err: any) {
-                Logger.error('OpenAPI Data Validator Error: ' + err);
-                res.status(400).json({ error: err.message, details: err.errors });
-              }
-            },
-            (req: express.Request, res: express.Response, next: express.NextFunction) => {
-              Logger.debug(`[Router] req.url: ${req.url}, req.originalUrl: ${req.originalUrl}`);
-              next();
-            },
-            router
-          );
-        } catch (error) {
-          Logger.error(`Error loading routes from ${routePath}: ${error}`);
-        }
-      } else {
-        Logger.warn(`Route path does not exist: ${routePath}`);
-      }
+    if (this.security) {
+      this.app.post(TOKEN_ENDPOINT, this.security.tokenEndpoint());
     }
 
+    this.app.get(EVENTS_PATH, this.feed.sse());
+    this.app.get(`${FILES_PATH}/:id`, this.uploads.download());
+
+    this.app.use(ADMIN_PATH, createAdminRouter({
+      database: () => this.database,
+      reset: () => this.reset(),
+      routes: () => this.listRoutes(),
+      regenerate: specName => this.regenerateSpecData(specName),
+      sessions: () => this.sessions,
+      scenarios: () => this.scenarios,
+      journal: () => this.journal,
+      webhooks: () => this.webhooks,
+    }));
+
+    // The landing page, unless a spec mounted at the root declares `/` itself
+    const landing = landingPage(() => this.summarizeSpecs());
+    this.app.get('/', (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const match = this.findMount(req);
+      if (match && match.mount.api.paths && match.mount.api.paths['/']) return next();
+      landing(req, res, next);
+    });
+
+    this.app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const match = this.findMount(req);
+      if (!match) return next();
+      res.locals.basePath = match.basePath;
+      match.mount.router(req, res, next);
+    });
+
     // Error handling middleware for OpenAPI validation errors
     this.app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
       Logger.error(`[ERROR HANDLER] path: ${req.path}, method: ${req.method}, error: ${err}`);
@@ -181,18 +241,426 @@ export class Server {
       });
     });
   }
+
+  /**
+   * Parse a spec file and mount it, replacing any previous mount for the spec.
+   * @param {string} spec - The spec file name, relative to specDir.
+   * @param {boolean} [runtime] - Build the routes in memory instead of importing generated code.
+   */
+  private async mountSpec(spec: string, runtime = this.options.runtime): Promise<void> {
+    Logger.info(`Loading spec: ${spec}`);
+    const specPath = path.join(this.specDir, spec);
+    const api = await SwaggerParser.parse(specPath) as OpenAPIV3.Document;
+    const rawSpec = jsYaml.load(fs.readFileSync(specPath, 'utf8')) as any;
+    await this.mountApi(path.basename(spec, path.extname(spec)), api, rawSpec, runtime);
+  }
+
+  /**
+   * Mount an OpenAPI document given in memory. Its routes are always built in memory, as there is no generated code for it.
+   * @param {string} specName - The spec name.
+   * @param {any} document - The OpenAPI document; it is copied, never modified.
+   */
+  private async mountDocument(specName: string, document: any): Promise<void> {
+    Logger.info(`Loading in-memory spec: ${specName}`);
+    const api = await SwaggerParser.parse(structuredClone(document)) as OpenAPIV3.Document;
+    await this.mountApi(specName, api, structuredClone(document), true);
+  }
+
+  /**
+   * Build the validators and router of a parsed spec, replacing any previous mount for the spec.
+   * @param {string} specName - The spec name.
+   * @param {OpenAPIV3.Document} api - The parsed spec.
+   * @param {any} rawSpec - The spec as written, for the request validator.
+   * @param {boolean} [runtime] - Build the routes in memory instead of importing generated code.
+   */
+  private async mountApi(specName: string, api: OpenAPIV3.Document, rawSpec: any, runtime = this.options.runtime): Promise<void> {
+    Logger.info(`Mounting routes for: /api/${specName}`);
+
+    // Patch for OpenAPI 3.1 compatibility: ensure webhooks exists only for 3.1.x
+    if (api.openapi && api.openapi.startsWith('3.1') && !('webhooks' in api)) {
+      (api as any).webhooks = {};
+    }
+
+    // Setup OpenAPI validation using openapi-data-validator
+    Logger.info(`Enabling OpenAPI data validator for: ${specName}`);
+    Object.keys(rawSpec.paths).forEach(
+      (k) => rawSpec.paths[k] === undefined && delete rawSpec.paths[k]
+    );
+    const apiSpec = rawSpec as any;
+    const openApiValidator = new OpenApiValidator({ apiSpec: withoutXmlObjects(apiSpec) });
+    const validator = openApiValidator.createValidator();
+    Logger.debug('OpenAPI paths: ' + JSON.stringify(Object.keys(apiSpec.paths || {})));
+    const responseValidator = new ResponseValidator(specName, apiSpec);
+
+    const router = await this.loadRouter(specName, api, runtime);
+    if (!router) return;
+    const model = buildRouteModel(api);
+    // Operations whose route is backed by a resource are mocked; the proxy forwards the others
+    const mockedOperations = new Set(model.routes
+      .filter(route => resolveSchemaKey(toExpressPath(route.path), model.pathToSchemaKey) !== 'Unknown')
+      .map(route => `${route.method.toLowerCase()} /${route.path}`));
+
+    // BEGIN PATCH: strip base path before the validator so that
+    // the OpenAPI validator sees the exact paths declared in the spec
+    const stripBasePath: express.RequestHandler = (req, res, next) => {
+      const basePath: string = res.locals.basePath;
+      if (basePath && req.originalUrl.startsWith(basePath)) {
+        const stripped = req.originalUrl.slice(basePath.length) || '/';
+        Logger.debug(`[StripBasePath] originalUrl: ${req.originalUrl} -> ${stripped}`);
+        // mutate both properties the validator uses
+        (req as any).originalUrl = stripped;
+        req.url = stripped;
+      }
+      next();
+    };
+    // END PATCH
+    // Chain the validator and router for this spec
+    const mount = express.Router();
+    mount.use(
+      (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        Logger.info(`[Validator] Incoming request: ${req.method} ${req.originalUrl}`);
+        next();
+      },
+      stripBasePath,
+      specDocs(apiSpec),
+      (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const openapiPath = findOpenApiPath(req.path, apiSpec.paths);
+        const pathItem = apiSpec.paths[openapiPath];
+        const context: OperationContext = {
+          specName,
+          api: apiSpec,
+          path: openapiPath,
+          method: req.method.toLowerCase(),
+          operation: pathItem ? pathItem[req.method.toLowerCase()] : undefined,
+          basePath: res.locals.basePath,
+        };
+        res.locals.openapi = context;
+        next();
+      },
+      this.journal.middleware(),
+      this.webhooks.middleware(),
+      this.chaos.middleware(),
+      ...(this.security ? [this.security.middleware()] : []),
+      negotiateRequest(),
+      this.uploads.parse(),
+      async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        try {
+          const openapiPath = (res.locals.openapi as OperationContext).path;
+          Logger.debug(`[OpenAPI Validator] Validating: method=${req.method}, path=${openapiPath}`);
+          
+          // Extract path parameters
+          const pathParams = extractPathParams(req.path, openapiPath);
+          Logger.debug(`[OpenAPI Validator] Path params:`, pathParams);
+
+          // Pagination/sorting params are accepted on every operation, declared or not
+          const declaredQuery = getDeclaredParameterNames(apiSpec.paths[openapiPath], req.method, 'query');
+          const query = castQueryToString(req.query);
+          RESERVED_QUERY_PARAMS.filter(p => !declaredQuery.includes(p)).forEach(p => delete query[p]);
+
+          // Undeclared JSON Patch and Merge Patch documents are checked once applied, against the resource schema
+          const patchType = patchMediaType(req.headers['content-type']);
+          const requestBody = resolveRef<OpenAPIV3.RequestBodyObject | undefined>(apiSpec, (res.locals.openapi as OperationContext).operation?.requestBody);
+          const declared = !patchType || !!(requestBody && requestBody.content && requestBody.content[patchType]);
+
+          await validator({
+            method: req.method,
+            route: openapiPath,
+            query,
+            headers: castHeadersToString(req.headers),
+            path: pathParams,
+            body: declared ? req.body : undefined,
+          });
+          next();
+        } catch (err: any) {
+          Logger.error('OpenAPI Data Validator Error: ' + err);
+          res.status(400).json({ error: err.message, details: err.errors });
+        }
+      },
+      this.idempotency.middleware(),
+      this.uploads.store(),
+      // Proxied responses come from a real service, so they are always checked against the spec
+      responseValidator.middleware(this.options.responseValidation || (this.proxy ? 'warn' : 'off')),
+      negotiateResponse(),
+      this.uploads.respond(),
+      this.preferResponder.middleware(!!this.options.static),
+      this.scenarios.middleware(),
+      this.sessions.middleware(),
+      ...(this.options.replay ? [this.recordings.replay()] : []),
+      ...(this.proxy ? [this.proxy.middleware(ctx => mockedOperations.has(`${ctx.method} ${ctx.path}`))] : []),
+      (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        Logger.debug(`[Router] req.url: ${req.url}, req.originalUrl: ${req.originalUrl}`);
+        next();
+      },
+      router,
+      ...(this.proxy ? [this.proxy.fallback()] : [])
+    );
+    const points = mountPoints(api, (this.options.mounts || {})[specName], this.options.routing);
+    points.forEach(point => Logger.info(`Mounting routes for: ${point.host ? `//${point.host}` : ''}${point.basePath || '/'}`));
+    this.mounts.set(specName, { api, model, router: mount, points });
+    this.scenarios.register(specName, apiSpec);
+    this.webhooks.register(specName, apiSpec);
+  }
+
+  /**
+   * Find the spec a request is for: `/api/<specName>` first, then the mount point with the longest
+   * base path, preferring those matching the requested host.
+   * @param {express.Request} req - The request.
+   * @returns The spec and the base path to strip, if any spec matches.
+   */
+  private findMount(req: express.Request): { mount: SpecMount; basePath: string } | undefined {
+    const prefix = /^\/api\/([^/]+)/.exec(req.path);
+    const named = prefix && this.mounts.get(decodeURIComponent(prefix[1]));
+    if (named) return { mount: named, basePath: prefix[0] };
+
+    let best: { mount: SpecMount; basePath: string; rank: number } | undefined;
+    for (const mount of this.mounts.values()) {
+      for (const point of mount.points) {
+        if (point.host && point.host !== (req.hostname || '').toLowerCase()) continue;
+        if (!isUnderBasePath(req.path, point.basePath)) continue;
+        const rank = (point.host ? 1e6 : 0) + point.basePath.length;
+        if (!best || rank > best.rank) best = { mount, basePath: point.basePath, rank };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * List every mounted route with its operationId and the DB schema key its handler uses.
+   * @returns {AdminRoute[]} The routes, grouped by spec.
+   */
+  private listRoutes(): AdminRoute[] {
+    const routes: AdminRoute[] = [];
+    for (const [specName, { model }] of this.mounts) {
+      for (const route of model.routes) {
+        const routePath = toExpressPath(route.path);
+        routes.push({
+          spec: specName,
+          method: route.method.toUpperCase(),
+          path: `/api/${specName}${routePath.replace(/:([^/]+)/g, '{$1}')}`,
+          operationId: route.operationId,
+          schemaKey: resolveSchemaKey(routePath, model.pathToSchemaKey),
+        });
+      }
+    }
+    return routes;
+  }
+
+  /**
+   * Describe every mounted spec for the landing page.
+   * @returns {SpecSummary[]} The specs with their mount points, routes and record counts.
+   */
+  private summarizeSpecs(): SpecSummary[] {
+    const data = this.database.dump();
+    const routes = this.listRoutes();
+    return [...this.mounts].map(([specName, { api, points }]) => ({
+      name: specName,
+      title: (api.info && api.info.title) || specName,
+      version: api.info && api.info.version,
+      description: api.info && api.info.description,
+      mounts: [{ basePath: `/api/${specName}` }, ...points],
+      routes: routes.filter(route => route.spec === specName),
+      records: Object.fromEntries(Object.entries(data[specName] || {})
+        .map(([collection, value]) => [collection, Array.isArray(value) ? value.length : 1])),
+    }));
+  }
+
+  /**
+   * Replace the data of one spec with freshly generated mock data.
+   * @param {string} specName - The spec name.
+   * @returns {Promise<boolean>} False if the spec is not mounted.
+   */
+  private async regenerateSpecData(specName: string): Promise<boolean> {
+    const mount = this.mounts.get(specName);
+    if (!mount) return false;
+    const data = await new MockGenerator(this.specDir, this.outDir).generateSpecData(mount.api);
+    await this.database.replace({ ...this.database.dump(), [specName]: data });
+    return true;
+  }
+
+  /**
+   * Watch specDir and the db.json in outDir. Changed or added specs are re-mounted with in-memory routes
+   * (generated code would be stale), removed specs are unmounted and external edits to db.json are reloaded.
+   * In-memory specs and databases have nothing to watch.
+   */
+  private startWatching(): void {
+    if (this.specDir) {
+      Logger.info(`Watching ${this.specDir} for spec changes`);
+      this.watchers.push(watchDirectory(this.specDir, isSwaggerFile, spec => this.enqueueReload(() => this.reloadSpec(spec))));
+    }
+
+    if (this.options.inMemory) return;
+    Logger.info(`Watching ${path.join(this.outDir, 'db.json')} for changes`);
+    ensureDirs(this.outDir);
+    this.watchers.push(watchDirectory(this.outDir, file => file === 'db.json', () => this.enqueueReload(async () => {
+      if (this.database.reload()) Logger.success(`Reloaded ${path.join(this.outDir, 'db.json')}`);
+    })));
+  }
+
+  /**
+   * Close all file watchers.
+   */
+  private stopWatching(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+  }
+
+  /**
+   * Run reloads one at a time, so quick successive saves cannot interleave.
+   */
+  private enqueueReload(task: () => Promise<void>): void {
+    this.reloading = this.reloading.then(task).catch(error => {
+      Logger.error(`Reload failed, keeping the previous version: ${error}`);
+    });
+  }
+
+  /**
+   * Re-mount a spec after it changed on disk, or unmount it if it was removed.
+   * Specs without data in the database (e.g. newly added ones) get freshly generated mock data.
+   * @param {string} spec - The spec file name, relative to specDir.
+   */
+  private async reloadSpec(spec: string): Promise<void> {
+    const specName = path.basename(spec, path.extname(spec));
+    if (!fs.existsSync(path.join(this.specDir, spec))) {
+      this.mounts.delete(specName);
+      this.scenarios.unregister(specName);
+      this.webhooks.unregister(specName);
+      Logger.success(`Removed /api/${specName} (${spec} was deleted)`);
+      return;
+    }
+
+    await this.mountSpec(spec, true);
+    if (!this.database.dump()[specName]) {
+      await this.regenerateSpecData(specName);
+      this.seed[specName] = this.database.dump()[specName];
+    }
+    Logger.success(`Reloaded /api/${specName} from ${spec}`);
+  }
+
+  /**
+   * Load the generated route module for a spec, or build the routes in memory from the spec when
+   * there is no generated code (or runtime mode is forced).
+   * @param {string} specName - The spec name.
+   * @param {OpenAPIV3.Document} api - The parsed spec.
+   * @param {boolean} [runtime] - Build the routes in memory even when generated routes exist.
+   * @returns {Promise<express.Router | null>} The router, or null if the generated module failed to load.
+   */
+  private async loadRouter(specName: string, api: OpenAPIV3.Document, runtime = this.options.runtime): Promise<express.Router | null> {
+    const routePath = path.join(process.cwd(), 'dist', 'generated', specName, 'routes');
+    if (!runtime && fs.existsSync(routePath)) {
+      try {
+        Logger.info(`Importing route module: ${routePath}/index.js`);
+        const routeModule = await import(`file://${path.resolve(routePath, 'index.js')}`);
+        return routeModule.default;
+      } catch (error) {
+        Logger.error(`Error loading routes from ${routePath}: ${error}`);
+        return null;
+      }
+    }
+    Logger.info(`Building in-memory routes for: ${specName}`);
+    return createRuntimeRouter(specName, api, this.database);
+  }
+
+  /**
+   * Open the mock database: the `seed` data if given, else db.json in outDir. When there is no db.json yet
+   * (or the database is kept in memory), mock data is generated in memory.
+   */
+  private async loadDatabase(): Promise<void> {
+    const dbPath = this.options.inMemory ? '' : path.join(this.outDir, 'db.json');
+    if (this.options.seed) {
+      this.database = sessionScoped(new Database(dbPath, JSON.parse(JSON.stringify(this.options.seed))));
+    } else if (!dbPath || !fs.existsSync(dbPath)) {
+      Logger.info(dbPath ? `No mock data found at ${dbPath}, generating it in memory` : 'Generating mock data in memory');
+      const mockGenerator = new MockGenerator(this.specDir, this.outDir);
+      const data = await mockGenerator.buildMockData();
+      for (const [specName, document] of Object.entries(this.options.specs || {})) {
+        data[specName] = await mockGenerator.generateSpecData(await SwaggerParser.parse(structuredClone(document)) as OpenAPIV3.Document);
+      }
+      this.database = sessionScoped(new Database(dbPath, data));
+    } else {
+      this.database = sessionScoped(new Database(dbPath));
+    }
+  }
 }
 
 /**
  * Database class for simple JSON file-based data access, supporting CRUD operations.
+ * Every change is emitted as a `change` event ({@link ChangeEvent}).
  */
-export class Database {
+export class Database extends EventEmitter {
   private data: any;
   private dbPath: string;
+  private lastSaved?: string;
+  private shared = false;
+  private modified = new Map<string, number>();
+  private loadedAt = Date.now();
 
-  constructor(dbPath: string) {
+  /**
+   * @param {string} dbPath - The JSON file backing the database; an empty path keeps the data in memory only.
+   * @param {any} [data] - Initial data; when omitted it is read from dbPath (or empty if the file does not exist).
+   */
+  constructor(dbPath: string, data?: any) {
+    super();
     this.dbPath = dbPath;
-    this.data = JSON.parse(fs.readFileSync(dbPath, 'utf-8'));
+    if (data !== undefined) {
+      this.data = data;
+    } else if (dbPath && fs.existsSync(dbPath)) {
+      this.lastSaved = fs.readFileSync(dbPath, 'utf-8');
+      this.data = JSON.parse(this.lastSaved);
+    } else {
+      this.data = {};
+    }
+  }
+
+  /**
+   * Re-read the database from disk, e.g. after db.json was edited by hand.
+   * Content this instance wrote itself, and files that are not valid JSON (yet), are ignored.
+   * @returns {boolean} True if the data was replaced.
+   */
+  reload(): boolean {
+    if (!this.dbPath || !fs.existsSync(this.dbPath)) return false;
+    const content = fs.readFileSync(this.dbPath, 'utf-8');
+    if (content === this.lastSaved) return false;
+    try {
+      this.data = JSON.parse(content);
+    } catch (error) {
+      Logger.warn(`[DB] Ignoring ${this.dbPath}: ${error}`);
+      return false;
+    }
+    this.lastSaved = content;
+    this.resetModified();
+    return true;
+  }
+
+  /**
+   * Create an in-memory copy-on-write view of some data: reads see the given data, which is only
+   * copied on the first write so the source is never modified.
+   * @param {any} data - The data to share.
+   * @returns {Database} A database that is never persisted.
+   */
+  static fork(data: any): Database {
+    const database = new Database('', data);
+    database.shared = true;
+    return database;
+  }
+
+  /**
+   * Get a deep copy of the whole database content.
+   * @returns {Record<string, any>} The data keyed by spec name.
+   */
+  dump(): Record<string, any> {
+    return JSON.parse(JSON.stringify(this.data || {}));
+  }
+
+  /**
+   * Replace the whole database content and persist it.
+   * @param {any} data - The new data.
+   */
+  async replace(data: any): Promise<void> {
+    this.data = data;
+    this.shared = false;
+    this.resetModified();
+    await this.save();
+    this.publish('replace');
   }
 
   /**
@@ -204,15 +672,28 @@ export class Database {
     return getNestedValue(this.data, path);
   }
 
+  /**
+   * Get when a resource last changed. Resources not written since the data was loaded report the load time.
+   * @param {string} path - The path to the resource (e.g., 'users/123').
+   * @returns {Date} The modification time.
+   */
+  lastModified(path: string): Date {
+    return new Date(this.modified.get(normalizePath(path)) ?? this.loadedAt);
+  }
+
   /**
    * Create a new resource in the database at the given path.
    * @param {string} path - The path to the collection.
    * @param {any} data - The data to insert.
+   * @param {string} [idField] - Name of the ID property (defaults to 'id'), reported in the change event.
    * @returns {Promise<any>} The created data.
    */
-  async create(path: string, data: any): Promise<any> {
+  async create(path: string, data: any, idField = 'id'): Promise<any> {
+    this.own();
     const result = setNestedValue(this.data, path, data);
+    if (result && result[idField] !== undefined) this.modified.set(normalizePath(`${path}/${result[idField]}`), Date.now());
     await this.save();
+    this.publish('create', path, result && result[idField], undefined, result);
     return result;
   }
 
@@ -220,52 +701,116 @@ export class Database {
    * Update a resource in the database at the given path.
    * @param {string} path - The path to the resource (e.g., 'users/123').
    * @param {any} data - The new data to replace the resource.
+   * @param {string} [idField] - Name of the ID property (defaults to 'id').
    * @returns {Promise<any>} The updated data or null if not found.
    */
-  async update(path: string, data: any): Promise<any> {
+  async update(path: string, data: any, idField = 'id'): Promise<any> {
+    this.own();
     const id = path.split('/').pop() || '';
-    const [collection, index] = findItemById(this.data, path, id);
+    const [collection, index] = findItemById(this.data, path, id, idField);
     if (!collection || index === -1) return null;
     
+    const before = collection[index];
     collection[index] = data;
+    this.modified.set(normalizePath(path), Date.now());
     await this.save();
+    this.publish('update', path, id, before, collection[index]);
     return collection[index];
   }
 
   /**
-   * Patch (partially update) a resource in the database at the given path.
+   * Patch (partially update) a resource in the database at the given path. The patch is a JSON Patch,
+   * a JSON Merge Patch or, by default, the properties to overwrite; the resource keeps its ID either way.
    * @param {string} path - The path to the resource (e.g., 'users/123').
-   * @param {any} data - The partial data to update.
+   * @param {any} data - The patch.
+   * @param {string} [idField] - Name of the ID property (defaults to 'id').
+   * @param {PatchOptions} [options] - The patch media type and a validation of the result.
    * @returns {Promise<any>} The patched data or null if not found.
+   * @throws {PatchError} When the patch cannot be applied or the result is rejected; nothing is stored.
    */
-  async patch(path: string, data: any): Promise<any> {
+  async patch(path: string, data: any, idField = 'id', options: PatchOptions = {}): Promise<any> {
+    this.own();
     const id = path.split('/').pop() || '';
-    const [collection, index] = findItemById(this.data, path, id);
+    const [collection, index] = findItemById(this.data, path, id, idField);
     if (!collection || index === -1) return null;
     
-    collection[index] = { ...collection[index], ...data };
+    const before = collection[index];
+    const patched = applyPatch(before, data, options.contentType);
+    if (!patched || typeof patched !== 'object' || Array.isArray(patched)) {
+      throw new PatchError('The patched resource must be an object', 422);
+    }
+    if (before[idField] !== undefined) patched[idField] = before[idField];
+    if (options.validate) options.validate(patched);
+    collection[index] = patched;
+    this.modified.set(normalizePath(path), Date.now());
     await this.save();
+    this.publish('patch', path, id, before, collection[index]);
     return collection[index];
   }
 
   /**
    * Delete a resource from the database at the given path.
    * @param {string} path - The path to the resource (e.g., 'users/123').
+   * @param {string} [idField] - Name of the ID property (defaults to 'id').
    */
-  async delete(path: string): Promise<void> {
+  async delete(path: string, idField = 'id'): Promise<void> {
+    this.own();
     const id = path.split('/').pop() || '';
-    const [collection, index] = findItemById(this.data, path, id);
+    const [collection, index] = findItemById(this.data, path, id, idField);
     if (collection && index !== -1) {
-      collection.splice(index, 1);
+      const [before] = collection.splice(index, 1);
+      this.modified.delete(normalizePath(path));
       await this.save();
+      this.publish('delete', path, id, before);
     }
   }
 
+  /**
+   * Emit a change event. The path starts with the spec name; for item paths the last segment is the id.
+   * @private
+   */
+  private publish(operation: ChangeOperation, path?: string, itemId?: string, before?: any, after?: any): void {
+    const segments = (path || '').split('/').filter(Boolean);
+    if (operation !== 'create' && operation !== 'replace') segments.pop();
+    const change: ChangeEvent = {
+      timestamp: new Date().toISOString(),
+      operation,
+      spec: segments[0],
+      collection: segments.slice(1).join('/') || undefined,
+      itemId: itemId === undefined ? undefined : String(itemId),
+      before: before === undefined ? undefined : JSON.parse(JSON.stringify(before)),
+      after: after === undefined ? undefined : JSON.parse(JSON.stringify(after)),
+    };
+    this.emit('change', change);
+  }
+
+  /**
+   * Forget the modification times of individual resources after the whole data set was replaced.
+   * @private
+   */
+  private resetModified(): void {
+    this.modified.clear();
+    this.loadedAt = Date.now();
+  }
+
+  /**
+   * Take a private copy of shared data before it is modified.
+   * @private
+   */
+  private own(): void {
+    if (!this.shared) return;
+    this.data = JSON.parse(JSON.stringify(this.data || {}));
+    this.shared = false;
+  }
+
   /**
    * Save the current state of the database to disk.
    * @private
    */
   private async save(): Promise<void> {
-    await fs.promises.writeFile(this.dbPath, JSON.stringify(this.data, null, 2));
+    if (!this.dbPath) return;
+    await fs.promises.mkdir(path.dirname(this.dbPath), { recursive: true });
+    this.lastSaved = JSON.stringify(this.data, null, 2);
+    await fs.promises.writeFile(this.dbPath, this.lastSaved);
   }
 }
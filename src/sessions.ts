@@ -0,0 +1,169 @@
+import type express from 'express';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Database } from './server.js';
+import { Logger } from './utils/logger.js';
+import { parseCookies } from './utils/http.js';
+
+/**
+ * Request header naming the data session of a request.
+ */
+export const SESSION_HEADER = 'x-mock-session';
+
+/**
+ * Cookie naming the data session of a request, used when the header is absent.
+ */
+export const SESSION_COOKIE = 'mock_session';
+
+/**
+ * A data session as reported by the admin API.
+ */
+export interface SessionInfo {
+  id: string;
+  createdAt: string;
+  lastAccessedAt: string;
+  expiresAt: string;
+  requests: number;
+}
+
+interface Session {
+  database: Database;
+  createdAt: number;
+  lastAccessedAt: number;
+  requests: number;
+}
+
+/**
+ * The session database of the request being handled, if any.
+ */
+const activeDatabase = new AsyncLocalStorage<Database>();
+
+/**
+ * Wrap a database so that, while a request bound to a session is handled, every call goes to
+ * that session's database instead. Outside of sessions the wrapped database is used as is.
+ * @param database - The shared database
+ * @returns A database routing calls to the active session
+ */
+export function sessionScoped(database: Database): Database {
+  return new Proxy(database, {
+    get(target, property) {
+      const active = activeDatabase.getStore() || target;
+      const value = Reflect.get(active, property);
+      return typeof value === 'function' ? value.bind(active) : value;
+    },
+  });
+}
+
+/**
+ * SessionStore gives each client naming a session (with the `X-Mock-Session` header or the
+ * `mock_session` cookie) its own copy-on-write view of the seed data. Sessions are created on
+ * first use, never persisted, and expire once unused for longer than the TTL.
+ */
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+  private seed: () => Record<string, any>;
+  private ttl: number;
+  private onStart?: (id: string, database: Database) => void;
+
+  /**
+   * @param {() => Record<string, any>} seed - Returns the data new sessions start from.
+   * @param {number} [ttl] - Seconds of inactivity after which a session expires.
+   * @param {(id: string, database: Database) => void} [onStart] - Called with the database of every new session.
+   */
+  constructor(seed: () => Record<string, any>, ttl = 1800, onStart?: (id: string, database: Database) => void) {
+    this.seed = seed;
+    this.ttl = ttl;
+    this.onStart = onStart;
+  }
+
+  /**
+   * Get the session named by a request, from the header or else the cookie.
+   * @param {express.Request} req - The request.
+   * @returns {string | undefined} The session id.
+   */
+  idFor(req: express.Request): string | undefined {
+    const header = req.headers[SESSION_HEADER];
+    const id = (Array.isArray(header) ? header[0] : header) || parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    return id ? id.trim() || undefined : undefined;
+  }
+
+  /**
+   * Get the database of a session, starting the session if it does not exist (or has expired).
+   * @param {string} id - The session id.
+   * @returns {Database} The session's database.
+   */
+  get(id: string): Database {
+    this.sweep();
+    let session = this.sessions.get(id);
+    if (!session) {
+      Logger.info(`[Sessions] Starting session ${id}`);
+      session = { database: Database.fork(this.seed()), createdAt: Date.now(), lastAccessedAt: Date.now(), requests: 0 };
+      this.sessions.set(id, session);
+      if (this.onStart) this.onStart(id, session.database);
+    }
+    session.lastAccessedAt = Date.now();
+    session.requests++;
+    return session.database;
+  }
+
+  /**
+   * List the live sessions.
+   * @returns {SessionInfo[]} The sessions, oldest first.
+   */
+  list(): SessionInfo[] {
+    this.sweep();
+    return [...this.sessions].map(([id, session]) => ({
+      id,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastAccessedAt: new Date(session.lastAccessedAt).toISOString(),
+      expiresAt: new Date(session.lastAccessedAt + this.ttl * 1000).toISOString(),
+      requests: session.requests,
+    }));
+  }
+
+  /**
+   * Delete a session; its next request starts again from the seed.
+   * @param {string} id - The session id.
+   * @returns {boolean} False if there was no such session.
+   */
+  delete(id: string): boolean {
+    this.sweep();
+    return this.sessions.delete(id);
+  }
+
+  /**
+   * Delete every session.
+   * @returns {number} The number of sessions deleted.
+   */
+  clear(): number {
+    this.sweep();
+    const count = this.sessions.size;
+    this.sessions.clear();
+    return count;
+  }
+
+  /**
+   * Drop sessions that have been idle for longer than the TTL.
+   */
+  private sweep(): void {
+    const cutoff = Date.now() - this.ttl * 1000;
+    for (const [id, session] of this.sessions) {
+      if (session.lastAccessedAt <= cutoff) {
+        Logger.info(`[Sessions] Session ${id} expired`);
+        this.sessions.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Express middleware binding requests that name a session to that session's database, so that
+   * databases wrapped with {@link sessionScoped} read and write the session's data.
+   * @returns Express middleware
+   */
+  middleware(): express.RequestHandler {
+    return (req, _res, next) => {
+      const id = this.idFor(req);
+      if (!id) return next();
+      activeDatabase.run(this.get(id), next);
+    };
+  }
+}
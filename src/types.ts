@@ -35,4 +35,222 @@ export interface GeneratedRoute {
   path: string;
   controllers: string[];
   routes: string;
-}
\ No newline at end of file
+}
+
+export type ResponseValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * Fault and latency injection settings. Rates are percentages (0-100) rolled independently per request.
+ */
+export interface ChaosConfig {
+  /** Delay in milliseconds, either fixed or picked uniformly from a range. */
+  latency?: number | { min: number; max: number };
+  /** Percentage of requests answered with `errorStatus` instead of reaching the route. */
+  errorRate?: number;
+  /** Status code for injected errors (defaults to 500). */
+  errorStatus?: number;
+  /** Percentage of requests whose connection is destroyed without a response. */
+  dropRate?: number;
+  /** Percentage of responses cut off halfway through the body. */
+  truncateRate?: number;
+}
+
+/**
+ * Credentials accepted when enforcing `securitySchemes`. When a list is omitted, any non-empty credential
+ * of that kind is accepted. Tokens issued by the local token endpoint are always accepted until they expire.
+ */
+export interface SecurityConfig {
+  /** Accepted bearer/OAuth2 tokens, as a list (granting every scope) or mapped to their granted scopes. */
+  tokens?: string[] | Record<string, string[]>;
+  /** Accepted API keys. */
+  apiKeys?: string[];
+  /** Accepted HTTP basic credentials, as "user:password". */
+  users?: string[];
+  /** Secret used to sign and verify issued JWTs. */
+  jwtSecret?: string;
+  /** Lifetime of issued tokens in seconds (defaults to 3600). */
+  tokenTtl?: number;
+}
+
+/**
+ * Chaos configuration file: global settings plus per-route overrides keyed by
+ * `"<METHOD> <path>"` or `"<path>"`, with paths as declared in the spec (e.g. `"GET /posts/{postId}"`).
+ */
+export interface ChaosFileConfig extends ChaosConfig {
+  routes?: Record<string, ChaosConfig>;
+}
+
+/**
+ * A response sent by a scenario step. With `body` the step answers on its own; with `merge` the
+ * route still answers and the given properties are merged into its JSON body.
+ */
+export interface ScenarioResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: any;
+  merge?: Record<string, any>;
+}
+
+/**
+ * One step of a scenario: when `operation` is called while the scenario is in `state`
+ * (or in any state, if omitted), answer with `response` and move to `transition`.
+ */
+export interface ScenarioStep {
+  /** Restrict the step to one spec. */
+  spec?: string;
+  /** An operationId or `METHOD /path` as declared in the spec; implied for `x-mock-scenario`. */
+  operation?: string;
+  state?: string;
+  transition?: string;
+  response?: ScenarioResponse;
+}
+
+export interface ScenarioConfig {
+  /** State the scenario starts (and is reset) in; defaults to the first step's state. */
+  initialState?: string;
+  steps: ScenarioStep[];
+}
+
+/**
+ * Scenarios keyed by name, as read from the `--scenarios` file.
+ */
+export type ScenariosFileConfig = Record<string, ScenarioConfig>;
+
+/**
+ * Delivery settings for callbacks and webhooks, as read from the `--webhooks` file.
+ */
+export interface WebhooksConfig {
+  /** Retries after a failed attempt (defaults to 3). */
+  retries?: number;
+  /** Milliseconds before the first retry, doubled for every further retry (defaults to 1000). */
+  retryDelay?: number;
+  /** Milliseconds before an attempt times out (defaults to 5000). */
+  timeout?: number;
+  /** Target URL per webhook name, used when a trigger does not give one. */
+  targets?: Record<string, string>;
+}
+
+export type ChangeOperation = 'create' | 'update' | 'patch' | 'delete' | 'replace';
+
+/**
+ * How `Database.patch` applies a patch.
+ */
+export interface PatchOptions {
+  /** Media type of the patch: JSON Patch, JSON Merge Patch, or a shallow merge for any other. */
+  contentType?: string;
+  /** Called with the patched resource before it is stored; throws a `PatchError` to reject it. */
+  validate?: (resource: any) => void;
+}
+
+/**
+ * A change made to the database. `replace` swaps the whole content and names no spec or collection.
+ */
+export interface ChangeEvent {
+  timestamp: string;
+  operation: ChangeOperation;
+  spec?: string;
+  collection?: string;
+  itemId?: string;
+  before?: any;
+  after?: any;
+}
+
+/**
+ * How requests are matched to specs besides `/api/<specName>`: by the path of their server URLs
+ * only, or by host name as well (virtual hosts).
+ */
+export type RoutingMode = 'path' | 'host';
+
+/**
+ * Where one spec is served, overriding what its `servers` declare.
+ */
+export interface MountConfig {
+  /** Path prefix the spec is served under (e.g. `/v2/inventory`; `/` for the root). */
+  basePath?: string;
+  /** Host name the spec is served for with host routing. */
+  host?: string;
+  /** Values of the server variables, instead of their defaults. */
+  variables?: Record<string, string>;
+}
+
+/**
+ * Mount settings keyed by spec name, as read from the `--mounts` file.
+ */
+export type MountsFileConfig = Record<string, MountConfig>;
+
+export interface ServerOptions {
+  responseValidation?: ResponseValidationMode;
+  /** Build routes in memory from the specs even when generated routes exist. */
+  runtime?: boolean;
+  /** Watch specDir and db.json, and hot-reload specs and data when they change. */
+  watch?: boolean;
+  /** Answer operations with their documented example response instead of the database. */
+  static?: boolean;
+  /** Fault and latency injection applied to every mounted spec. */
+  chaos?: ChaosFileConfig;
+  /** Credentials accepted for the specs' security schemes, or false to disable enforcement. */
+  security?: SecurityConfig | false;
+  /** Seconds of inactivity after which a data session (`X-Mock-Session`) expires. */
+  sessionTtl?: number;
+  /** Stateful scenarios, in addition to those declared with `x-mock-scenario`. */
+  scenarios?: ScenariosFileConfig;
+  /** Upstream base URL that operations not backed by a resource are forwarded to, and recorded. */
+  proxy?: string;
+  /** Forward every operation to the upstream, not only the unmocked ones. */
+  proxyAll?: boolean;
+  /** Answer requests with their recorded responses where available. */
+  replay?: boolean;
+  /** Directory of the proxy recordings (defaults to `<outDir>/recordings`). */
+  recordingsDir?: string;
+  /** JSONL file every journaled request is appended to. */
+  journalFile?: string;
+  /** Number of requests kept in the in-memory journal. */
+  journalLimit?: number;
+  /** Retry settings and targets for callbacks and webhooks. */
+  webhooks?: WebhooksConfig;
+  /** Seconds a response stored for an `Idempotency-Key` is replayed for. */
+  idempotencyTtl?: number;
+  /** Whether the host names of server URLs are matched, in addition to their paths (defaults to `path`). */
+  routing?: RoutingMode;
+  /** Per-spec base paths, hosts and server variables, overriding the specs' `servers`. */
+  mounts?: MountsFileConfig;
+  /** OpenAPI documents keyed by spec name, mounted in addition to the spec files in specDir. */
+  specs?: Record<string, any>;
+  /** Initial data keyed by spec name, used instead of db.json or generated mock data. */
+  seed?: Record<string, any>;
+  /** Keep the database in memory only: db.json in outDir is neither read nor written. */
+  inMemory?: boolean;
+}
+
+/**
+ * The OpenAPI operation matched for an incoming request, stored on `res.locals.openapi`.
+ */
+export interface OperationContext {
+  specName: string;
+  api: OpenAPIV3.Document;
+  path: string;
+  method: string;
+  operation?: OpenAPIV3.OperationObject;
+  /** Path prefix the spec was reached under, e.g. `/api/<specName>` or the path of a server URL. */
+  basePath?: string;
+}
+
+/**
+ * Routes, controllers and the path-to-schema-key mapping derived from one OpenAPI document.
+ */
+export interface RouteModel {
+  routes: RouteConfig[];
+  controllers: ControllerConfig[];
+  pathToSchemaKey: Record<string, string>;
+}
+
+/**
+ * A mounted route as listed by the admin API.
+ */
+export interface AdminRoute {
+  spec: string;
+  method: string;
+  path: string;
+  operationId: string;
+  schemaKey: string;
+}
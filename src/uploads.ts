@@ -0,0 +1,173 @@
+import type express from 'express';
+import { OpenAPIV3 } from 'openapi-types';
+import type { OperationContext } from './types.js';
+import { BlobStore, isFileMetadata, type FileMetadata } from './blobs.js';
+import { Logger } from './utils/logger.js';
+import { findResponseKey, resolveRef } from './utils/openapi.js';
+import { contentDisposition } from './utils/http.js';
+import { mediaKind } from './utils/media.js';
+import { multipartBoundary, parseMultipart, type MultipartPart } from './utils/multipart.js';
+
+/**
+ * Media types of request bodies read as raw bytes: multipart forms and binary uploads.
+ */
+export const BINARY_MEDIA_TYPES = ['multipart/form-data', 'application/octet-stream', 'image/*', 'audio/*', 'video/*', 'application/pdf', 'application/zip'];
+
+/**
+ * Add a form field to a body, collecting repeated fields into an array.
+ */
+function addField(body: Record<string, any>, name: string, value: any): void {
+  if (!(name in body)) body[name] = value;
+  else body[name] = Array.isArray(body[name]) ? [...body[name], value] : [body[name], value];
+}
+
+/**
+ * Read the file name of a raw upload from its Content-Disposition header.
+ */
+function dispositionFilename(header: string | undefined): string | undefined {
+  const match = (header || '').match(/filename="?([^";]+)"?/i);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Uploads handles `multipart/form-data` and binary request bodies: uploaded files are written to the
+ * blob store and replaced in the request body by their metadata, so handlers persist the metadata in
+ * the owning record. Handlers answering with file metadata on a binary response send the file itself.
+ */
+export class Uploads {
+  private blobs: BlobStore;
+
+  /**
+   * @param {BlobStore} blobs - Where uploaded files are stored.
+   */
+  constructor(blobs: BlobStore) {
+    this.blobs = blobs;
+  }
+
+  /**
+   * Express middleware run before request validation, turning multipart bodies into form fields.
+   * Files are validated by their file name (a string, like `format: binary` declares) and kept
+   * aside until {@link store} saves them; a raw binary body is kept aside as a whole.
+   * @returns Express middleware
+   */
+  parse(): express.RequestHandler {
+    return (req, res, next) => {
+      if (!Buffer.isBuffer(req.body)) return next();
+      if (!req.is('multipart/form-data')) {
+        if (req.body.length === 0) return next();
+        const filename = dispositionFilename(req.headers['content-disposition']);
+        const contentType = String(req.headers['content-type'] || 'application/octet-stream').split(';')[0].trim();
+        res.locals.uploads = [{ name: '', filename, contentType, data: req.body }];
+        req.body = filename || '';
+        return next();
+      }
+
+      const boundary = multipartBoundary(req.headers['content-type']);
+      let parts: MultipartPart[];
+      try {
+        if (!boundary) throw new Error('Content-Type has no boundary');
+        parts = parseMultipart(req.body, boundary);
+      } catch (error: any) {
+        res.status(400).json({ error: `Invalid multipart body: ${error.message}` });
+        return;
+      }
+
+      const body: Record<string, any> = {};
+      const files: MultipartPart[] = [];
+      for (const part of parts) {
+        if (part.filename === undefined) {
+          addField(body, part.name, part.data.toString('utf-8'));
+        } else if (part.filename !== '') {
+          addField(body, part.name, part.filename);
+          files.push(part);
+        }
+      }
+      req.body = body;
+      res.locals.uploads = files;
+      next();
+    };
+  }
+
+  /**
+   * Express middleware run after request validation, writing uploaded files to the blob store and
+   * putting their metadata in the request body: in place of the file fields of multipart bodies, or
+   * as the whole body of raw binary uploads.
+   * @returns Express middleware
+   */
+  store(): express.RequestHandler {
+    return async (req, res, next) => {
+      const files: MultipartPart[] = res.locals.uploads || [];
+      if (files.length === 0) return next();
+      try {
+        const stored = new Map<string, FileMetadata[]>();
+        for (const part of files) {
+          const metadata = await this.blobs.put(part.data, part.filename, part.contentType);
+          stored.set(part.name, [...(stored.get(part.name) || []), metadata]);
+        }
+        for (const [name, metadata] of stored) {
+          if (name === '') req.body = metadata[0];
+          else req.body[name] = Array.isArray(req.body[name]) ? metadata : metadata[0];
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+
+  /**
+   * Express middleware sending the stored file when a handler answers with file metadata and the
+   * declared response is not JSON (e.g. `image/png` or `application/octet-stream`).
+   * @returns Express middleware
+   */
+  respond(): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      if (!ctx || !ctx.operation) return next();
+      const operation = ctx.operation;
+      const originalJson = res.json.bind(res);
+
+      res.json = (body?: any) => {
+        if (!isFileMetadata(body)) return originalJson(body);
+        const responses = operation.responses || {};
+        const key = findResponseKey(responses, res.statusCode);
+        const response = key ? resolveRef<OpenAPIV3.ResponseObject>(ctx.api, responses[key]) : undefined;
+        const types = Object.keys(response?.content || {});
+        if (types.length === 0 || types.some(type => mediaKind(type) === 'json')) return originalJson(body);
+        const blob = this.blobs.get(body.id);
+        if (!blob) {
+          res.status(404);
+          return originalJson({ error: 'File not found' });
+        }
+        this.sendBlob(res, blob.metadata, blob.file, body.filename);
+        return res;
+      };
+      next();
+    };
+  }
+
+  /**
+   * Express handler downloading a stored file by id (`/__files/:id`).
+   * @returns Express request handler
+   */
+  download(): express.RequestHandler {
+    return (req, res) => {
+      const blob = this.blobs.get(req.params.id);
+      if (!blob) {
+        res.status(404).json({ error: 'File not found' });
+        return;
+      }
+      this.sendBlob(res, blob.metadata, blob.file);
+    };
+  }
+
+  /**
+   * Stream a stored file with its media type and file name.
+   */
+  private sendBlob(res: express.Response, metadata: FileMetadata, file: string, filename = metadata.filename): void {
+    Logger.debug(`[Uploads] Sending ${metadata.id} as ${metadata.contentType}`);
+    res.type(metadata.contentType);
+    res.set('Content-Disposition', contentDisposition('inline', filename));
+    res.sendFile(file);
+  }
+}
@@ -0,0 +1,92 @@
+import type { Request, Response } from 'express';
+import { createHash } from 'crypto';
+
+/**
+ * Compute a strong ETag for a stored record from its JSON representation.
+ * @param item - The record
+ * @returns The quoted entity tag
+ */
+export function computeEtag(item: any): string {
+  return `"${createHash('sha1').update(JSON.stringify(item)).digest('base64url')}"`;
+}
+
+/**
+ * Check an entity tag against an `If-Match` or `If-None-Match` header.
+ * @param header - The header value: `*` or a comma-separated list of entity tags
+ * @param etag - The current entity tag
+ * @param weak - Use the weak comparison (ignore `W/` prefixes), as `If-None-Match` does
+ * @returns True if one of the listed tags matches
+ */
+export function etagMatches(header: string, etag: string, weak = false): boolean {
+  if (header.trim() === '*') return true;
+  const tags = header.match(/(W\/)?"[^"]*"/g) || [];
+  return tags.some(tag => {
+    if (tag.startsWith('W/')) return weak && tag.slice(2) === etag;
+    return tag === etag;
+  });
+}
+
+/**
+ * Compare a modification time with an HTTP date, at the one-second precision of HTTP dates.
+ * @returns True if the time is later than the date, or undefined when the date cannot be parsed
+ */
+function modifiedSince(lastModified: Date, header: string): boolean | undefined {
+  const since = Date.parse(header);
+  if (isNaN(since)) return undefined;
+  return Math.floor(lastModified.getTime() / 1000) > Math.floor(since / 1000);
+}
+
+/**
+ * Set the `ETag` and `Last-Modified` validators of a record on a response.
+ * @param res - Express response
+ * @param item - The record
+ * @param lastModified - When the record last changed
+ */
+export function setValidators(res: Response, item: any, lastModified?: Date): void {
+  res.set('ETag', computeEtag(item));
+  if (lastModified) res.set('Last-Modified', lastModified.toUTCString());
+}
+
+/**
+ * Send a record with its validators, or an empty 304 when the client's copy is still current
+ * (`If-None-Match`, or `If-Modified-Since` when no `If-None-Match` was sent).
+ * @param req - Express request
+ * @param res - Express response
+ * @param item - The record
+ * @param lastModified - When the record last changed
+ */
+export function sendItem(req: Request, res: Response, item: any, lastModified?: Date): void {
+  setValidators(res, item, lastModified);
+  const ifNoneMatch = req.get('If-None-Match');
+  const ifModifiedSince = req.get('If-Modified-Since');
+  const notModified = ifNoneMatch !== undefined
+    ? etagMatches(ifNoneMatch, computeEtag(item), true)
+    : ifModifiedSince !== undefined && lastModified !== undefined && modifiedSince(lastModified, ifModifiedSince) === false;
+  if (notModified) {
+    res.status(304).end();
+    return;
+  }
+  res.json(item);
+}
+
+/**
+ * Evaluate the `If-Match` and `If-Unmodified-Since` preconditions of a write against the stored
+ * record, answering 412 Precondition Failed when the client's copy is stale.
+ * @param req - Express request
+ * @param res - Express response
+ * @param item - The stored record
+ * @param lastModified - When the record last changed
+ * @returns True if the write may go ahead; false if a 412 response was sent
+ */
+export function checkPreconditions(req: Request, res: Response, item: any, lastModified?: Date): boolean {
+  const ifMatch = req.get('If-Match');
+  const ifUnmodifiedSince = req.get('If-Unmodified-Since');
+  const etag = computeEtag(item);
+  const failed = ifMatch !== undefined
+    ? !etagMatches(ifMatch, etag)
+    : ifUnmodifiedSince !== undefined && lastModified !== undefined && modifiedSince(lastModified, ifUnmodifiedSince) === true;
+  if (!failed) return true;
+  setValidators(res, item, lastModified);
+  res.status(412).json({ error: 'Precondition failed', etag });
+  return false;
+}
@@ -60,9 +60,10 @@ export function setNestedValue(data: any, path: string, value: any): any {
  * @param data - The data object
  * @param path - Path to the collection
  * @param id - ID to find
+ * @param idField - Name of the ID property (defaults to 'id')
  * @returns [collection, index] or [null, -1]
  */
-export function findItemById(data: any, path: string, id: string): [any[] | null, number] {
+export function findItemById(data: any, path: string, id: string, idField = 'id'): [any[] | null, number] {
   const segments = path.split('/').filter(Boolean);
   if (segments.length < 2) return [null, -1];
 
@@ -70,12 +71,21 @@ export function findItemById(data: any, path: string, id: string): [any[] | null
   let collection = data;
 
   for (const segment of collectionPathSegments) {
-    if (collection[segment] === undefined || !Array.isArray(collection[segment])) {
-      return [null, -1]; // Collection not found or not an array
+    if (collection === undefined || collection === null || collection[segment] === undefined) {
+      return [null, -1]; // Collection not found
     }
     collection = collection[segment];
   }
+  if (!Array.isArray(collection)) return [null, -1]; // Not a collection
 
-  const index = collection.findIndex((item: any) => item.id === id);
+  const index = collection.findIndex((item: any) => item && item[idField] === id);
   return [collection, index];
-} 
\ No newline at end of file
+} 
+/**
+ * Normalize a path string so that equivalent paths compare equal ('/users//123/' -> 'users/123').
+ * @param path - Path string
+ * @returns The path without empty segments
+ */
+export function normalizePath(path: string): string {
+  return path.split('/').filter(Boolean).join('/');
+}
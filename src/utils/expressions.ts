@@ -0,0 +1,84 @@
+/**
+ * The request/response pair OpenAPI runtime expressions are evaluated against.
+ */
+export interface ExpressionSource {
+  url: string;
+  method: string;
+  request: {
+    path: Record<string, any>;
+    query: Record<string, any>;
+    headers: Record<string, any>;
+    body?: any;
+  };
+  response?: {
+    status: number;
+    headers: Record<string, any>;
+    body?: any;
+  };
+}
+
+/**
+ * Resolve a JSON pointer (RFC 6901) in a value.
+ * @param value - The document
+ * @param pointer - The pointer, e.g. '/items/0/id' ('' for the whole document)
+ * @returns The value pointed to, or undefined
+ */
+export function resolvePointer(value: any, pointer: string): any {
+  if (pointer === '') return value;
+  return pointer.replace(/^\//, '').split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((current, token) => (current === null || current === undefined ? undefined : current[token]), value);
+}
+
+/**
+ * Look a header up case-insensitively.
+ */
+function header(headers: Record<string, any>, name: string): any {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+  const value = key === undefined ? undefined : headers[key];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Evaluate an OpenAPI runtime expression, such as `$request.body#/callbackUrl`,
+ * `$request.query.id`, `$response.header.Location`, `$url`, `$method` or `$statusCode`.
+ * @param expression - The expression, without surrounding braces
+ * @param source - The request and response
+ * @returns The value, or undefined when the expression does not resolve
+ */
+export function evaluateExpression(expression: string, source: ExpressionSource): any {
+  if (expression === '$url') return source.url;
+  if (expression === '$method') return source.method.toUpperCase();
+  if (expression === '$statusCode') return source.response?.status;
+
+  const match = expression.match(/^\$(request|response)\.(header|query|path|body)(?:\.([^#]+)|#(.*))?$/);
+  if (!match) return undefined;
+  const [, side, part, name, pointer] = match;
+  const target = side === 'request' ? source.request : source.response;
+  if (!target) return undefined;
+  switch (part) {
+    case 'header':
+      return name ? header(target.headers, name) : undefined;
+    case 'query':
+      return name && side === 'request' ? source.request.query[name] : undefined;
+    case 'path':
+      return name && side === 'request' ? source.request.path[name] : undefined;
+    default:
+      return resolvePointer(target.body, pointer || '');
+  }
+}
+
+/**
+ * Render a template embedding runtime expressions in braces, such as a callback URL
+ * `{$request.body#/callbackUrl}/events?id={$response.body#/id}`.
+ * @param template - The template
+ * @param source - The request and response
+ * @returns The rendered string; expressions that do not resolve render as empty strings
+ */
+export function renderExpression(template: string, source: ExpressionSource): string {
+  return template.replace(/\{(\$[^}]+)\}/g, (_match, expression) => {
+    const value = evaluateExpression(expression, source);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
@@ -1,4 +1,5 @@
 import * as fs from "fs";
+import * as jsYaml from "js-yaml";
 
 export function ensureDirs(dir: string) {
     fs.mkdirSync(dir, { recursive: true }) }
@@ -8,3 +9,36 @@ export function writeJsonFile(filepath: string, data: any)
     fs.writeFileSync(filepath, JSON.stringify(data, null, 2));
 }
 
+/**
+ * Read a JSON or YAML configuration file (YAML unless the file name ends with .json).
+ * @param filepath - Path to the file
+ * @returns The parsed content, or an empty object for an empty file
+ */
+export function readConfigFile<T = any>(filepath: string): T {
+    const content = fs.readFileSync(filepath, 'utf-8');
+    return (filepath.endsWith('.json') ? JSON.parse(content) : jsYaml.load(content)) || {} as T;
+}
+
+/**
+ * Watch a directory and call onChange once per changed file, after events for that file have settled.
+ * Editors often emit several events per save (or replace the file), so events are debounced per file name.
+ * @param dir - Directory to watch
+ * @param filter - Only file names for which this returns true are reported
+ * @param onChange - Called with the changed file name (relative to dir)
+ * @param debounceMs - Quiet period before a change is reported
+ * @returns The underlying watcher; call close() to stop watching
+ */
+export function watchDirectory(dir: string, filter: (file: string) => boolean, onChange: (file: string) => void, debounceMs = 100): fs.FSWatcher {
+    const timers = new Map<string, NodeJS.Timeout>();
+    const watcher = fs.watch(dir, (_event, filename) => {
+        const file = filename ? filename.toString() : '';
+        if (!file || !filter(file)) return;
+        clearTimeout(timers.get(file));
+        timers.set(file, setTimeout(() => {
+            timers.delete(file);
+            onChange(file);
+        }, debounceMs));
+    });
+    watcher.on('close', () => timers.forEach(timer => clearTimeout(timer)));
+    return watcher;
+}
@@ -0,0 +1,38 @@
+/**
+ * Decode a cookie value, keeping it as sent when it is not valid percent-encoding.
+ */
+function decodeCookieValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse a Cookie header into a name/value map.
+ * @param header - The raw Cookie header
+ * @returns The cookie values keyed by name
+ */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  (header || '').split(';').forEach(part => {
+    const index = part.indexOf('=');
+    if (index > 0) cookies[part.slice(0, index).trim()] = decodeCookieValue(part.slice(index + 1).trim());
+  });
+  return cookies;
+}
+
+/**
+ * Build a Content-Disposition header value. Names that are not plain ASCII get an ASCII fallback
+ * plus an RFC 6266 `filename*` parameter carrying the UTF-8 name.
+ * @param type - The disposition type, e.g. 'inline' or 'attachment'
+ * @param filename - The file name
+ * @returns The header value
+ */
+export function contentDisposition(type: string, filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  if (fallback === filename) return `${type}; filename="${filename}"`;
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
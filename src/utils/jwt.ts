@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Encode a JSON value as base64url.
+ */
+function encodeSegment(value: any): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Compute the HS256 signature of a JWT's header and payload segments.
+ */
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Create an HS256-signed JWT.
+ * @param payload - The claims
+ * @param secret - The signing secret
+ * @returns The compact JWT
+ */
+export function signJwt(payload: Record<string, any>, secret: string): string {
+  const data = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(payload)}`;
+  return `${data}.${sign(data, secret)}`;
+}
+
+/**
+ * Check whether a string has the shape of a compact JWT (three base64url segments).
+ * @param token - The token to check
+ * @returns True if it looks like a JWT
+ */
+export function isJwt(token: string): boolean {
+  return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+}
+
+/**
+ * Verify an HS256-signed JWT and its `exp` claim.
+ * @param token - The compact JWT
+ * @param secret - The signing secret
+ * @param now - Current time in seconds since the epoch
+ * @returns The claims, or null if the signature is invalid or the token has expired
+ */
+export function verifyJwt(token: string, secret: string, now = Math.floor(Date.now() / 1000)): Record<string, any> | null {
+  if (!isJwt(token)) return null;
+  const [header, payload, signature] = token.split('.');
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (typeof claims.exp === 'number' && claims.exp <= now) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
@@ -1,46 +1,169 @@
 import chalk from "chalk";
+import type express from 'express';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type LogFormat = 'pretty' | 'json';
+
+/**
+ * Log levels from the most to the least verbose; `silent` disables logging.
+ */
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+/**
+ * Environment variables setting the initial log level and format.
+ */
+export const LOG_LEVEL_ENV = 'FAKE_API_LOG_LEVEL';
+export const LOG_FORMAT_ENV = 'FAKE_API_LOG_FORMAT';
+
+/**
+ * Request and response header carrying the correlation ID of a request.
+ */
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Incoming IDs end up in every log line, so only plain tokens are accepted
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// The correlation ID of the request being handled
+const requestContext = new AsyncLocalStorage<string>();
+
+/**
+ * Read a log level, e.g. from the environment.
+ * @param value - The level name, case-insensitive
+ * @returns The level, or undefined if the value is not one
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+    const level = (value || '').trim().toLowerCase() as LogLevel;
+    return LOG_LEVELS.includes(level) ? level : undefined;
+}
+
+/**
+ * Express middleware giving every request a correlation ID: the incoming `X-Request-Id` if valid,
+ * else a new UUID. The ID is echoed in the response and attached to every log line emitted while
+ * the request is handled.
+ * @returns Express middleware
+ */
+export function requestIds(): express.RequestHandler {
+    return (req, res, next) => {
+        const header = req.headers[REQUEST_ID_HEADER];
+        const incoming = Array.isArray(header) ? header[0] : header;
+        const id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+        res.setHeader('X-Request-Id', id);
+        requestContext.run(id, next);
+    };
+}
 
 export class Logger {
+    private static level: LogLevel = parseLogLevel(process.env[LOG_LEVEL_ENV]) || 'info';
+    private static format: LogFormat = process.env[LOG_FORMAT_ENV] === 'json' ? 'json' : 'pretty';
+
+    /**
+     * Change the level below which messages are dropped, and the output format.
+     * @param {{ level?: LogLevel, format?: LogFormat }} options - The settings to change.
+     */
+    static configure(options: { level?: LogLevel; format?: LogFormat }) {
+        if (options.level) this.level = options.level;
+        if (options.format) this.format = options.format;
+    }
+
+    /**
+     * Check whether messages of a level are written.
+     * @param {LogLevel} level - The level.
+     * @returns {boolean} True if the level is at or above the configured one.
+     */
+    static isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+        return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+    }
+
+    /**
+     * Get the correlation ID of the request being handled.
+     * @returns {string | undefined} The ID, outside of requests undefined.
+     */
+    static requestId(): string | undefined {
+        return requestContext.getStore();
+    }
+
     static info(message: string) {
-        console.log(chalk.blue('Info: ' + message));
+        this.write('info', 'Info', chalk.blue, message);
     }
 
     static success(message: string) {
-        console.log(chalk.green('Success: ' + message));
+        this.write('info', 'Success', chalk.green, message);
     }
 
     static warn(message: string) {
-        console.log(chalk.yellow('Warning: ' + message));
+        this.write('warn', 'Warning', chalk.yellow, message);
     }
 
     static error(message: string) {
-        console.log(chalk.red('Error: ' + message));
+        this.write('error', 'Error', chalk.red, message);
     }
 
     static debug(message: string, metadata?: Record<string, any>) {
-        if (metadata) {
-            console.log(chalk.gray('Debug: ' + message), chalk.gray(JSON.stringify(metadata, null, 2)));
-        } else {
-            console.log(chalk.gray('Debug: ' + message));
-        }
+        this.write('debug', 'Debug', chalk.gray, message, metadata);
     }
 
     // log a table of data
     static table(data: any[]) {
-        console.table(data);
+        if (!this.isEnabled('info')) return;
+        if (this.format === 'json') {
+            this.writeJson('info', 'table', { data });
+        } else {
+            console.table(data);
+        }
     }
 
     // log a divider
     static divider() {
+        if (!this.isEnabled('info') || this.format === 'json') return;
         console.log(chalk.gray('--------------------------------'));
     }
 
     //log a title with dividers for section headers
     static title(title: string) {
+        if (!this.isEnabled('info')) return;
+        if (this.format === 'json') {
+            this.writeJson('info', title);
+            return;
+        }
         this.divider();
         console.log(chalk.bold(title));
         this.divider();
     }
-    
-    
-}
\ No newline at end of file
+
+    /**
+     * Write one message, as coloured text prefixed with the request ID or as a JSON line.
+     */
+    private static write(level: Exclude<LogLevel, 'silent'>, label: string, color: (text: string) => string, message: string, metadata?: Record<string, any>) {
+        if (!this.isEnabled(level)) return;
+        if (this.format === 'json') {
+            this.writeJson(level, message, metadata && { metadata });
+            return;
+        }
+        const requestId = this.requestId();
+        const text = color(`${label}: ${requestId ? `[${requestId}] ` : ''}${message}`);
+        if (metadata) {
+            console.log(text, chalk.gray(JSON.stringify(metadata, null, 2)));
+        } else {
+            console.log(text);
+        }
+    }
+
+    /**
+     * Write one message as a JSON line, for log aggregation.
+     */
+    private static writeJson(level: Exclude<LogLevel, 'silent'>, message: string, fields: Record<string, any> = {}) {
+        const requestId = this.requestId();
+        console.log(JSON.stringify({
+            time: new Date().toISOString(),
+            level,
+            message,
+            ...(requestId ? { requestId } : {}),
+            ...fields,
+        }));
+    }
+}
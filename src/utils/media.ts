@@ -0,0 +1,202 @@
+import * as jsYaml from 'js-yaml';
+import { resolveRef } from './openapi.js';
+import { fromXml, toXml } from './xml.js';
+
+/**
+ * The body formats the server can read and write.
+ */
+export type MediaKind = 'json' | 'xml' | 'csv' | 'yaml';
+
+/**
+ * Media types of request bodies read as text and decoded by {@link parseBody}.
+ */
+export const TEXT_MEDIA_TYPES = ['application/xml', 'text/xml', 'application/*+xml', 'text/csv', 'application/yaml', 'application/x-yaml', 'text/yaml'];
+
+/**
+ * Tell which format a media type uses.
+ * @param mediaType - A media type, possibly with parameters (e.g. 'application/xml; charset=utf-8')
+ * @returns The format, or undefined for media types the server does not convert
+ */
+export function mediaKind(mediaType: string): MediaKind | undefined {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  if (/[/+]json$/.test(type)) return 'json';
+  if (/[/+]xml$/.test(type)) return 'xml';
+  if (type === 'text/csv') return 'csv';
+  if (/[/+](x-)?yaml$/.test(type)) return 'yaml';
+  return undefined;
+}
+
+/**
+ * Order media types so that JSON ones come first, making JSON the default when the client accepts anything.
+ * @param mediaTypes - Declared media types
+ * @returns The same media types, JSON first
+ */
+export function preferJson(mediaTypes: string[]): string[] {
+  return [...mediaTypes].sort((a, b) => Number(mediaKind(b) === 'json') - Number(mediaKind(a) === 'json'));
+}
+
+/**
+ * Find the rows of a CSV body: the array itself, or the first array of objects in an envelope object.
+ */
+function csvRows(body: any): any[] {
+  if (Array.isArray(body)) return body;
+  if (body && typeof body === 'object') {
+    const items = Object.values(body).find(value => Array.isArray(value) && value.some(row => row && typeof row === 'object'));
+    return (items as any[]) || [body];
+  }
+  return body === undefined || body === null ? [] : [{ value: body }];
+}
+
+/**
+ * Get the schema of one CSV row from the schema of the whole body.
+ */
+function csvRowSchema(schema: any, api: any): any {
+  const resolved = resolveRef(api, schema) || {};
+  if (resolved.items) return resolveRef(api, resolved.items) || {};
+  const envelope = Object.values<any>(resolved.properties || {})
+    .map(property => resolveRef(api, property))
+    .map(property => property && property.items && resolveRef(api, property.items))
+    .find(items => items && (items.type === 'object' || items.properties));
+  return envelope || resolved;
+}
+
+function csvCell(value: any): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize a collection as CSV (RFC 4180) with a header row. Columns are the properties declared
+ * by the item schema followed by any other property found in the rows; nested values are written as JSON.
+ * @param body - An array of objects, or an object wrapping one
+ * @param schema - The schema of the body
+ * @param api - The OpenAPI document, used to resolve references
+ * @returns The CSV text
+ */
+export function toCsv(body: any, schema: any, api: any): string {
+  const rows = csvRows(body);
+  const columns = Object.keys(csvRowSchema(schema, api).properties || {});
+  rows.forEach(row => Object.keys(row && typeof row === 'object' ? row : {}).forEach(key => {
+    if (!columns.includes(key)) columns.push(key);
+  }));
+  const lines = [columns.map(csvCell).join(',')];
+  rows.forEach(row => lines.push(columns.map(column => csvCell(row ? row[column] : undefined)).join(',')));
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Split CSV text into records of fields, honouring quoted fields.
+ */
+function splitCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted field');
+  if (field !== '' || record.length > 0) records.push([...record, field]);
+  return records.filter(r => r.length > 1 || r[0] !== '');
+}
+
+function csvValue(text: string, schema: any): any {
+  const type = schema && schema.type;
+  if ((type === 'integer' || type === 'number') && !isNaN(Number(text))) return Number(text);
+  if (type === 'boolean' && (text === 'true' || text === 'false')) return text === 'true';
+  if (type === 'object' || type === 'array') {
+    try { return JSON.parse(text); } catch { /* keep the raw text */ }
+  }
+  return text;
+}
+
+/**
+ * Parse CSV with a header row into objects, converting fields to the types the item schema declares.
+ * Empty fields are left out.
+ * @param text - The CSV text
+ * @param schema - The schema of the body: an array of rows, or a single object (the first row)
+ * @param api - The OpenAPI document, used to resolve references
+ * @returns The rows, or the first row when the schema describes a single object
+ */
+export function fromCsv(text: string, schema: any, api: any): any {
+  const [header = [], ...records] = splitCsv(text);
+  const properties = csvRowSchema(schema, api).properties || {};
+  const rows = records.map(record => {
+    const row: Record<string, any> = {};
+    header.forEach((column, i) => {
+      if (record[i] !== undefined && record[i] !== '') row[column] = csvValue(record[i], resolveRef(api, properties[column]));
+    });
+    return row;
+  });
+  const resolved = resolveRef(api, schema);
+  return resolved && resolved.type === 'object' && !resolved.items ? rows[0] || {} : rows;
+}
+
+/**
+ * Serialize a body in the format of a media type.
+ * @param body - The body
+ * @param mediaType - The media type to produce
+ * @param schema - The schema of the body, used for XML names and CSV columns
+ * @param api - The OpenAPI document, used to resolve references
+ * @returns The serialized body
+ */
+export function serializeBody(body: any, mediaType: string, schema: any, api: any): string {
+  switch (mediaKind(mediaType)) {
+    case 'xml':
+      return toXml(body, schema, api);
+    case 'csv':
+      return toCsv(body, schema, api);
+    case 'yaml':
+      return jsYaml.dump(body, { noRefs: true, skipInvalid: true });
+    default:
+      return JSON.stringify(body);
+  }
+}
+
+/**
+ * Parse a body in the format of a media type.
+ * @param text - The raw body
+ * @param mediaType - The media type of the body
+ * @param schema - The schema of the body, used for XML names and to convert XML and CSV values
+ * @param api - The OpenAPI document, used to resolve references
+ * @returns The parsed body; text of unknown media types is returned as is
+ * @throws {Error} When the body is malformed
+ */
+export function parseBody(text: string, mediaType: string, schema: any, api: any): any {
+  switch (mediaKind(mediaType)) {
+    case 'json':
+      return JSON.parse(text);
+    case 'xml':
+      return fromXml(text, schema, api);
+    case 'csv':
+      return fromCsv(text, schema, api);
+    case 'yaml':
+      return jsYaml.load(text);
+    default:
+      return text;
+  }
+}
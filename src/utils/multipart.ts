@@ -0,0 +1,62 @@
+/**
+ * One part of a multipart/form-data body.
+ */
+export interface MultipartPart {
+  name: string;
+  /** Set for file parts, possibly to an empty string when no file was chosen. */
+  filename?: string;
+  contentType?: string;
+  data: Buffer;
+}
+
+/**
+ * Read the boundary parameter of a multipart Content-Type header.
+ * @param contentType - The Content-Type header
+ * @returns The boundary, or undefined if there is none
+ */
+export function multipartBoundary(contentType: string | undefined): string | undefined {
+  const match = (contentType || '').match(/;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? match[1] || match[2] : undefined;
+}
+
+/**
+ * Parse a multipart/form-data body (RFC 7578) into its parts.
+ * @param body - The raw body
+ * @param boundary - The boundary from the Content-Type header
+ * @returns The parts, in order
+ * @throws {Error} When the body is not delimited by the boundary
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts: MultipartPart[] = [];
+  let position = body.indexOf(delimiter);
+  if (position === -1) throw new Error('Boundary not found');
+
+  while (true) {
+    position += delimiter.length;
+    if (body.subarray(position, position + 2).toString() === '--') return parts;
+    if (body.subarray(position, position + 2).toString() === '\r\n') position += 2;
+
+    const headerEnd = body.indexOf('\r\n\r\n', position);
+    if (headerEnd === -1) throw new Error('Part headers are not terminated');
+    const next = body.indexOf(Buffer.concat([Buffer.from('\r\n'), delimiter]), headerEnd + 4);
+    if (next === -1) throw new Error('Closing boundary not found');
+
+    const headers: Record<string, string> = {};
+    body.subarray(position, headerEnd).toString('utf-8').split('\r\n').forEach(line => {
+      const index = line.indexOf(':');
+      if (index > 0) headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+    });
+    const disposition = headers['content-disposition'] || '';
+    const name = disposition.match(/;\s*name="([^"]*)"/i);
+    if (!name) throw new Error('Part without a name');
+    const filename = disposition.match(/;\s*filename="([^"]*)"/i);
+    parts.push({
+      name: name[1],
+      ...(filename ? { filename: filename[1] } : {}),
+      ...(headers['content-type'] ? { contentType: headers['content-type'] } : {}),
+      data: body.subarray(headerEnd + 4, next),
+    });
+    position = next + 2;
+  }
+}
@@ -47,6 +47,27 @@ export function findOpenApiPath(requestPath: string, paths: Record<string, any>)
   return requestPath;
 }
 
+/**
+ * Extract path parameters from URL based on OpenAPI path template.
+ * @param requestPath - Express request path
+ * @param openapiPath - OpenAPI path template
+ * @returns Record of path parameters
+ */
+export function extractPathParams(requestPath: string, openapiPath: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const requestParts = requestPath.split('/');
+  const templateParts = openapiPath.split('/');
+
+  templateParts.forEach((part, i) => {
+    if (part.startsWith('{') && part.endsWith('}')) {
+      const paramName = part.slice(1, -1);
+      params[paramName] = requestParts[i];
+    }
+  });
+
+  return params;
+}
+
 /**
  * Cast query parameters to string values.
  * @param query - Express query object
@@ -75,4 +96,117 @@ export function castHeadersToString(headers: Record<string, any>): Record<string
     castHeaders[k] = Array.isArray(v) ? v[0] : (v ?? '').toString();
   });
   return castHeaders;
-} 
\ No newline at end of file
+} 
+/**
+ * Get the names of the parameters declared for an operation in a given location.
+ * @param pathItem - OpenAPI path item object
+ * @param method - HTTP method
+ * @param location - Parameter location (query, header, path, cookie)
+ * @returns Declared parameter names
+ */
+export function getDeclaredParameterNames(pathItem: any, method: string, location: string): string[] {
+  if (!pathItem) return [];
+  const operation = pathItem[method.toLowerCase()] || {};
+  return [...(pathItem.parameters || []), ...(operation.parameters || [])]
+    .filter((p: any) => p && p.in === location)
+    .map((p: any) => p.name);
+}
+
+/**
+ * Resolve a local `$ref` (e.g. '#/components/responses/NotFound') against an OpenAPI document.
+ * Non-reference values are returned as-is.
+ * @param api - OpenAPI document
+ * @param value - Object that may be a reference
+ * @returns The referenced object, or undefined if the reference cannot be resolved
+ */
+export function resolveRef<T = any>(api: any, value: any): T {
+  let current = value;
+  for (let depth = 0; current && typeof current.$ref === 'string' && depth < 20; depth++) {
+    if (!current.$ref.startsWith('#/')) return undefined as T;
+    current = current.$ref.slice(2).split('/')
+      .map((part: string) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((obj: any, key: string) => (obj === undefined || obj === null ? undefined : obj[key]), api);
+  }
+  return current as T;
+}
+
+/**
+ * Find the declared response for a status code, honouring `2XX`-style ranges and `default`.
+ * @param responses - OpenAPI responses object
+ * @param status - HTTP status code
+ * @returns The matching response key, or undefined if the status is not declared
+ */
+export function findResponseKey(responses: Record<string, any> | undefined, status: number): string | undefined {
+  if (!responses) return undefined;
+  const code = String(status);
+  if (responses[code]) return code;
+  const range = Object.keys(responses).find(k => k.toUpperCase() === `${code[0]}XX`);
+  if (range) return range;
+  return responses['default'] ? 'default' : undefined;
+}
+
+/**
+ * Pick the JSON media type of a content map if there is one, otherwise the first declared media type.
+ * @param content - Content of a request body or response, keyed by media type
+ * @returns The media type, or undefined for empty content
+ */
+export function pickMediaType(content: Record<string, OpenAPIV3.MediaTypeObject>): string | undefined {
+  const types = Object.keys(content);
+  return types.find(t => t === 'application/json') || types.find(t => /[/+]json/.test(t)) || types[0];
+}
+
+/**
+ * Get an example value declared on a media type object (or its schema).
+ * @param api - The OpenAPI document, used to resolve `#/components/examples` references
+ * @param media - The media type object (e.g. `content['application/json']`)
+ * @param name - Name of an entry in `examples`; when omitted the first available example is used
+ * @returns `{ value }` when an example was found, otherwise undefined
+ */
+export function findMediaExample(api: any, media: OpenAPIV3.MediaTypeObject | undefined, name?: string): { value: any } | undefined {
+  if (!media) return undefined;
+  const examples = media.examples || {};
+  if (name !== undefined) {
+    const example = resolveRef<OpenAPIV3.ExampleObject>(api, examples[name]);
+    return example && 'value' in example ? { value: example.value } : undefined;
+  }
+  if (media.example !== undefined) return { value: media.example };
+  for (const entry of Object.values(examples)) {
+    const example = resolveRef<OpenAPIV3.ExampleObject>(api, entry);
+    if (example && 'value' in example) return { value: example.value };
+  }
+  const schema = resolveRef<OpenAPIV3.SchemaObject>(api, media.schema);
+  if (schema && schema.example !== undefined) return { value: schema.example };
+  return undefined;
+}
+
+/**
+ * Copy a document without the `xml` objects of its schemas. They only describe XML serialization,
+ * and openapi-data-validator compiles schemas in ajv strict mode, which rejects the unknown keyword.
+ * Properties that happen to be named `xml` are kept.
+ * @param value - The OpenAPI document (or any part of it)
+ * @param names - Whether the keys of `value` are property names
+ * @returns The copy
+ */
+export function withoutXmlObjects(value: any, names = false): any {
+  if (Array.isArray(value)) return value.map(item => withoutXmlObjects(item));
+  if (!value || typeof value !== 'object') return value;
+  const result: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'xml' && !names && child && typeof child === 'object') continue;
+    result[key] = withoutXmlObjects(child, key === 'properties' && !names);
+  }
+  return result;
+}
+
+/**
+ * Copy a schema, accepting any value where it declares a `format: binary` string: the server keeps
+ * the metadata of stored files in such properties.
+ * @param schema - The schema (or any part of an OpenAPI document)
+ * @returns The copy
+ */
+export function relaxBinary(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(relaxBinary);
+  if (!schema || typeof schema !== 'object') return schema;
+  if (schema.format === 'binary') return {};
+  return Object.fromEntries(Object.entries(schema).map(([k, v]) => [k, relaxBinary(v)]));
+}
@@ -0,0 +1,262 @@
+import type { Request, Response } from 'express';
+import { OpenAPIV3 } from 'openapi-types';
+import { resolveRef } from './openapi.js';
+
+/**
+ * Envelope shape for collection responses declared as `{ data: [...], meta: {...} }`.
+ */
+export interface EnvelopeConfig {
+  dataKey: string;
+  metaKey?: string;
+}
+
+/**
+ * Pagination behaviour for a collection operation, derived from the spec at generation time.
+ */
+export interface PaginationOptions {
+  cursorParam?: string;
+  envelope?: EnvelopeConfig;
+}
+
+/**
+ * One page of a collection plus the information needed to describe it.
+ */
+export interface PageResult {
+  items: any[];
+  total: number;
+  limit: number;
+  page?: number;
+  totalPages?: number;
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
+const PAGE_PARAMS = ['page', '_page'];
+const LIMIT_PARAMS = ['limit', '_limit', 'per_page', 'perPage', 'pageSize', 'page_size'];
+const CURSOR_PARAMS = ['cursor', 'after', 'pageToken', 'page_token', 'continuationToken'];
+const ENVELOPE_KEYS = ['data', 'items', 'results', 'records', 'content', 'entries'];
+const META_KEYS = ['meta', 'pagination', 'page', 'paging'];
+
+/** Query parameters consumed by the pagination layer (never treated as filters). */
+export const RESERVED_QUERY_PARAMS = [...PAGE_PARAMS, ...LIMIT_PARAMS, ...CURSOR_PARAMS, '_sort', '_order'];
+
+/**
+ * Detect whether a collection response schema wraps its items in an envelope object.
+ * @param schema - The 200 response schema (may be a $ref)
+ * @param schemas - components.schemas of the spec
+ * @returns The envelope keys, or undefined for a bare array
+ */
+export function detectEnvelope(schema: any, schemas: Record<string, any> = {}): EnvelopeConfig | undefined {
+  const api = { components: { schemas } };
+  const resolved = resolveRef(api, schema);
+  if (!resolved || resolved.type !== 'object' || !resolved.properties) return undefined;
+  const props = resolved.properties as Record<string, any>;
+  const arrayKeys = Object.keys(props).filter(k => {
+    const prop = resolveRef(api, props[k]);
+    return prop && prop.type === 'array';
+  });
+  const dataKey = arrayKeys.find(k => ENVELOPE_KEYS.includes(k))
+    || (arrayKeys.length === 1 && !props.id ? arrayKeys[0] : undefined);
+  if (!dataKey) return undefined;
+  const metaKey = Object.keys(props).find(k => META_KEYS.includes(k) && k !== dataKey);
+  return metaKey ? { dataKey, metaKey } : { dataKey };
+}
+
+/**
+ * Return the array schema inside an envelope response schema, or the schema itself for bare arrays.
+ * @param schema - The 200 response schema (may be a $ref)
+ * @param schemas - components.schemas of the spec
+ * @returns The schema describing the list of items
+ */
+export function unwrapEnvelope(schema: any, schemas: Record<string, any> = {}): any {
+  const envelope = detectEnvelope(schema, schemas);
+  if (!envelope) return schema;
+  return resolveRef({ components: { schemas } }, schema).properties[envelope.dataKey];
+}
+
+/**
+ * Build the pagination options for a collection operation.
+ * A cursor parameter is detected by name or by an `x-pagination: cursor` extension.
+ * @param parameters - Operation parameters
+ * @param responses - Operation responses
+ * @param schemas - components.schemas of the spec
+ * @returns The pagination options to embed in the controller
+ */
+export function buildPaginationOptions(parameters: OpenAPIV3.ParameterObject[], responses?: OpenAPIV3.ResponsesObject, schemas: Record<string, any> = {}): PaginationOptions {
+  const options: PaginationOptions = {};
+  const cursor = (parameters || []).find(p => p && p.in === 'query'
+    && ((p as any)['x-pagination'] === 'cursor' || CURSOR_PARAMS.includes(p.name)));
+  if (cursor) options.cursorParam = cursor.name;
+
+  const resp = responses && (responses['200'] || responses['default']) as OpenAPIV3.ResponseObject | undefined;
+  const schema = resp && resp.content && resp.content['application/json'] && resp.content['application/json'].schema;
+  const envelope = schema ? detectEnvelope(schema, schemas) : undefined;
+  if (envelope) options.envelope = envelope;
+  return options;
+}
+
+function firstValue(query: Record<string, any>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = query[name];
+    if (value !== undefined && value !== '') return Array.isArray(value) ? String(value[0]) : String(value);
+  }
+  return undefined;
+}
+
+function compareValues(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Sort a collection using `_sort` (comma separated fields) and `_order` (`asc`/`desc`, comma separated).
+ * @param items - The collection
+ * @param query - Express request query
+ * @returns A sorted copy, or the original array when no sort was requested
+ */
+export function sortItems(items: any[], query: Record<string, any>): any[] {
+  const sort = firstValue(query, ['_sort']);
+  if (!sort) return items;
+  const fields = sort.split(',').map(f => f.trim()).filter(Boolean);
+  const orders = (firstValue(query, ['_order']) || '').split(',').map(o => o.trim().toLowerCase());
+  return [...items].sort((a, b) => {
+    for (let i = 0; i < fields.length; i++) {
+      const desc = (orders[i] || orders[0]) === 'desc';
+      const result = compareValues(a ? a[fields[i]] : undefined, b ? b[fields[i]] : undefined);
+      if (result !== 0) return desc ? -result : result;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Encode a collection offset as an opaque cursor.
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by {@link encodeCursor}; invalid cursors start from the beginning.
+ */
+export function decodeCursor(cursor: string | undefined): number {
+  if (!cursor) return 0;
+  try {
+    const offset = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')).offset;
+    return Number.isInteger(offset) && offset > 0 ? offset : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Sort and slice a collection according to the query string.
+ * Without a limit the whole (sorted) collection is returned as a single page.
+ * @param items - The (already filtered) collection
+ * @param query - Express request query
+ * @param options - Pagination options for the operation
+ * @returns The requested page
+ */
+export function paginate(items: any[], query: Record<string, any>, options: PaginationOptions = {}): PageResult {
+  const sorted = sortItems(Array.isArray(items) ? items : [], query);
+  const total = sorted.length;
+  const rawLimit = parseInt(firstValue(query, LIMIT_PARAMS) || '', 10);
+  const limit = rawLimit > 0 ? rawLimit : total;
+
+  if (options.cursorParam) {
+    const offset = decodeCursor(firstValue(query, [options.cursorParam]));
+    const pageItems = sorted.slice(offset, offset + limit);
+    const result: PageResult = { items: pageItems, total, limit };
+    if (offset + limit < total) result.nextCursor = encodeCursor(offset + limit);
+    if (offset > 0) result.prevCursor = encodeCursor(Math.max(0, offset - limit));
+    return result;
+  }
+
+  const page = Math.max(1, parseInt(firstValue(query, PAGE_PARAMS) || '1', 10) || 1);
+  const start = (page - 1) * limit;
+  const totalPages = limit > 0 ? Math.max(1, Math.ceil(total / limit)) : 1;
+  return { items: sorted.slice(start, start + limit), total, limit, page, totalPages };
+}
+
+function pageUrl(req: Request, overrides: Record<string, string | undefined>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(req.query)) {
+    if (key in overrides) continue;
+    (Array.isArray(value) ? value : [value]).forEach(v => v !== undefined && params.append(key, String(v)));
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) params.set(key, value);
+  }
+  const qs = params.toString();
+  // Specs are dispatched without a mount path, so the prefix they are served under is kept in res.locals
+  const basePath = (req.res && req.res.locals.basePath) || '';
+  return `${req.protocol}://${req.get('host')}${basePath}${req.baseUrl}${req.path}${qs ? '?' + qs : ''}`;
+}
+
+/**
+ * Build an RFC 8288 `Link` header value for a page.
+ * @param req - Express request (used for the base URL and the current query)
+ * @param result - The page
+ * @param options - Pagination options for the operation
+ * @returns The header value, or an empty string when there is only one page
+ */
+export function buildLinkHeader(req: Request, result: PageResult, options: PaginationOptions = {}): string {
+  const links: string[] = [];
+  const add = (rel: string, overrides: Record<string, string | undefined>) => links.push(`<${pageUrl(req, overrides)}>; rel="${rel}"`);
+  const limitParam = LIMIT_PARAMS.find(name => req.query[name] !== undefined) || 'limit';
+  const limit = String(result.limit);
+
+  if (options.cursorParam) {
+    const cursorParam = options.cursorParam;
+    if (!result.nextCursor && !result.prevCursor) return '';
+    add('first', { [cursorParam]: undefined, [limitParam]: limit });
+    if (result.prevCursor) add('prev', { [cursorParam]: result.prevCursor, [limitParam]: limit });
+    if (result.nextCursor) add('next', { [cursorParam]: result.nextCursor, [limitParam]: limit });
+    return links.join(', ');
+  }
+
+  const page = result.page || 1;
+  const totalPages = result.totalPages || 1;
+  if (totalPages <= 1 && page === 1) return '';
+  const pageParam = PAGE_PARAMS.find(name => req.query[name] !== undefined) || 'page';
+  add('first', { [pageParam]: '1', [limitParam]: limit });
+  if (page > 1) add('prev', { [pageParam]: String(Math.min(page - 1, totalPages)), [limitParam]: limit });
+  if (page < totalPages) add('next', { [pageParam]: String(page + 1), [limitParam]: limit });
+  add('last', { [pageParam]: String(totalPages), [limitParam]: limit });
+  return links.join(', ');
+}
+
+/**
+ * Paginate a collection and send it, setting `X-Total-Count` and `Link` headers and
+ * wrapping the page in the declared envelope when the spec uses one.
+ * @param req - Express request
+ * @param res - Express response
+ * @param items - The (already filtered) collection
+ * @param options - Pagination options for the operation
+ */
+export function sendPage(req: Request, res: Response, items: any[], options: PaginationOptions = {}): void {
+  const result = paginate(items, req.query as Record<string, any>, options);
+  res.setHeader('X-Total-Count', String(result.total));
+  const link = buildLinkHeader(req, result, options);
+  if (link) res.setHeader('Link', link);
+  if (result.nextCursor) res.setHeader('X-Next-Cursor', result.nextCursor);
+
+  if (!options.envelope) {
+    res.json(result.items);
+    return;
+  }
+  const meta: Record<string, any> = { total: result.total, limit: result.limit };
+  if (options.cursorParam) {
+    meta.nextCursor = result.nextCursor || null;
+    meta.prevCursor = result.prevCursor || null;
+  } else {
+    meta.page = result.page;
+    meta.totalPages = result.totalPages;
+  }
+  const body: Record<string, any> = { [options.envelope.dataKey]: result.items };
+  if (options.envelope.metaKey) body[options.envelope.metaKey] = meta;
+  res.json(body);
+}
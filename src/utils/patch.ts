@@ -0,0 +1,236 @@
+import { schemaIssues } from './schema.js';
+
+/**
+ * Media type of JSON Patch documents (RFC 6902).
+ */
+export const JSON_PATCH_TYPE = 'application/json-patch+json';
+
+/**
+ * Media type of JSON Merge Patch documents (RFC 7396).
+ */
+export const MERGE_PATCH_TYPE = 'application/merge-patch+json';
+
+/**
+ * A patch that cannot be applied. `status` is the HTTP status to answer with: 400 for a malformed
+ * patch document, 409 when it conflicts with the resource (missing target, failed `test`), and 422
+ * when the patched resource would be invalid.
+ */
+export class PatchError extends Error {
+  status: number;
+  details?: any;
+
+  constructor(message: string, status: number, details?: any) {
+    super(message);
+    this.name = 'PatchError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (!isObject(a) || !isObject(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped reference tokens.
+ */
+function parsePointer(pointer: any, op: string): string[] {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw new PatchError(`Invalid JSON Pointer in "${op}" operation: ${JSON.stringify(pointer)}`, 400);
+  }
+  return pointer === '' ? [] : pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Read an array index token; `-` (past the end) is only allowed when adding.
+ */
+function arrayIndex(array: any[], token: string, pointer: string, adding: boolean): number {
+  if (adding && token === '-') return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) throw new PatchError(`Invalid array index in ${pointer}`, 409);
+  const index = Number(token);
+  if (index > array.length || (!adding && index === array.length)) throw new PatchError(`Array index out of bounds: ${pointer}`, 409);
+  return index;
+}
+
+/**
+ * Find the container holding the value a pointer targets.
+ */
+function locate(document: any, tokens: string[], pointer: string): any {
+  let current = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(current)) current = current[arrayIndex(current, token, pointer, false)];
+    else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, token)) current = current[token];
+    else throw new PatchError(`Path not found: ${pointer}`, 409);
+  }
+  if (!Array.isArray(current) && !isObject(current)) throw new PatchError(`Path not found: ${pointer}`, 409);
+  return current;
+}
+
+function getValue(document: any, pointer: string, op: string): any {
+  const tokens = parsePointer(pointer, op);
+  if (tokens.length === 0) return document;
+  const parent = locate(document, tokens, pointer);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) return parent[arrayIndex(parent, token, pointer, false)];
+  if (!Object.prototype.hasOwnProperty.call(parent, token)) throw new PatchError(`Path not found: ${pointer}`, 409);
+  return parent[token];
+}
+
+function addValue(document: any, pointer: string, value: any, op: string): any {
+  const tokens = parsePointer(pointer, op);
+  if (tokens.length === 0) return value;
+  const parent = locate(document, tokens, pointer);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, token, pointer, true), 0, value);
+  else parent[token] = value;
+  return document;
+}
+
+function replaceValue(document: any, pointer: string, value: any, op: string): any {
+  const tokens = parsePointer(pointer, op);
+  if (tokens.length === 0) return value;
+  getValue(document, pointer, op);
+  const parent = locate(document, tokens, pointer);
+  const token = tokens[tokens.length - 1];
+  parent[Array.isArray(parent) ? Number(token) : token] = value;
+  return document;
+}
+
+function removeValue(document: any, pointer: string, op: string): any {
+  const tokens = parsePointer(pointer, op);
+  if (tokens.length === 0) throw new PatchError('Cannot remove the whole document', 409);
+  const parent = locate(document, tokens, pointer);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, token, pointer, false), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, token)) throw new PatchError(`Path not found: ${pointer}`, 409);
+    delete parent[token];
+  }
+  return document;
+}
+
+/**
+ * Apply a JSON Patch (RFC 6902): `add`, `remove`, `replace`, `move`, `copy` and `test` operations,
+ * in order. The patch is atomic: the document is left untouched when any operation fails.
+ * @param document - The document to patch
+ * @param operations - The patch document
+ * @returns The patched copy of the document
+ * @throws {PatchError} 400 for a malformed patch, 409 when an operation fails
+ */
+export function applyJsonPatch(document: any, operations: any): any {
+  if (!Array.isArray(operations)) throw new PatchError('A JSON Patch document must be an array of operations', 400);
+  let result = clone(document);
+  operations.forEach((operation, i) => {
+    if (!isObject(operation) || typeof operation.op !== 'string') throw new PatchError(`Operation ${i} has no "op"`, 400);
+    const { op, path } = operation;
+    const needsValue = op === 'add' || op === 'replace' || op === 'test';
+    if (needsValue && !('value' in operation)) throw new PatchError(`Operation ${i} ("${op}") has no "value"`, 400);
+    if ((op === 'move' || op === 'copy') && typeof operation.from !== 'string') throw new PatchError(`Operation ${i} ("${op}") has no "from"`, 400);
+    parsePointer(path, op);
+
+    switch (op) {
+      case 'add':
+        result = addValue(result, path, clone(operation.value), op);
+        break;
+      case 'remove':
+        result = removeValue(result, path, op);
+        break;
+      case 'replace':
+        result = replaceValue(result, path, clone(operation.value), op);
+        break;
+      case 'move': {
+        if (path.startsWith(operation.from + '/')) throw new PatchError(`Cannot move ${operation.from} into one of its children`, 409);
+        const value = getValue(result, operation.from, op);
+        if (path === operation.from) break;
+        result = addValue(removeValue(result, operation.from, op), path, value, op);
+        break;
+      }
+      case 'copy':
+        result = addValue(result, path, clone(getValue(result, operation.from, op)), op);
+        break;
+      case 'test':
+        if (!deepEqual(getValue(result, path, op), operation.value)) {
+          throw new PatchError(`Test failed at ${path || '/'}`, 409, { path, expected: operation.value });
+        }
+        break;
+      default:
+        throw new PatchError(`Unknown operation "${op}"`, 400);
+    }
+  });
+  return result;
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396): objects are merged recursively, `null` removes a member,
+ * and any other value (arrays included) replaces the target.
+ * @param target - The document to patch
+ * @param patch - The merge patch
+ * @returns The patched copy of the document
+ */
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isObject(patch)) return clone(patch);
+  const result: Record<string, any> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key], value);
+  }
+  return result;
+}
+
+/**
+ * Tell whether a Content-Type header is a JSON Patch or JSON Merge Patch media type.
+ * @param contentType - The Content-Type header
+ * @returns The patch media type, or undefined for any other media type
+ */
+export function patchMediaType(contentType: string | undefined): typeof JSON_PATCH_TYPE | typeof MERGE_PATCH_TYPE | undefined {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  return type === JSON_PATCH_TYPE || type === MERGE_PATCH_TYPE ? type : undefined;
+}
+
+/**
+ * Apply a PATCH request body to a resource according to its media type: JSON Patch, JSON Merge Patch,
+ * or, for plain JSON, a shallow merge of the given properties.
+ * @param resource - The current resource
+ * @param body - The request body
+ * @param contentType - The Content-Type header of the request
+ * @returns The patched copy of the resource
+ * @throws {PatchError} When the patch cannot be applied
+ */
+export function applyPatch(resource: any, body: any, contentType?: string): any {
+  switch (patchMediaType(contentType)) {
+    case JSON_PATCH_TYPE:
+      return applyJsonPatch(resource, body);
+    case MERGE_PATCH_TYPE:
+      return applyMergePatch(resource, body);
+    default:
+      return { ...resource, ...body };
+  }
+}
+
+/**
+ * Build the `validate` hook of a patch, rejecting patched resources that do not match their schema with a 422.
+ * @param schema - The resource schema
+ * @param api - The OpenAPI document, used to resolve references
+ * @returns The hook
+ */
+export function resourceValidator(schema: any, api: any): (resource: any) => void {
+  return resource => {
+    const issues = schemaIssues(resource, schema, api);
+    if (issues.length > 0) throw new PatchError('The patched resource does not match the schema', 422, issues);
+  };
+}
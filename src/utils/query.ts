@@ -0,0 +1,138 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { RESERVED_QUERY_PARAMS } from './pagination.js';
+import { Logger } from './logger.js';
+
+export type FilterOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * A filter derived from a declared query parameter.
+ */
+export interface QueryFilter {
+  param: string;
+  property: string;
+  op: FilterOperator;
+  type?: string;
+  /** Fixed operand: the parameter then only switches the condition on (`true`) or negates it (`false`). */
+  value?: string | number | boolean;
+}
+
+const RANGE_PARAM = /^(min|max)([A-Z_].*)$/;
+
+/**
+ * Build the list of filters for a collection operation from its declared query parameters.
+ * Parameters named `min<Prop>`/`max<Prop>` become range filters on `<prop>`; an `x-filter`
+ * extension (an operator, `false`, or `{ property, op, value }`) overrides the naming convention.
+ * With a fixed `value`, the parameter is a boolean switch: `?inStock=true` with
+ * `{ property: 'stockLevel', op: 'gt', value: 0 }` keeps the items whose stock level is above 0.
+ * Pagination and sorting parameters are never treated as filters.
+ * @param parameters - Operation and path-item parameters
+ * @returns The filters to apply at request time
+ */
+export function buildQueryFilters(parameters: OpenAPIV3.ParameterObject[]): QueryFilter[] {
+  const filters: QueryFilter[] = [];
+  for (const param of parameters || []) {
+    if (!param || param.in !== 'query' || RESERVED_QUERY_PARAMS.includes(param.name)) continue;
+    const hint = (param as any)['x-filter'];
+    if (hint === false) continue;
+    const type = param.schema && !('$ref' in param.schema) ? param.schema.type : undefined;
+
+    let property = param.name;
+    let op: FilterOperator = 'eq';
+    let value: QueryFilter['value'];
+    const range = param.name.match(RANGE_PARAM);
+    if (range) {
+      const rest = range[2].replace(/^_/, '');
+      property = rest.charAt(0).toLowerCase() + rest.slice(1);
+      op = range[1] === 'min' ? 'gte' : 'lte';
+    }
+    if (typeof hint === 'string') {
+      op = hint as FilterOperator;
+    } else if (hint && typeof hint === 'object') {
+      property = hint.property || property;
+      op = hint.op || op;
+      value = hint.value;
+    }
+    filters.push(value === undefined ? { param: param.name, property, op, type } : { param: param.name, property, op, type, value });
+  }
+  return filters;
+}
+
+/**
+ * Coerce a raw query string to the type of the stored value it is compared with.
+ * @param raw - Query string value
+ * @param sample - Stored value (used to infer the target type)
+ * @param type - Declared parameter type, if any
+ * @returns The coerced value
+ */
+export function coerceQueryValue(raw: string, sample: any, type?: string): any {
+  if (type === 'boolean' || typeof sample === 'boolean') {
+    if (raw === 'true' || raw === '1') return true;
+    if (raw === 'false' || raw === '0') return false;
+    return raw;
+  }
+  if (type === 'number' || type === 'integer' || typeof sample === 'number') {
+    const num = Number(raw);
+    return raw.trim() !== '' && !isNaN(num) ? num : raw;
+  }
+  return raw;
+}
+
+function isScalar(value: any): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function compare(value: any, expected: any, op: FilterOperator): boolean {
+  if (op === 'eq') return typeof expected === typeof value ? value === expected : String(value) === String(expected);
+  if (value === undefined || value === null) return false;
+  switch (op) {
+    case 'gt':
+      return value > expected;
+    case 'gte':
+      return value >= expected;
+    case 'lt':
+      return value < expected;
+    default:
+      return value <= expected;
+  }
+}
+
+function matches(value: any, raw: string, filter: QueryFilter): boolean {
+  if (filter.value !== undefined) {
+    const enabled = coerceQueryValue(raw, undefined, 'boolean') !== false;
+    return compare(value, filter.value, filter.op) === enabled;
+  }
+  return compare(value, coerceQueryValue(raw, value, filter.type), filter.op);
+}
+
+/**
+ * Filter a collection using the query string and the declared filters.
+ * Filters only apply to scalar properties of the resource; parameters that are not resource
+ * fields (e.g. `page`) are ignored. Repeated equality params (`?tag=a&tag=b`) match any value.
+ * @param items - The stored collection
+ * @param query - Express request query
+ * @param filters - Filters built by {@link buildQueryFilters}
+ * @param schema - Resolved resource schema, used to tell resource fields from other params
+ * @returns The filtered collection
+ */
+export function applyQueryFilters(items: any[], query: Record<string, any>, filters: QueryFilter[], schema?: any): any[] {
+  if (!Array.isArray(items)) return items;
+  const active = filters.filter(filter => {
+    if (query[filter.param] === undefined || query[filter.param] === '') return false;
+    const known = schema && schema.properties
+      ? Object.prototype.hasOwnProperty.call(schema.properties, filter.property)
+      : items.some(item => item && Object.prototype.hasOwnProperty.call(item, filter.property));
+    if (!known) Logger.debug(`[Filter] Ignoring ?${filter.param}: ${filter.property} is not a property of the resource`);
+    return known;
+  });
+  if (active.length === 0) return items;
+
+  return items.filter(item => active.every(filter => {
+    const value = item ? item[filter.property] : undefined;
+    if (value !== undefined && !isScalar(value)) return true;
+    const raw = query[filter.param];
+    const values: string[] = Array.isArray(raw) ? raw.map(String) : [String(raw)];
+    return filter.op === 'eq'
+      ? values.some(v => matches(value, v, filter))
+      : values.every(v => matches(value, v, filter));
+  }));
+}
@@ -0,0 +1,86 @@
+import { Ajv, type ValidateFunction } from 'ajv';
+import addFormatsModule from 'ajv-formats';
+import { relaxBinary } from './openapi.js';
+
+const addFormats = addFormatsModule as unknown as typeof addFormatsModule.default;
+
+const ROOT_ID = 'openapi://document';
+
+/**
+ * A value not matching its schema.
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+interface DocumentValidators {
+  ajv: Ajv;
+  compiled: Map<any, ValidateFunction>;
+}
+
+// One ajv instance per OpenAPI document, holding its components for `$ref` resolution
+const validators = new WeakMap<object, DocumentValidators>();
+
+/**
+ * Point local `#/...` references at the document root registered with ajv.
+ */
+function rewriteRefs(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(rewriteRefs);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).map(([k, v]) => [
+    k,
+    k === '$ref' && typeof v === 'string' && v.startsWith('#/') ? `${ROOT_ID}${v}` : rewriteRefs(v),
+  ]));
+}
+
+/**
+ * Translate the OpenAPI 3.0 keywords ajv reads differently: boolean `exclusiveMinimum`/`exclusiveMaximum`
+ * modify `minimum`/`maximum`, and `nullable` adds `null` to the allowed types.
+ */
+function toJsonSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  const result: Record<string, any> = Object.fromEntries(Object.entries(schema).map(([k, v]) => [k, toJsonSchema(v)]));
+  for (const [exclusive, bound] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']]) {
+    if (typeof result[exclusive] !== 'boolean') continue;
+    if (result[exclusive] && typeof result[bound] === 'number') {
+      result[exclusive] = result[bound];
+      delete result[bound];
+    } else {
+      delete result[exclusive];
+    }
+  }
+  if (result.nullable === true) {
+    if (typeof result.type === 'string') result.type = [result.type, 'null'];
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) result.enum = [...result.enum, null];
+  }
+  if (typeof result.nullable === 'boolean') delete result.nullable;
+  return result;
+}
+
+/**
+ * Validate a value against a schema of an OpenAPI document, read with OpenAPI 3.0 semantics.
+ * `format: binary` properties accept the metadata of stored files.
+ * @param value - The value
+ * @param schema - The schema, possibly referencing `#/components/...` of the document
+ * @param api - The OpenAPI document (only its `components` are used)
+ * @returns The mismatches, empty when the value is valid
+ */
+export function schemaIssues(value: any, schema: any, api: any): SchemaIssue[] {
+  let entry = validators.get(api);
+  if (!entry) {
+    const ajv = new Ajv({ strict: false, allErrors: true, validateFormats: true });
+    addFormats(ajv);
+    ajv.addSchema({ components: toJsonSchema(relaxBinary(api.components || {})) }, ROOT_ID);
+    entry = { ajv, compiled: new Map() };
+    validators.set(api, entry);
+  }
+  let validate = entry.compiled.get(schema);
+  if (!validate) {
+    validate = entry.ajv.compile(rewriteRefs(toJsonSchema(relaxBinary(schema))));
+    entry.compiled.set(schema, validate);
+  }
+  if (validate(value)) return [];
+  return (validate.errors || []).map(err => ({ path: err.instancePath || '/', message: err.message || 'is invalid' }));
+}
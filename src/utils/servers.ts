@@ -0,0 +1,85 @@
+import { OpenAPIV3 } from 'openapi-types';
+import type { MountConfig, RoutingMode } from '../types.js';
+
+/**
+ * A place a spec is served at: a path prefix, for one host or any.
+ */
+export interface MountPoint {
+  /** Path prefix without trailing slash; empty for the root. */
+  basePath: string;
+  /** Host name that must be requested, with host routing. */
+  host?: string;
+}
+
+/**
+ * Expand the variables of a server URL. A variable takes its override if given, else every value
+ * of its `enum`, else its `default`.
+ * @param server - The server object
+ * @param overrides - Variable values replacing the declared ones
+ * @returns The URLs, one per combination of variable values
+ */
+export function expandServerUrl(server: OpenAPIV3.ServerObject, overrides: Record<string, string> = {}): string[] {
+  let urls = [server.url];
+  for (const [name, variable] of Object.entries(server.variables || {})) {
+    const values = overrides[name] !== undefined ? [overrides[name]]
+      : variable.enum && variable.enum.length ? variable.enum : [variable.default];
+    urls = urls.flatMap(url => values.map(value => url.split(`{${name}}`).join(String(value))));
+  }
+  return urls;
+}
+
+/**
+ * Normalise a base path: leading slash, no trailing slash, empty for the root.
+ * @param basePath - The path
+ * @returns The normalised path
+ */
+export function normalizeBasePath(basePath: string): string {
+  const trimmed = basePath.replace(/\/+$/, '');
+  return !trimmed ? '' : trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+/**
+ * Work out where a spec is served from its `servers`, as overridden by its mount settings. With path
+ * routing hosts are ignored and root paths are only mounted when configured, as they would shadow
+ * every other spec; with host routing a server URL naming a host is matched on it as well.
+ * @param api - The OpenAPI document
+ * @param config - The spec's mount settings
+ * @param routing - The routing mode
+ * @returns The mount points, without duplicates
+ */
+export function mountPoints(api: OpenAPIV3.Document, config: MountConfig = {}, routing: RoutingMode = 'path'): MountPoint[] {
+  const urls = (api.servers || []).flatMap(server => expandServerUrl(server, config.variables));
+  const declared: MountPoint[] = urls.map(url => {
+    const absolute = /^[a-z][a-z\d+.-]*:\/\//i.test(url) || url.startsWith('//');
+    const parsed = new URL(url, 'http://localhost');
+    return {
+      basePath: normalizeBasePath(decodeURI(parsed.pathname)),
+      host: absolute ? parsed.hostname.toLowerCase() : undefined,
+    };
+  });
+  if (config.basePath !== undefined || config.host !== undefined) {
+    if (!declared.length) declared.push({ basePath: '' });
+    declared.forEach(point => {
+      if (config.basePath !== undefined) point.basePath = normalizeBasePath(config.basePath);
+      if (config.host !== undefined) point.host = config.host.toLowerCase();
+    });
+  }
+
+  const points = new Map<string, MountPoint>();
+  for (const point of declared) {
+    const host = routing === 'host' ? point.host : undefined;
+    if (!host && !point.basePath && config.basePath === undefined) continue;
+    points.set(`${host || ''}${point.basePath}`, host ? { basePath: point.basePath, host } : { basePath: point.basePath });
+  }
+  return [...points.values()];
+}
+
+/**
+ * Check whether a request path lies under a base path, on a segment boundary.
+ * @param requestPath - The request path
+ * @param basePath - The normalised base path
+ * @returns True if the base path is a prefix of the request path
+ */
+export function isUnderBasePath(requestPath: string, basePath: string): boolean {
+  return !basePath || requestPath === basePath || requestPath.startsWith(`${basePath}/`);
+}
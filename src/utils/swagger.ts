@@ -1,6 +1,10 @@
 import * as fs from "fs";
 
+export function isSwaggerFile(file: string): boolean {
+    return file.endsWith('.yaml') || file.endsWith('.yml') || file.endsWith('.json');
+}
+
 export function getSwaggerFiles(specDir: string): string[] {
     if (!fs.existsSync(specDir)) return [];
-    return fs.readdirSync(specDir).filter(file => file.endsWith('.yaml') || file.endsWith('.yml') || file.endsWith('.json'));
+    return fs.readdirSync(specDir).filter(isSwaggerFile);
 }
@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * A server-side WebSocket connection that sends text messages.
+ */
+export interface WebSocketConnection {
+  send(text: string): void;
+  close(code?: number): void;
+  onClose(listener: () => void): void;
+}
+
+/**
+ * Encode a single unmasked (server-to-client) frame.
+ * @param opcode - The frame opcode
+ * @param payload - The payload
+ * @returns The frame
+ */
+export function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decode the complete frames at the start of a buffer, unmasking client payloads.
+ * @param buffer - Received bytes
+ * @returns The frames, and the bytes of an incomplete trailing frame
+ */
+export function decodeFrames(buffer: Buffer): { frames: { opcode: number; payload: Buffer }[]; rest: Buffer } {
+  const frames: { opcode: number; payload: Buffer }[] = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : undefined;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) payload.forEach((byte, i) => { payload[i] = byte ^ mask[i % 4]; });
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+/**
+ * Complete the WebSocket handshake (RFC 6455) for an HTTP upgrade request.
+ * Incoming pings are answered and close frames end the connection; incoming messages are ignored.
+ * @param req - The upgrade request
+ * @param socket - The socket of the request
+ * @returns The connection, or undefined if the request is not a valid WebSocket upgrade
+ */
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex): WebSocketConnection | undefined {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string' || String(req.headers.upgrade).toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return undefined;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  const closeListeners: (() => void)[] = [];
+  let open = true;
+  const finish = () => {
+    if (!open) return;
+    open = false;
+    closeListeners.forEach(listener => listener());
+  };
+
+  let pending: Buffer = Buffer.alloc(0);
+  socket.on('data', (chunk: Buffer) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const frame of frames) {
+      if (frame.opcode === OPCODE_PING) socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+      if (frame.opcode === OPCODE_CLOSE) {
+        socket.end(encodeFrame(OPCODE_CLOSE, frame.payload.subarray(0, 2)));
+        finish();
+      }
+    }
+  });
+  // HTTP server sockets allow half-open connections, so end ours when the client goes away without a close frame
+  socket.on('end', () => {
+    socket.end();
+    finish();
+  });
+  socket.on('close', finish);
+  socket.on('error', finish);
+
+  return {
+    send(text: string) {
+      if (open) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf-8')));
+    },
+    close(code = 1000) {
+      if (!open) return;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code, 0);
+      socket.end(encodeFrame(OPCODE_CLOSE, payload));
+      finish();
+    },
+    onClose(listener: () => void) {
+      closeListeners.push(listener);
+    },
+  };
+}
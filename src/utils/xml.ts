@@ -0,0 +1,248 @@
+import { resolveRef } from './openapi.js';
+
+/**
+ * An element of a parsed XML document.
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const TOKEN = new RegExp([
+  '<!--[\\s\\S]*?-->',
+  '<\\?[\\s\\S]*?\\?>',
+  '<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>',
+  '<!DOCTYPE[^>]*>',
+  '<\\/([^\\s>]+)\\s*>',
+  '<([^\\s/>!?]+)((?:\\s+[^\\s=/>]+\\s*=\\s*(?:"[^"]*"|\'[^\']*\'))*)\\s*(\\/?)>',
+  '([^<]+)',
+].join('|'), 'iy');
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Escape text for use in XML content or attribute values.
+ * @param value - The raw text
+ * @returns The escaped text
+ */
+export function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity] ?? match;
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+/**
+ * Parse an XML document into an element tree. Comments, processing instructions and the
+ * doctype are skipped; entities and CDATA sections are decoded into the element text.
+ * @param text - The XML document
+ * @returns The root element
+ * @throws {Error} When the document is not well-formed
+ */
+export function parseXml(text: string): XmlElement {
+  const document: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+  const stack = [document];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < text.length) {
+    const position = TOKEN.lastIndex;
+    const match = TOKEN.exec(text);
+    if (!match) throw new Error(`Unexpected "${text.slice(position, position + 10)}" at position ${position}`);
+    const [, cdata, closing, opening, attributes, selfClosing, content] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined || content !== undefined) {
+      const value = cdata !== undefined ? cdata : decodeEntities(content);
+      if (stack.length === 1) {
+        if (value.trim()) throw new Error(`Text outside of the root element at position ${position}`);
+        continue;
+      }
+      current.text += value;
+    } else if (closing !== undefined) {
+      if (closing !== current.name) throw new Error(`Unexpected </${closing}> at position ${position}`);
+      stack.pop();
+    } else if (opening !== undefined) {
+      if (stack.length === 1 && document.children.length > 0) throw new Error('More than one root element');
+      const element: XmlElement = { name: opening, attributes: {}, children: [], text: '' };
+      for (const [, name, double, single] of (attributes || '').matchAll(ATTRIBUTE)) {
+        element.attributes[name] = decodeEntities(double ?? single);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+  if (stack.length > 1) throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  if (document.children.length === 0) throw new Error('No root element');
+  return document.children[0];
+}
+
+/**
+ * Resolve a schema reference, merging the properties of `allOf` parts.
+ */
+function resolveSchema(api: any, schema: any): any {
+  const resolved = resolveRef(api, schema) || {};
+  if (!Array.isArray(resolved.allOf)) return resolved;
+  const parts = resolved.allOf.map((part: any) => resolveSchema(api, part));
+  return {
+    ...resolved,
+    type: resolved.type || 'object',
+    properties: Object.assign({}, ...parts.map((part: any) => part.properties || {}), resolved.properties || {}),
+    xml: resolved.xml || parts.find((part: any) => part.xml)?.xml,
+  };
+}
+
+function refName(schema: any): string | undefined {
+  return schema && typeof schema.$ref === 'string' ? schema.$ref.split('/').pop() : undefined;
+}
+
+function localName(name: string): string {
+  return name.includes(':') ? name.slice(name.indexOf(':') + 1) : name;
+}
+
+function qualify(name: string, xml: any): string {
+  return xml && xml.prefix ? `${xml.prefix}:${name}` : name;
+}
+
+/**
+ * Serialize one element; arrays become a wrapping element around their items.
+ */
+function writeElement(name: string, value: any, schema: any, api: any, itemName?: string): string {
+  const resolved = resolveSchema(api, schema);
+  const xml = resolved.xml || {};
+  const tag = qualify(name, xml);
+  const namespace = xml.namespace ? ` xmlns${xml.prefix ? ':' + xml.prefix : ''}="${escapeXml(xml.namespace)}"` : '';
+  if (value === null || value === undefined) return `<${tag}${namespace}/>`;
+  if (Array.isArray(value)) {
+    return `<${tag}${namespace}>${writeItems(value, resolved, itemName || name, api)}</${tag}>`;
+  }
+  if (typeof value !== 'object') return `<${tag}${namespace}>${escapeXml(String(value))}</${tag}>`;
+
+  const properties = resolved.properties || {};
+  let attributes = '';
+  let children = '';
+  for (const [key, item] of Object.entries<any>(value)) {
+    if (item === undefined) continue;
+    const propertySchema = properties[key] || (typeof resolved.additionalProperties === 'object' ? resolved.additionalProperties : {});
+    const property = resolveSchema(api, propertySchema);
+    const propertyXml = property.xml || {};
+    const propertyName = propertyXml.name || key;
+    if (propertyXml.attribute) {
+      const text = typeof item === 'object' ? JSON.stringify(item) : String(item);
+      attributes += ` ${qualify(propertyName, propertyXml)}="${escapeXml(text)}"`;
+    } else if (Array.isArray(item) && !propertyXml.wrapped) {
+      children += writeItems(item, property, key, api);
+    } else {
+      children += writeElement(propertyName, item, propertySchema, api, key);
+    }
+  }
+  return `<${tag}${namespace}${attributes}>${children}</${tag}>`;
+}
+
+/**
+ * Serialize the items of an array as sibling elements, named by `items.xml.name` or the fallback.
+ */
+function writeItems(items: any[], arraySchema: any, fallback: string, api: any): string {
+  const itemSchema = arraySchema.items || {};
+  const name = resolveSchema(api, itemSchema).xml?.name || fallback;
+  return items.map(item => writeElement(name, item, itemSchema, api)).join('');
+}
+
+/**
+ * Serialize a value as an XML document, following the OpenAPI `xml` object of its schema
+ * (`name`, `attribute`, `wrapped`, `prefix` and `namespace`).
+ * @param value - The value
+ * @param schema - Its schema (may be a `$ref`)
+ * @param api - The OpenAPI document, used to resolve references
+ * @returns The XML document
+ */
+export function toXml(value: any, schema: any, api: any): string {
+  const resolved = resolveSchema(api, schema);
+  const itemName = Array.isArray(value) ? refName(resolved.items) || 'item' : undefined;
+  const name = resolved.xml?.name || refName(schema) || (Array.isArray(value) ? 'items' : 'root');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${writeElement(name, value, schema, api, itemName)}`;
+}
+
+/**
+ * Convert element text to the type its schema declares; text that does not convert is kept as is.
+ */
+function coerce(text: string, schema: any): any {
+  const trimmed = text.trim();
+  if ((schema.type === 'integer' || schema.type === 'number') && trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+  if (schema.type === 'boolean' && (trimmed === 'true' || trimmed === 'false')) return trimmed === 'true';
+  return text;
+}
+
+/**
+ * Read an element whose schema is unknown: elements with children become objects, others strings.
+ */
+function readUntyped(element: XmlElement): any {
+  if (element.children.length === 0) return element.text;
+  const result: Record<string, any> = {};
+  for (const child of element.children) {
+    const name = localName(child.name);
+    const value = readUntyped(child);
+    if (!(name in result)) result[name] = value;
+    else result[name] = Array.isArray(result[name]) ? [...result[name], value] : [result[name], value];
+  }
+  return result;
+}
+
+function readElement(element: XmlElement, schema: any, api: any): any {
+  if (!schema) return readUntyped(element);
+  const resolved = resolveSchema(api, schema);
+  const type = resolved.type || (resolved.properties ? 'object' : resolved.items ? 'array' : undefined);
+  if (type === 'array') return element.children.map(child => readElement(child, resolved.items, api));
+  if (type !== 'object') return type ? coerce(element.text, resolved) : readUntyped(element);
+
+  const result: Record<string, any> = {};
+  const matched = new Set<string>();
+  for (const [key, propertySchema] of Object.entries<any>(resolved.properties || {})) {
+    const property = resolveSchema(api, propertySchema);
+    const xml = property.xml || {};
+    const name = xml.name || key;
+    if (xml.attribute) {
+      const attribute = Object.keys(element.attributes).find(a => localName(a) === name);
+      if (attribute !== undefined) result[key] = coerce(element.attributes[attribute], property);
+      continue;
+    }
+    if (property.type === 'array' || property.items) {
+      const itemName = xml.wrapped ? undefined : resolveSchema(api, property.items).xml?.name || key;
+      const wrapper = xml.wrapped ? element.children.find(child => localName(child.name) === name) : undefined;
+      const items = wrapper ? wrapper.children : element.children.filter(child => localName(child.name) === itemName);
+      matched.add(xml.wrapped ? name : itemName as string);
+      if (wrapper || items.length > 0) result[key] = items.map(child => readElement(child, property.items, api));
+      continue;
+    }
+    matched.add(name);
+    const child = element.children.find(c => localName(c.name) === name);
+    if (child) result[key] = readElement(child, propertySchema, api);
+  }
+  // Undeclared elements are kept so that validation can report them
+  for (const child of element.children) {
+    const name = localName(child.name);
+    if (!matched.has(name) && !(name in result)) result[name] = readUntyped(child);
+  }
+  return result;
+}
+
+/**
+ * Parse an XML document into the value its schema describes, following the OpenAPI `xml` object
+ * for element names, attributes and wrapped arrays, and converting numbers and booleans.
+ * @param text - The XML document
+ * @param schema - The schema of the value (may be a `$ref`); without one the structure is kept as strings
+ * @param api - The OpenAPI document, used to resolve references
+ * @returns The value
+ * @throws {Error} When the document is not well-formed
+ */
+export function fromXml(text: string, schema: any, api: any): any {
+  return readElement(parseXml(text), schema, api);
+}
@@ -0,0 +1,330 @@
+import type express from 'express';
+import { OpenAPIV3 } from 'openapi-types';
+import type { OperationContext, WebhooksConfig } from './types.js';
+import type { MockGenerator } from './mock.js';
+import { Logger } from './utils/logger.js';
+import { extractPathParams, findMediaExample, pickMediaType, resolveRef } from './utils/openapi.js';
+import { renderExpression, type ExpressionSource } from './utils/expressions.js';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'options', 'head', 'trace'];
+
+/**
+ * One attempt at delivering a callback or webhook.
+ */
+export interface DeliveryAttempt {
+  at: string;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * A callback or webhook request sent by the server, as reported in the delivery log.
+ */
+export interface Delivery {
+  id: number;
+  kind: 'callback' | 'webhook';
+  spec: string;
+  name: string;
+  method: string;
+  url: string;
+  contentType?: string;
+  payload?: any;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: DeliveryAttempt[];
+}
+
+/**
+ * A top-level webhook declared by a spec.
+ */
+export interface DeclaredWebhook {
+  spec: string;
+  name: string;
+  method: string;
+  target?: string;
+}
+
+/**
+ * Options for triggering a webhook by hand.
+ */
+export interface WebhookTrigger {
+  /** Where to send it; defaults to the configured target of the webhook. */
+  url?: string;
+  /** The body to send; defaults to one generated from the webhook's request body. */
+  payload?: any;
+}
+
+/**
+ * Wait before a retry, returning early when the signal aborts.
+ */
+function backoff(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Webhooks delivers the `callbacks` of operations once they succeed, and the top-level `webhooks`
+ * (OpenAPI 3.1) when triggered through the admin API. Payloads come from the request body examples,
+ * or are generated from their schema. Failed deliveries are retried with exponential backoff, and
+ * every delivery is kept in a log.
+ */
+export class Webhooks {
+  private config: WebhooksConfig;
+  private mockGenerator: MockGenerator;
+  private apis = new Map<string, any>();
+  private deliveries: Delivery[] = [];
+  private nextId = 1;
+  private pending = new Set<Promise<Delivery>>();
+  // Aborted on close, cancelling the requests and retries in progress
+  private aborter = new AbortController();
+
+  /**
+   * @param {WebhooksConfig} config - Retry settings and webhook targets.
+   * @param {MockGenerator} mockGenerator - Used to generate payloads when the spec has no example.
+   */
+  constructor(config: WebhooksConfig = {}, mockGenerator: MockGenerator) {
+    this.config = config;
+    this.mockGenerator = mockGenerator;
+  }
+
+  /**
+   * Make the webhooks of a spec available for triggering.
+   * @param {string} specName - The spec name.
+   * @param {any} api - The OpenAPI document.
+   */
+  register(specName: string, api: any): void {
+    this.apis.set(specName, api);
+  }
+
+  /**
+   * Forget the webhooks of a spec.
+   * @param {string} specName - The spec name.
+   */
+  unregister(specName: string): void {
+    this.apis.delete(specName);
+  }
+
+  /**
+   * List the top-level webhooks declared by the registered specs.
+   * @returns {DeclaredWebhook[]} The webhooks, with their configured target if any.
+   */
+  list(): DeclaredWebhook[] {
+    const webhooks: DeclaredWebhook[] = [];
+    for (const [spec, api] of this.apis) {
+      for (const [name, pathItemOrRef] of Object.entries<any>(api.webhooks || {})) {
+        const pathItem = resolveRef(api, pathItemOrRef) || {};
+        HTTP_METHODS.filter(method => pathItem[method]).forEach(method => {
+          webhooks.push({ spec, name, method: method.toUpperCase(), target: this.config.targets?.[name] });
+        });
+      }
+    }
+    return webhooks;
+  }
+
+  /**
+   * Get the delivery log.
+   * @returns {Delivery[]} The latest deliveries, oldest first.
+   */
+  log(): Delivery[] {
+    return this.deliveries;
+  }
+
+  /**
+   * Empty the delivery log.
+   */
+  clear(): void {
+    this.deliveries = [];
+  }
+
+  /**
+   * Wait until every delivery in progress has succeeded or given up.
+   * @returns {Promise<void>} Resolves once no delivery is pending.
+   */
+  async settled(): Promise<void> {
+    while (this.pending.size > 0) await Promise.all(this.pending);
+  }
+
+  /**
+   * Cancel the deliveries in progress, e.g. when the server stops, and wait for them to give up.
+   * Deliveries started afterwards are sent as usual.
+   */
+  async close(): Promise<void> {
+    this.aborter.abort();
+    await this.settled();
+    this.aborter = new AbortController();
+  }
+
+  /**
+   * Send a top-level webhook of a spec.
+   * @param {string} specName - The spec name.
+   * @param {string} name - The webhook name.
+   * @param {WebhookTrigger} [trigger] - Target and payload overrides.
+   * @returns {Delivery | { error: string; status: 400 | 404 }} The delivery (in progress), or why it could not be started.
+   */
+  trigger(specName: string, name: string, trigger: WebhookTrigger = {}): Delivery | { error: string; status: 400 | 404 } {
+    const api = this.apis.get(specName);
+    if (!api) return { error: `Spec "${specName}" is not mounted`, status: 404 };
+    const pathItem = resolveRef(api, (api.webhooks || {})[name]);
+    const method = pathItem && HTTP_METHODS.find(m => pathItem[m]);
+    if (!method) return { error: `Webhook "${name}" is not declared in ${specName}`, status: 404 };
+    const url = trigger.url || this.config.targets?.[name];
+    if (!url) return { error: `No target URL for webhook "${name}": pass "url" or configure targets.${name}`, status: 400 };
+
+    const { contentType, payload } = this.buildPayload(api, pathItem[method]);
+    return this.start({
+      kind: 'webhook',
+      spec: specName,
+      name,
+      method: method.toUpperCase(),
+      url,
+      contentType,
+      payload: trigger.payload !== undefined ? trigger.payload : payload,
+    });
+  }
+
+  /**
+   * Send the callbacks of an operation that succeeded, rendering their URL expressions from the exchange.
+   * @param {OperationContext} ctx - The called operation.
+   * @param {ExpressionSource} source - The request and response the expressions are evaluated against.
+   * @returns {Delivery[]} The deliveries started.
+   */
+  dispatchCallbacks(ctx: OperationContext, source: ExpressionSource): Delivery[] {
+    const deliveries: Delivery[] = [];
+    for (const [name, callbackOrRef] of Object.entries<any>(ctx.operation?.callbacks || {})) {
+      const callback = resolveRef<OpenAPIV3.CallbackObject>(ctx.api, callbackOrRef) || {};
+      for (const [expression, pathItemOrRef] of Object.entries<any>(callback)) {
+        const url = renderExpression(expression, source);
+        const pathItem = resolveRef<any>(ctx.api, pathItemOrRef) || {};
+        for (const method of HTTP_METHODS.filter(m => pathItem[m])) {
+          if (!/^https?:\/\//.test(url)) {
+            Logger.warn(`[Webhooks] Skipping callback ${name}: "${expression}" rendered to "${url}", which is not an absolute URL`);
+            continue;
+          }
+          const { contentType, payload } = this.buildPayload(ctx.api, pathItem[method]);
+          deliveries.push(this.start({ kind: 'callback', spec: ctx.specName, name, method: method.toUpperCase(), url, contentType, payload }));
+        }
+      }
+    }
+    return deliveries;
+  }
+
+  /**
+   * Log a delivery and send it in the background.
+   */
+  private start(delivery: Omit<Delivery, 'id' | 'status' | 'attempts'>): Delivery {
+    const logged: Delivery = { id: this.nextId++, ...delivery, status: 'pending', attempts: [] };
+    this.deliveries.push(logged);
+    if (this.deliveries.length > 100) this.deliveries.shift();
+
+    const delivering = this.deliver(logged);
+    this.pending.add(delivering);
+    delivering.finally(() => this.pending.delete(delivering));
+    return logged;
+  }
+
+  /**
+   * Send a delivery, retrying network errors, 5XX and 429 responses with exponential backoff.
+   * @param {Delivery} delivery - The delivery; its status and attempts are updated in place.
+   * @returns {Promise<Delivery>} The delivery once it succeeded or gave up.
+   */
+  async deliver(delivery: Delivery): Promise<Delivery> {
+    const retries = this.config.retries ?? 3;
+    const retryDelay = this.config.retryDelay ?? 1000;
+    const signal = this.aborter.signal;
+    const headers: Record<string, string> = { 'User-Agent': 'fake-api' };
+    if (delivery.contentType) headers['Content-Type'] = delivery.contentType;
+    const body = delivery.payload === undefined ? undefined
+      : typeof delivery.payload === 'string' ? delivery.payload : JSON.stringify(delivery.payload);
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) await backoff(retryDelay * 2 ** (attempt - 1), signal);
+      if (signal.aborted) break;
+      const record: DeliveryAttempt = { at: new Date().toISOString() };
+      delivery.attempts.push(record);
+      try {
+        const res = await fetch(delivery.url, {
+          method: delivery.method,
+          headers,
+          body,
+          signal: AbortSignal.any([signal, AbortSignal.timeout(this.config.timeout ?? 5000)]),
+        });
+        record.status = res.status;
+        await res.arrayBuffer();
+        if (res.ok) {
+          delivery.status = 'delivered';
+          Logger.info(`[Webhooks] Delivered ${delivery.kind} ${delivery.name} to ${delivery.url} (${res.status})`);
+          return delivery;
+        }
+        if (res.status < 500 && res.status !== 429) break;
+      } catch (error: any) {
+        record.error = error.message;
+      }
+      if (signal.aborted) break;
+      Logger.warn(`[Webhooks] Attempt ${attempt + 1} to deliver ${delivery.name} to ${delivery.url} failed: ${record.error || record.status}`);
+    }
+    delivery.status = 'failed';
+    if (signal.aborted) {
+      Logger.warn(`[Webhooks] Cancelled ${delivery.kind} ${delivery.name} to ${delivery.url}: the server stopped`);
+    } else {
+      Logger.error(`[Webhooks] Giving up on ${delivery.kind} ${delivery.name} to ${delivery.url}`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Build the payload of a callback or webhook operation from its request body example or schema.
+   */
+  private buildPayload(api: any, operation: OpenAPIV3.OperationObject): { contentType?: string; payload?: any } {
+    const requestBody = resolveRef<OpenAPIV3.RequestBodyObject>(api, operation.requestBody);
+    const content = requestBody?.content || {};
+    const contentType = pickMediaType(content);
+    if (!contentType) return {};
+    const media = content[contentType];
+    const example = findMediaExample(api, media);
+    if (example) return { contentType, payload: example.value };
+    if (!media.schema) return { contentType };
+    const schemas = (api.components && api.components.schemas) || {};
+    const name = '$ref' in media.schema ? media.schema.$ref.split('/').pop() : undefined;
+    return { contentType, payload: this.mockGenerator.generateFromSchema(media.schema, schemas, name) };
+  }
+
+  /**
+   * Express middleware sending the callbacks of the operation in `res.locals.openapi` once its
+   * response has been sent with a 2XX status.
+   * @returns Express middleware
+   */
+  middleware(): express.RequestHandler {
+    return (req, res, next) => {
+      const ctx = res.locals.openapi as OperationContext | undefined;
+      if (!ctx || !ctx.operation || !ctx.operation.callbacks) return next();
+
+      const url = `${req.protocol}://${req.get('host')}${ctx.basePath ?? `/api/${ctx.specName}`}${req.url}`;
+      const requestPath = req.path;
+      const originalSend = res.send.bind(res);
+      let sent: any;
+      res.send = (body?: any) => {
+        sent = body;
+        return originalSend(body);
+      };
+
+      res.on('finish', () => {
+        if (res.statusCode < 200 || res.statusCode >= 300) return;
+        let responseBody = Buffer.isBuffer(sent) ? sent.toString('utf-8') : sent;
+        if (typeof responseBody === 'string') {
+          try { responseBody = JSON.parse(responseBody); } catch { /* keep the raw string */ }
+        }
+        this.dispatchCallbacks(ctx, {
+          url,
+          method: req.method,
+          request: { path: extractPathParams(requestPath, ctx.path), query: req.query, headers: req.headers, body: req.body },
+          response: { status: res.statusCode, headers: res.getHeaders(), body: responseBody },
+        });
+      });
+      next();
+    };
+  }
+}